@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { analysisCache } from "@/lib/cache/analysis-cache";
+
+/**
+ * Reports analysis cache hits, misses, evictions and size
+ */
+export async function GET() {
+  return NextResponse.json(analysisCache.getStats(), { status: 200 });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { analysisJobs } from "@/lib/jobs/analysis-jobs";
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * Reports the stages of an analysis job, and its result once completed
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = analysisJobs.getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Analysis job not found. It may have expired." },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job, { status: 200 });
+}
+
+/**
+ * Cancels a running analysis job
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = analysisJobs.getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: "Analysis job not found. It may have expired." },
+      { status: 404 }
+    );
+  }
+
+  if (!analysisJobs.cancelJob(jobId)) {
+    return NextResponse.json(
+      { error: `Analysis job is already ${job.status}.` },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ jobId, status: "cancelled" }, { status: 200 });
+}
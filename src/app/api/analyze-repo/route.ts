@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
-import { GitHubService } from "@/lib/github/github-service";
-import { GeminiService } from "@/lib/gemini/gemini-service";
-import { extractRepoInfo, isValidGitHubUrl } from "@/lib/utils";
+import { getRepositoryHost } from "@/lib/repository/repository-hosts";
+import { getGitHubToken } from "@/lib/auth/github-auth";
+import { analysisJobs } from "@/lib/jobs/analysis-jobs";
+import { createAnalysisRunner } from "@/lib/jobs/repository-analysis";
+import { extractRepoInfo, isValidRepositoryUrl } from "@/lib/utils";
 
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    const { url, ref, force } = await request.json();
 
     // Basic URL validation
     if (!url || typeof url !== "string") {
@@ -15,16 +17,30 @@ export async function POST(request: Request) {
       );
     }
 
-    // Validate GitHub URL format
-    if (!isValidGitHubUrl(url)) {
+    // Validate repository URL format
+    if (!isValidRepositoryUrl(url)) {
       return NextResponse.json(
-        { error: "Invalid GitHub repository URL format." },
+        { error: "Invalid repository URL format. Use a GitHub, GitLab or Bitbucket repository URL, or a file:// URL of a local repository." },
         { status: 400 }
       );
     }
 
-    // Extract owner and repo from URL
-    const repoInfo = extractRepoInfo(url);
+    // github.com, gitlab.com, bitbucket.org, a configured self-hosted instance or a local repository
+    const urlHost = extractRepoInfo(url)?.host || "";
+    const host = getRepositoryHost(urlHost);
+    if (!host) {
+      return NextResponse.json(
+        {
+          error: urlHost === "local"
+            ? "Local repositories are disabled. Set LOCAL_REPOSITORY_ROOTS to allow them."
+            : `Host ${urlHost} is not configured. Add it to GITHUB_ENTERPRISE_HOSTS or GITLAB_HOSTS.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Extract owner and repo from URL, now that the hosting service is known
+    const repoInfo = extractRepoInfo(url, host.type);
     if (!repoInfo) {
       return NextResponse.json(
         { error: "Could not extract repository information from URL." },
@@ -32,42 +48,38 @@ export async function POST(request: Request) {
       );
     }
 
-    try {
-      console.log(`Analyzing repository: ${repoInfo.owner}/${repoInfo.repo}`);
-      
-      // Analyze repository
-      const githubService = new GitHubService();
-      const repoAnalysisData = await githubService.analyzeRepository(
-        repoInfo.owner,
-        repoInfo.repo
-      );
-      
-      console.log("GitHub data fetched successfully");
-      
-      // Generate AI analysis
-      const geminiService = new GeminiService();
-      console.log("Sending data to Gemini for analysis...");
-      const aiAnalysis = await geminiService.analyzeRepository(repoAnalysisData);
-      
-      console.log("AI analysis completed successfully");
-      console.log("AI Summary:", aiAnalysis.summary);
-      
-      // Combine all data for response
+    if (ref !== undefined && typeof ref !== "string") {
       return NextResponse.json(
-        {
-          repoData: repoAnalysisData.repoData,
-          repoContent: repoAnalysisData.repoContent,
-          aiAnalysis,
-        },
-        { status: 200 }
+        { error: "Invalid request. Ref must be a string." },
+        { status: 400 }
       );
-    } catch (error) {
-      console.error("Error in repository analysis process:", error);
+    }
+
+    if (force !== undefined && typeof force !== "boolean") {
       return NextResponse.json(
-        { error: `Analysis process failed: ${(error as Error).message}` },
-        { status: 500 }
+        { error: "Invalid request. Force must be a boolean." },
+        { status: 400 }
       );
     }
+
+    // Analyze with the connected user's own GitHub permissions, if any (GitHub hosts only)
+    const githubToken = getGitHubToken(request, host.host);
+
+    // Run the analysis in the background; clients poll /api/analyze-repo/<jobId>
+    const job = analysisJobs.createJob(
+      url,
+      ref,
+      createAnalysisRunner(host, repoInfo, { ref, force: force === true, githubToken })
+    );
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        stages: job.stages,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error("Error analyzing repository:", error);
     return NextResponse.json(
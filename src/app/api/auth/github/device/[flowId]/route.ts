@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getGitHubSessionId, githubAuth, setGitHubSessionCookie } from "@/lib/auth/github-auth";
+
+interface RouteContext {
+  params: Promise<{ flowId: string }>;
+}
+
+/**
+ * Checks whether the user has approved a device flow sign-in
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { flowId } = await params;
+
+  try {
+    const result = await githubAuth.pollDeviceFlow(flowId, getGitHubSessionId(request));
+    if (result.status !== "complete") {
+      return NextResponse.json({ status: result.status }, { status: 200 });
+    }
+
+    const response = NextResponse.json(
+      { status: result.status, identity: result.identity },
+      { status: 200 }
+    );
+    setGitHubSessionCookie(response, result.sessionId);
+    return response;
+  } catch (error) {
+    console.error("Error completing GitHub sign-in:", (error as Error).message);
+    return NextResponse.json(
+      { error: "GitHub sign-in failed." },
+      { status: 502 }
+    );
+  }
+}
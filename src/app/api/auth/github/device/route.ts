@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { githubAuth } from "@/lib/auth/github-auth";
+import { GITHUB_COM, getGitHubHost } from "@/lib/github/github-hosts";
+
+/**
+ * Starts GitHub sign-in with the OAuth device flow.
+ * Clients show the user code, then poll /api/auth/github/device/<flowId>.
+ */
+export async function POST(request: Request) {
+  const { host: hostName = GITHUB_COM } = await request.json().catch(() => ({}));
+  const host = typeof hostName === "string" ? getGitHubHost(hostName) : null;
+  if (!host) {
+    return NextResponse.json(
+      { error: "Unknown GitHub host." },
+      { status: 400 }
+    );
+  }
+
+  if (!githubAuth.isDeviceFlowAvailable(host)) {
+    return NextResponse.json(
+      { error: `GitHub sign-in is not configured for ${host.host}. Paste a personal access token instead.` },
+      { status: 501 }
+    );
+  }
+
+  try {
+    const flow = await githubAuth.startDeviceFlow(host);
+    return NextResponse.json(flow, { status: 200 });
+  } catch (error) {
+    console.error("Error starting GitHub sign-in:", (error as Error).message);
+    return NextResponse.json(
+      { error: "Failed to start GitHub sign-in." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { clearGitHubSessionCookie, getGitHubSessionId, githubAuth } from "@/lib/auth/github-auth";
+import { getGitHubHosts } from "@/lib/github/github-hosts";
+
+/**
+ * Reports which GitHub user, if any, is connected, and the hosts they can connect to
+ */
+export async function GET(request: Request) {
+  const sessionId = getGitHubSessionId(request);
+  const identity = sessionId ? githubAuth.getIdentity(sessionId) : null;
+
+  return NextResponse.json(
+    {
+      connected: identity !== null,
+      identity,
+      hosts: getGitHubHosts().map((host) => ({
+        host: host.host,
+        deviceFlowAvailable: githubAuth.isDeviceFlowAvailable(host),
+      })),
+    },
+    { status: 200 }
+  );
+}
+
+/**
+ * Disconnects the GitHub user and forgets their token
+ */
+export async function DELETE(request: Request) {
+  const sessionId = getGitHubSessionId(request);
+  if (sessionId) {
+    githubAuth.disconnect(sessionId);
+  }
+
+  const response = NextResponse.json({ connected: false }, { status: 200 });
+  clearGitHubSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { getGitHubSessionId, githubAuth, setGitHubSessionCookie } from "@/lib/auth/github-auth";
+import { GitHubServiceError, getGitHubErrorStatus } from "@/lib/github/github-errors";
+import { GITHUB_COM, getGitHubHost } from "@/lib/github/github-hosts";
+
+/**
+ * Connects a GitHub identity from a pasted personal access token
+ */
+export async function POST(request: Request) {
+  try {
+    const { token, host: hostName = GITHUB_COM } = await request.json();
+
+    if (!token || typeof token !== "string" || !token.trim()) {
+      return NextResponse.json(
+        { error: "Invalid request. A token is required." },
+        { status: 400 }
+      );
+    }
+
+    const host = typeof hostName === "string" ? getGitHubHost(hostName) : null;
+    if (!host) {
+      return NextResponse.json(
+        { error: "Unknown GitHub host." },
+        { status: 400 }
+      );
+    }
+
+    const { sessionId, identity } = await githubAuth.connect(
+      token.trim(),
+      "token",
+      host,
+      getGitHubSessionId(request)
+    );
+    const response = NextResponse.json({ connected: true, identity }, { status: 200 });
+    setGitHubSessionCookie(response, sessionId);
+    return response;
+  } catch (error) {
+    // Never log the request body, which holds the token
+    if (error instanceof GitHubServiceError) {
+      console.error(`Error connecting GitHub token: ${error.kind}`);
+      return NextResponse.json(
+        {
+          error:
+            error.kind === "forbidden"
+              ? "GitHub rejected this token. Check that it is valid and has not expired."
+              : error.message,
+          kind: error.kind,
+          resetAt: error.resetAt,
+        },
+        { status: error.kind === "forbidden" ? 401 : getGitHubErrorStatus(error.kind) }
+      );
+    }
+    console.error("Error connecting GitHub token");
+    return NextResponse.json(
+      { error: "Failed to connect GitHub." },
+      { status: 500 }
+    );
+  }
+}
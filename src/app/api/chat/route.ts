@@ -1,11 +1,15 @@
 import { NextResponse } from "next/server";
 import { GeminiService } from "@/lib/gemini/gemini-service";
-import { ChatMessage } from "@/lib/gemini/gemini-service";
-import { mcpServer } from "@/lib/gemini/mcp-server";
+import { ChatMessage } from "@/lib/llm";
+import { MCPServer } from "@/lib/gemini/mcp-server";
+import { mcpSessions } from "@/lib/gemini/mcp-sessions";
+import { createRepositoryTools } from "@/lib/agent/repository-tools";
+import { extractCitations } from "@/lib/agent/citations";
+import { isValidChatMessages } from "@/lib/utils";
 
 export async function POST(request: Request) {
   try {
-    const { messages } = await request.json();
+    const { messages, sessionId } = await request.json();
 
     // Validate messages array
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -16,22 +20,29 @@ export async function POST(request: Request) {
     }
 
     // Validate message format
-    const isValidMessages = messages.every(
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (msg: any) =>
-        msg &&
-        typeof msg === "object" &&
-        (msg.role === "user" || msg.role === "assistant") &&
-        typeof msg.content === "string"
-    );
-
-    if (!isValidMessages) {
+    if (!isValidChatMessages(messages)) {
       return NextResponse.json(
         { error: "Invalid message format." },
         { status: 400 }
       );
     }
 
+    if (sessionId !== undefined && typeof sessionId !== "string") {
+      return NextResponse.json(
+        { error: "Invalid request. Session ID must be a string." },
+        { status: 400 }
+      );
+    }
+
+    // Chat about the repository analyzed in this session
+    const mcpServer = sessionId ? await mcpSessions.get(sessionId) : new MCPServer();
+    if (!mcpServer) {
+      return NextResponse.json(
+        { error: "Chat session not found. Please analyze the repository again." },
+        { status: 404 }
+      );
+    }
+
     // Log detailed information about repository context
     const hasContext = mcpServer.hasContext();
     console.log(`Chat API: Repository context available: ${hasContext}`);
@@ -53,22 +64,30 @@ export async function POST(request: Request) {
       console.warn("No repository context available. The AI might give generic responses.");
     }
     
-    // Process chat with Gemini
-    const geminiService = new GeminiService();
-    const response = await geminiService.chat(messages as ChatMessage[]);
+    // Process chat with the configured LLM provider, letting it read the repository if possible
+    const geminiService = new GeminiService(mcpServer);
+    const tools = createRepositoryTools(mcpServer, request);
+    const assistantMessage: ChatMessage = tools
+      ? await geminiService.chatWithTools(messages as ChatMessage[], tools)
+      : { role: "assistant", content: await geminiService.chat(messages as ChatMessage[]) };
+
+    const citations = extractCitations(assistantMessage.content, mcpServer, [
+      ...geminiService.sources,
+      ...(tools?.sources || []),
+    ]);
+    if (citations.length > 0) {
+      assistantMessage.citations = citations;
+    }
 
     // Log a sample of the response for debugging
-    console.log(`Chat response (first 100 chars): ${response.substring(0, 100)}...`);
-    
-    // Create the assistant message
-    const assistantMessage: ChatMessage = {
-      role: "assistant",
-      content: response,
-    };
+    console.log(`Chat response (first 100 chars): ${assistantMessage.content.substring(0, 100)}...`);
     
     // Store the AI response in chat history if we have repository context
     if (mcpServer.hasContext()) {
       mcpServer.addMessageToHistory(assistantMessage);
+      if (sessionId) {
+        await mcpSessions.saveChatHistory(sessionId);
+      }
       console.log("Stored AI response in chat history");
     }
     
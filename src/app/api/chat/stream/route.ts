@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { GeminiService } from "@/lib/gemini/gemini-service";
+import { ChatMessage } from "@/lib/llm";
+import { MCPServer } from "@/lib/gemini/mcp-server";
+import { mcpSessions } from "@/lib/gemini/mcp-sessions";
+import { createRepositoryTools } from "@/lib/agent/repository-tools";
+import { extractCitations } from "@/lib/agent/citations";
+import { ToolStep } from "@/lib/llm";
+import { isValidChatMessages } from "@/lib/utils";
+
+/**
+ * Streams a chat response as Server-Sent Events.
+ * Each event carries JSON: {type: "step", step} for each repository tool the model called,
+ * {type: "token", content}, {type: "citations", citations} for the code the answer cites,
+ * {type: "done"} or {type: "error", error}.
+ */
+export async function POST(request: Request) {
+  const { messages, sessionId } = await request.json().catch(() => ({ messages: null }));
+
+  // Validate messages array and format
+  if (!isValidChatMessages(messages)) {
+    return NextResponse.json(
+      { error: "Invalid request. A non-empty messages array is required." },
+      { status: 400 }
+    );
+  }
+
+  if (sessionId !== undefined && typeof sessionId !== "string") {
+    return NextResponse.json(
+      { error: "Invalid request. Session ID must be a string." },
+      { status: 400 }
+    );
+  }
+
+  // Chat about the repository analyzed in this session
+  const mcpServer = sessionId ? await mcpSessions.get(sessionId) : new MCPServer();
+  if (!mcpServer) {
+    return NextResponse.json(
+      { error: "Chat session not found. Please analyze the repository again." },
+      { status: 404 }
+    );
+  }
+
+  if (!mcpServer.hasContext()) {
+    console.warn("No repository context available. The AI might give generic responses.");
+  }
+
+  // Abort the upstream model request when the client disconnects or stops the stream
+  const controller = new AbortController();
+  request.signal.addEventListener("abort", () => controller.abort());
+
+  const encoder = new TextEncoder();
+  const geminiService = new GeminiService(mcpServer);
+  // Let the model read the analyzed repository when its host is still configured
+  const tools = createRepositoryTools(mcpServer, request);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: Record<string, unknown>) =>
+        streamController.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      let content = "";
+      const steps: ToolStep[] = [];
+      try {
+        const events = tools
+          ? geminiService.agentStream(messages, tools, controller.signal)
+          : geminiService.chatStream(messages, controller.signal);
+        for await (const event of events) {
+          if (typeof event !== "string" && event.type === "step") {
+            steps.push(event.step);
+            send({ type: "step", step: event.step });
+            continue;
+          }
+          const token = typeof event === "string" ? event : event.content;
+          content += token;
+          send({ type: "token", content: token });
+        }
+
+        // Only completed responses become part of the stored conversation
+        if (controller.signal.aborted) {
+          console.log(`Chat stream stopped after ${content.length} characters`);
+          return;
+        }
+        const citations = extractCitations(content, mcpServer, [
+          ...geminiService.sources,
+          ...(tools?.sources || []),
+        ]);
+        if (citations.length > 0) {
+          send({ type: "citations", citations });
+        }
+        if (mcpServer.hasContext()) {
+          const assistantMessage: ChatMessage = {
+            role: "assistant",
+            content,
+            ...(steps.length > 0 ? { steps } : {}),
+            ...(citations.length > 0 ? { citations } : {}),
+          };
+          mcpServer.addMessageToHistory(assistantMessage);
+          if (sessionId) {
+            await mcpSessions.saveChatHistory(sessionId);
+          }
+          console.log("Stored streamed AI response in chat history");
+        }
+        send({ type: "done" });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          console.log(`Chat stream stopped after ${content.length} characters`);
+        } else {
+          console.error("Error streaming chat:", error);
+          send({ type: "error", error: "Failed to process chat message." });
+        }
+      } finally {
+        try {
+          streamController.close();
+        } catch {
+          // The client already went away
+        }
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
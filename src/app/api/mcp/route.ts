@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { mcpHttpSessions } from "@/lib/mcp/http-sessions";
+import {
+  errorResponse,
+  INVALID_REQUEST,
+  isJsonRpcRequest,
+  JsonRpcResponse,
+  PARSE_ERROR,
+} from "@/lib/mcp/json-rpc";
+import { RepositoryMcpServer, SUPPORTED_PROTOCOL_VERSIONS } from "@/lib/mcp/repository-mcp-server";
+
+const SESSION_HEADER = "Mcp-Session-Id";
+
+/**
+ * Streamable HTTP transport of the MCP server. Every response is a single JSON body;
+ * the server sends no requests or notifications of its own over HTTP.
+ */
+export async function POST(request: Request) {
+  const rejection = checkRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(errorResponse(null, PARSE_ERROR, "Parse error"), { status: 400 });
+  }
+
+  const isBatch = Array.isArray(body);
+  const messages: unknown[] = isBatch ? (body as unknown[]) : [body];
+  if (messages.length === 0) {
+    return NextResponse.json(errorResponse(null, INVALID_REQUEST, "Empty batch"), { status: 400 });
+  }
+
+  // initialize starts a new session and has to be sent on its own
+  const initialize = messages.find((message) => isJsonRpcRequest(message) && message.method === "initialize");
+  if (initialize) {
+    if (messages.length > 1) {
+      return NextResponse.json(
+        errorResponse(null, INVALID_REQUEST, "initialize must not be part of a batch"),
+        { status: 400 }
+      );
+    }
+
+    const server = new RepositoryMcpServer();
+    const response = await server.handle(initialize);
+    if (!response || !("result" in response)) {
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const { protocolVersion } = response.result as { protocolVersion: string };
+    const sessionId = mcpHttpSessions.create(server, protocolVersion);
+    return NextResponse.json(response, { headers: { [SESSION_HEADER]: sessionId } });
+  }
+
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (!sessionId) {
+    return NextResponse.json(
+      errorResponse(null, INVALID_REQUEST, `Missing ${SESSION_HEADER} header. Send initialize first.`),
+      { status: 400 }
+    );
+  }
+
+  const session = mcpHttpSessions.get(sessionId);
+  if (!session) {
+    return NextResponse.json(
+      errorResponse(null, INVALID_REQUEST, "Session not found. Send initialize to start a new session."),
+      { status: 404 }
+    );
+  }
+
+  const responses = (await Promise.all(messages.map((message) => session.server.handle(message)))).filter(
+    (response): response is JsonRpcResponse => response !== null
+  );
+
+  // Bodies of only notifications and responses are acknowledged without content
+  if (responses.length === 0) {
+    return new Response(null, { status: 202 });
+  }
+  return NextResponse.json(isBatch ? responses : responses[0]);
+}
+
+/**
+ * The server never pushes messages, so there is no stream to open
+ */
+export async function GET() {
+  return new Response(null, { status: 405, headers: { Allow: "POST, DELETE" } });
+}
+
+/**
+ * Ends a client's session
+ */
+export async function DELETE(request: Request) {
+  const rejection = checkRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (!sessionId) {
+    return NextResponse.json(errorResponse(null, INVALID_REQUEST, `Missing ${SESSION_HEADER} header`), {
+      status: 400,
+    });
+  }
+  if (!mcpHttpSessions.delete(sessionId)) {
+    return NextResponse.json(errorResponse(null, INVALID_REQUEST, "Session not found"), { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Rejects cross-origin browser requests (against DNS rebinding), requests without the
+ * MCP_AUTH_TOKEN bearer token when one is configured, and unsupported protocol versions
+ */
+function checkRequest(request: Request): Response | null {
+  const origin = request.headers.get("origin");
+  if (origin) {
+    const host = request.headers.get("x-forwarded-host") || request.headers.get("host") || new URL(request.url).host;
+    let originHost = "";
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      // Treated as a mismatch below
+    }
+    if (originHost !== host) {
+      console.warn(`Rejected MCP request from origin ${origin}`);
+      return NextResponse.json(errorResponse(null, INVALID_REQUEST, "Origin not allowed"), { status: 403 });
+    }
+  }
+
+  const authToken = process.env.MCP_AUTH_TOKEN;
+  if (authToken && request.headers.get("authorization") !== `Bearer ${authToken}`) {
+    return NextResponse.json(errorResponse(null, INVALID_REQUEST, "Unauthorized"), {
+      status: 401,
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  // Clients send the negotiated version after initialize; none means the oldest HTTP version
+  const protocolVersion = request.headers.get("mcp-protocol-version");
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return NextResponse.json(
+      errorResponse(null, INVALID_REQUEST, `Unsupported MCP protocol version ${protocolVersion}`),
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
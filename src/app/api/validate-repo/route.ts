@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
-import { GitHubService } from "@/lib/github/github-service";
-import { extractRepoInfo, isValidGitHubUrl } from "@/lib/utils";
+import { createRepositoryProvider, getRepositoryHost } from "@/lib/repository/repository-hosts";
+import { getGitHubToken } from "@/lib/auth/github-auth";
+import { GitHubServiceError, getGitHubErrorStatus } from "@/lib/github/github-errors";
+import { extractRepoInfo, isValidRepositoryUrl } from "@/lib/utils";
 
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    const { url, ref } = await request.json();
 
     // Basic URL validation
     if (!url || typeof url !== "string") {
@@ -14,16 +16,30 @@ export async function POST(request: Request) {
       );
     }
 
-    // Validate GitHub URL format
-    if (!isValidGitHubUrl(url)) {
+    // Validate repository URL format
+    if (!isValidRepositoryUrl(url)) {
       return NextResponse.json(
-        { error: "Invalid GitHub repository URL format." },
+        { error: "Invalid repository URL format. Use a GitHub, GitLab or Bitbucket repository URL, or a file:// URL of a local repository." },
         { status: 400 }
       );
     }
 
-    // Extract owner and repo from URL
-    const repoInfo = extractRepoInfo(url);
+    // github.com, gitlab.com, bitbucket.org, a configured self-hosted instance or a local repository
+    const urlHost = extractRepoInfo(url)?.host || "";
+    const host = getRepositoryHost(urlHost);
+    if (!host) {
+      return NextResponse.json(
+        {
+          error: urlHost === "local"
+            ? "Local repositories are disabled. Set LOCAL_REPOSITORY_ROOTS to allow them."
+            : `Host ${urlHost} is not configured. Add it to GITHUB_ENTERPRISE_HOSTS or GITLAB_HOSTS.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Extract owner and repo from URL, now that the hosting service is known
+    const repoInfo = extractRepoInfo(url, host.type);
     if (!repoInfo) {
       return NextResponse.json(
         { error: "Could not extract repository information from URL." },
@@ -31,30 +47,69 @@ export async function POST(request: Request) {
       );
     }
 
+    if (ref !== undefined && typeof ref !== "string") {
+      return NextResponse.json(
+        { error: "Invalid request. Ref must be a string." },
+        { status: 400 }
+      );
+    }
+
     // Check if repository exists and is accessible
-    const githubService = new GitHubService();
-    const isValid = await githubService.validateRepo(
+    const repositoryProvider = createRepositoryProvider(host, getGitHubToken(request, host.host));
+    const isValid = await repositoryProvider.validateRepo(
       repoInfo.owner,
       repoInfo.repo
     );
 
     if (!isValid) {
       return NextResponse.json(
-        { error: "Repository not found or not accessible." },
+        {
+          error: host.type === "github"
+            ? "Repository not found or not accessible. Connect GitHub to analyze private repositories."
+            : host.type === "local"
+              ? "Not a git repository."
+              : "Repository not found or not accessible. Private repositories need a token configured for this host.",
+        },
         { status: 404 }
       );
     }
 
+    // Resolve the requested branch, tag or commit (defaults to the default branch)
+    // and the subdirectory scope, if the URL points inside the repository
+    // Failures become GitHubServiceErrors, reported below with their kind
+    const resolvedRef = await repositoryProvider.resolveRef(
+      repoInfo.owner,
+      repoInfo.repo,
+      ref || repoInfo.ref,
+      repoInfo.path
+    );
+    resolvedRef.path = await repositoryProvider.resolveScope(
+      repoInfo.owner,
+      repoInfo.repo,
+      resolvedRef.path,
+      resolvedRef.sha
+    );
+
     return NextResponse.json(
       { 
         valid: true,
+        host: host.host,
         owner: repoInfo.owner,
-        repo: repoInfo.repo
+        repo: repoInfo.repo,
+        ref: resolvedRef.ref,
+        sha: resolvedRef.sha,
+        path: resolvedRef.path,
       },
       { status: 200 }
     );
   } catch (error) {
     console.error("Error validating repository:", error);
+    if (error instanceof GitHubServiceError) {
+      return NextResponse.json(
+        { error: error.message, kind: error.kind, resetAt: error.resetAt },
+        { status: getGitHubErrorStatus(error.kind) }
+      );
+    }
     return NextResponse.json(
       { error: "Failed to validate repository." },
       { status: 500 }
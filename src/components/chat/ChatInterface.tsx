@@ -3,6 +3,8 @@ import { MessageBubble } from "./MessageBubble";
 import { ChatInput } from "./ChatInput";
 import { ThinkingIndicator } from "./ThinkingIndicator";
 import { useAnalysisStore } from "@/lib/store";
+import { readServerSentEvents } from "@/lib/llm/stream-utils";
+import { ChatMessage, Citation, ToolStep } from "@/lib/llm/types";
 import { toast } from "sonner";
 
 export function ChatInterface() {
@@ -10,15 +12,25 @@ export function ChatInterface() {
     messages, 
     addMessage, 
     isAnalysisComplete,
+    sessionId,
   } = useAnalysisStore();
   
   const [isLoading, setIsLoading] = React.useState(false);
+  const [streamingMessage, setStreamingMessage] = React.useState<ChatMessage | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change or new tokens or tool steps arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingMessage]);
+
+  // Stop any in-flight response when the chat unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
   // We've removed the automatic welcome message to prevent duplication
   // The welcome message will be sent from the server when needed
@@ -30,30 +42,70 @@ export function ChatInterface() {
     
     setIsLoading(true);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let responseText = "";
+    const steps: ToolStep[] = [];
+    let citations: Citation[] = [];
+    const toMessage = (): ChatMessage => ({
+      role: "assistant",
+      content: responseText,
+      ...(steps.length > 0 ? { steps: [...steps] } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+    });
+    
     try {
-      // Send message to API
-      const response = await fetch("/api/chat", {
+      // Send message to the streaming API
+      const response = await fetch("/api/chat/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage],
+          // Tool steps and citations are only for display
+          messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
+          sessionId: sessionId || undefined,
         }),
+        signal: controller.signal,
       });
       
       if (!response.ok) {
-        throw new Error("Failed to get response");
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to get response");
       }
       
-      const data = await response.json();
+      // Render tool steps, tokens and citations as they arrive
+      for await (const data of readServerSentEvents(response)) {
+        const event = JSON.parse(data);
+        if (event.type === "step") {
+          steps.push(event.step);
+          setStreamingMessage(toMessage());
+        } else if (event.type === "token") {
+          responseText += event.content;
+          setStreamingMessage(toMessage());
+        } else if (event.type === "citations") {
+          citations = event.citations;
+          setStreamingMessage(toMessage());
+        } else if (event.type === "error") {
+          throw new Error(event.error);
+        }
+      }
       
       // Add AI response to chat
-      addMessage(data.message);
+      addMessage(toMessage());
     } catch (error) {
-      console.error("Error sending message:", error);
-      toast.error("Failed to get a response. Please try again.");
+      if (controller.signal.aborted) {
+        // Keep whatever was received before the user stopped the response
+        if (responseText) {
+          addMessage(toMessage());
+        }
+      } else {
+        console.error("Error sending message:", error);
+        toast.error((error as Error).message || "Failed to get a response. Please try again.");
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
       setIsLoading(false);
     }
   };
@@ -67,7 +119,15 @@ export function ChatInterface() {
             {messages.map((message, index) => (
               <MessageBubble key={index} message={message} />
             ))}
-            {isLoading && <ThinkingIndicator />}
+            {streamingMessage ? (
+              <MessageBubble
+                message={streamingMessage}
+                isStreaming
+                onStop={handleStop}
+              />
+            ) : (
+              isLoading && <ThinkingIndicator />
+            )}
             <div ref={messagesEndRef} />
           </div>
         ) : (
@@ -1,17 +1,26 @@
 import React from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card } from "@/components/ui/card";
-import { ChatMessage } from "@/lib/gemini/gemini-service";
+import { ChatMessage, Citation, ToolStep } from "@/lib/llm/types";
 import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
-import { CopyIcon, CheckIcon } from "@radix-ui/react-icons";
+import {
+  CopyIcon,
+  CheckIcon,
+  StopIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon,
+} from "@radix-ui/react-icons";
 import { Button } from "@/components/ui/button";
 
 interface MessageBubbleProps {
   message: ChatMessage;
+  isStreaming?: boolean; // The message is still being generated
+  onStop?: () => void;
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, isStreaming = false, onStop }: MessageBubbleProps) {
   const [copied, setCopied] = React.useState(false);
 
   const copyToClipboard = () => {
@@ -43,11 +52,32 @@ export function MessageBubble({ message }: MessageBubbleProps) {
         )}
       >
         <div className="flex items-start justify-between gap-2">
-          <div className="markdown-content prose prose-sm dark:prose-invert max-w-none">
-            <ReactMarkdown>{message.content}</ReactMarkdown>
+          <div className="min-w-0">
+            {message.steps && message.steps.length > 0 && <ToolSteps steps={message.steps} />}
+            <div className="markdown-content prose prose-sm dark:prose-invert max-w-none">
+              <ReactMarkdown>{message.content}</ReactMarkdown>
+              {isStreaming && (
+                <span className="inline-block h-4 w-2 animate-pulse bg-muted-foreground align-middle" />
+              )}
+            </div>
+            {message.citations && message.citations.length > 0 && (
+              <Citations citations={message.citations} />
+            )}
           </div>
 
-          {message.role === "assistant" && (
+          {isStreaming && onStop && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0 text-muted-foreground"
+              onClick={onStop}
+              title="Stop generating"
+            >
+              <StopIcon className="h-4 w-4" />
+            </Button>
+          )}
+
+          {message.role === "assistant" && !isStreaming && (
             <Button
               variant="ghost"
               size="icon"
@@ -74,3 +104,91 @@ export function MessageBubble({ message }: MessageBubbleProps) {
     </div>
   );
 }
+
+/**
+ * The code the answer cites, linked at the analyzed commit. Citations of paths or
+ * lines that are not in the analyzed repository are flagged.
+ */
+function Citations({ citations }: { citations: Citation[] }) {
+  return (
+    <div className="mt-3 border-t pt-2 text-xs">
+      <p className="mb-1 font-medium text-muted-foreground">Sources</p>
+      <ul className="space-y-1">
+        {citations.map((citation, index) => {
+          const label = `${citation.path}:${citation.startLine}${
+            citation.endLine > citation.startLine ? `-${citation.endLine}` : ""
+          }`;
+          return (
+            <li key={index} className="flex min-w-0 items-center gap-2">
+              {citation.url ? (
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate font-mono text-primary underline"
+                  title={`${label} at ${citation.ref.substring(0, 7)}`}
+                >
+                  {label}
+                </a>
+              ) : (
+                <code className="truncate">{label}</code>
+              )}
+              {!citation.verified && (
+                <span className="flex shrink-0 items-center gap-1 text-amber-600" title={citation.note}>
+                  <ExclamationTriangleIcon className="h-3 w-3" />
+                  Unverified
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * The repository tools the assistant called while answering, each expandable to show its output
+ */
+function ToolSteps({ steps }: { steps: ToolStep[] }) {
+  return (
+    <div className="mb-3 space-y-1">
+      {steps.map((step, index) => (
+        <ToolStepItem key={index} step={step} />
+      ))}
+    </div>
+  );
+}
+
+function ToolStepItem({ step }: { step: ToolStep }) {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const args = Object.values(step.arguments)
+    .filter((value) => value !== "" && value !== undefined && value !== null)
+    .map(String)
+    .join(", ");
+
+  return (
+    <div className="rounded-md border bg-background text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 px-2 py-1 text-left text-muted-foreground hover:text-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? (
+          <ChevronDownIcon className="h-3 w-3 shrink-0" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3 shrink-0" />
+        )}
+        <code className={cn("truncate", step.isError && "text-red-600")}>
+          {step.name}({args})
+        </code>
+      </button>
+      {isOpen && (
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words border-t px-2 py-1 text-[11px]">
+          {step.output}
+        </pre>
+      )}
+    </div>
+  );
+}
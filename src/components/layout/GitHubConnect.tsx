@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { delay } from "@/lib/utils";
+import type { DeviceFlowStart, GitHubIdentity } from "@/lib/auth/github-auth";
+import { toast } from "sonner";
+
+/**
+ * Connects the user's own GitHub identity, so private repositories can be analyzed
+ */
+export function GitHubConnect() {
+  const [identity, setIdentity] = useState<GitHubIdentity | null>(null);
+  const [hosts, setHosts] = useState<Array<{ host: string; deviceFlowAvailable: boolean }>>([]);
+  const [selectedHost, setSelectedHost] = useState("github.com");
+  const [isOpen, setIsOpen] = useState(false);
+  const [token, setToken] = useState("");
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [deviceFlow, setDeviceFlow] = useState<DeviceFlowStart | null>(null);
+  const activeFlowRef = useRef<string | null>(null); // Device flow currently being polled
+
+  useEffect(() => {
+    fetch("/api/auth/github")
+      .then((response) => response.json())
+      .then((data) => {
+        setIdentity(data.identity);
+        setHosts(data.hosts);
+      })
+      .catch((error) => console.error("Error loading GitHub connection:", error));
+  }, []);
+
+  const handleConnected = (connected: GitHubIdentity) => {
+    setIdentity(connected);
+    setIsOpen(false);
+    setToken("");
+    setDeviceFlow(null);
+    toast.success(`Connected to GitHub as ${connected.login}`);
+  };
+
+  const connectWithToken = async () => {
+    setIsConnecting(true);
+    try {
+      const response = await fetch("/api/auth/github/token", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, host: selectedHost }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to connect GitHub");
+      }
+      handleConnected(data.identity);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const startDeviceFlow = async () => {
+    setIsConnecting(true);
+    try {
+      const response = await fetch("/api/auth/github/device", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ host: selectedHost }),
+      });
+      const flow = await response.json();
+      if (!response.ok) {
+        throw new Error(flow.error || "Failed to start GitHub sign-in");
+      }
+
+      setDeviceFlow(flow);
+      activeFlowRef.current = flow.flowId;
+      let interval = flow.interval;
+
+      // Poll until the user approves the code on GitHub, or the dialog is closed
+      while (activeFlowRef.current === flow.flowId) {
+        await delay(interval * 1000);
+        if (activeFlowRef.current !== flow.flowId) return;
+
+        const pollResponse = await fetch(`/api/auth/github/device/${flow.flowId}`, { method: "POST" });
+        const result = await pollResponse.json();
+        if (!pollResponse.ok) {
+          throw new Error(result.error || "GitHub sign-in failed");
+        }
+
+        if (result.status === "complete") {
+          handleConnected(result.identity);
+          return;
+        }
+        if (result.status === "slow_down") {
+          interval += 5;
+        }
+        if (result.status === "expired" || result.status === "denied") {
+          throw new Error(result.status === "expired" ? "The sign-in code expired" : "GitHub sign-in was denied");
+        }
+      }
+    } catch (error) {
+      setDeviceFlow(null);
+      toast.error((error as Error).message);
+    } finally {
+      activeFlowRef.current = null;
+      setIsConnecting(false);
+    }
+  };
+
+  const disconnect = async () => {
+    try {
+      await fetch("/api/auth/github", { method: "DELETE" });
+      setIdentity(null);
+      toast.success("Disconnected from GitHub");
+    } catch (error) {
+      console.error("Error disconnecting GitHub:", error);
+      toast.error("Failed to disconnect GitHub");
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      // Stop polling an abandoned device flow
+      activeFlowRef.current = null;
+      setDeviceFlow(null);
+    }
+  };
+
+  const deviceFlowAvailable = hosts.find((host) => host.host === selectedHost)?.deviceFlowAvailable || false;
+
+  if (identity) {
+    return (
+      <div className="flex items-center gap-2">
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={identity.avatarUrl} alt={identity.login} />
+          <AvatarFallback>{identity.login.substring(0, 2).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium hidden sm:inline">
+          {identity.login}
+          {identity.host !== "github.com" && <span className="text-muted-foreground">@{identity.host}</span>}
+        </span>
+        <Button variant="outline" size="sm" onClick={disconnect}>
+          Disconnect
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        Connect GitHub
+      </Button>
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Connect GitHub</DialogTitle>
+            <DialogDescription>
+              Analyze private repositories with your own GitHub permissions. Your token is kept
+              encrypted on the server for this session only and is never sent back to the browser.
+            </DialogDescription>
+          </DialogHeader>
+
+          {hosts.length > 1 && (
+            <select
+              value={selectedHost}
+              onChange={(e) => setSelectedHost(e.target.value)}
+              disabled={isConnecting}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm"
+              aria-label="GitHub host"
+            >
+              {hosts.map((host) => (
+                <option key={host.host} value={host.host}>
+                  {host.host}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {deviceFlowAvailable && (
+            <div className="space-y-2">
+              {deviceFlow ? (
+                <div className="space-y-2 text-sm">
+                  <p>
+                    Open{" "}
+                    <a
+                      href={deviceFlow.verificationUri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary underline"
+                    >
+                      {deviceFlow.verificationUri}
+                    </a>{" "}
+                    and enter this code:
+                  </p>
+                  <p className="font-mono text-2xl tracking-widest text-center">{deviceFlow.userCode}</p>
+                  <p className="text-muted-foreground text-center">Waiting for approval...</p>
+                </div>
+              ) : (
+                <Button className="w-full" onClick={startDeviceFlow} disabled={isConnecting}>
+                  Sign in with GitHub
+                </Button>
+              )}
+              <p className="text-center text-xs text-muted-foreground">or</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Input
+              type="password"
+              placeholder="Paste a fine-grained personal access token"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              autoComplete="off"
+            />
+            <p className="text-xs text-muted-foreground">
+              Grant read-only access to Contents and Metadata for the repositories you want to analyze.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={connectWithToken}
+              disabled={!token.trim() || isConnecting}
+            >
+              Connect with token
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
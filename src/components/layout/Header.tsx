@@ -2,6 +2,7 @@ import React from "react";
 import { MoonIcon, SunIcon } from "@radix-ui/react-icons";
 import { Button } from "@/components/ui/button";
 import Image from "next/image";
+import { GitHubConnect } from "./GitHubConnect";
 
 interface HeaderProps {
   toggleTheme: () => void;
@@ -23,6 +24,7 @@ export function Header({ toggleTheme, isDarkTheme }: HeaderProps) {
           <h1 className="text-xl font-bold text-gradient">GitRepos.chat</h1>
         </div>
         <div className="flex items-center gap-4">
+          <GitHubConnect />
           <Button
             variant="ghost"
             size="icon"
@@ -1,12 +1,68 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useAnalysisStore } from "@/lib/store";
-import { isValidGitHubUrl } from "@/lib/utils";
+import {
+  delay,
+  detectRepositoryHostType,
+  extractRepoInfo,
+  isValidRepositoryUrl,
+  REPOSITORY_HOST_NAMES,
+} from "@/lib/utils";
+import type { AnalysisJob, AnalysisJobResult, AnalysisStage } from "@/lib/jobs/analysis-jobs";
+import { describeGitHubError, GitHubErrorKind } from "@/lib/github/github-errors";
 import { toast } from "sonner";
 
+const JOB_STORAGE_KEY = "gitflow_ai_analysis_job"; // Running job, resumed after a page reload
+const POLL_INTERVAL = 1000; // Milliseconds between job status requests
+
+/**
+ * Formats a stage's counts and duration, e.g. "12 files, 48213 bytes · 1.4s"
+ */
+function describeStage(stage: AnalysisStage): string {
+  const counts = Object.entries(stage.counts || {})
+    .filter(([, value]) => value > 0)
+    .map(([name, value]) => `${value} ${name.replace(/([A-Z])/g, " $1").toLowerCase()}`)
+    .join(", ");
+  const duration = stage.durationMs !== undefined ? `${(stage.durationMs / 1000).toFixed(1)}s` : "";
+  return [counts, duration].filter(Boolean).join(" · ");
+}
+
+/**
+ * Formats how long ago a timestamp was, e.g. "3 hours ago"
+ */
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+/**
+ * Picks the message to show for a failed request, explaining repository host failures specifically
+ * @param url The repository URL, to name its hosting service
+ */
+function getErrorMessage(
+  errorData: { error?: string; kind?: GitHubErrorKind; resetAt?: number },
+  fallback: string,
+  url: string
+): string {
+  // Not-found messages from the server already name what is missing
+  if (errorData.kind && errorData.kind !== "not_found") {
+    const repoInfo = extractRepoInfo(url);
+    const service = repoInfo
+      ? REPOSITORY_HOST_NAMES[detectRepositoryHostType(repoInfo.host, new URL(url).pathname)]
+      : undefined;
+    return describeGitHubError(errorData.kind, errorData.resetAt, service);
+  }
+  return errorData.error || fallback;
+}
+
 export function RepositoryAnalyzer() {
   const {
     setRepoUrl,
@@ -17,26 +73,36 @@ export function RepositoryAnalyzer() {
     setDetailedSummary,
     setWorkflowDiagram,
     setIsAnalysisComplete,
+    setSessionId,
+    setCachedAt,
+    setChangeDigest,
     setError,
     resetState,
+    cachedAt,
   } = useAnalysisStore();
 
   const [inputUrl, setInputUrl] = useState("");
+  const [inputRef, setInputRef] = useState("");
   const [progress, setProgress] = useState(0);
   const [analysisStep, setAnalysisStep] = useState("");
+  const [stages, setStages] = useState<AnalysisStage[]>([]);
+  const activeJobRef = useRef<{ id: string } | null>(null); // Job currently being polled
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputUrl(e.target.value);
   };
 
-  const validateAndAnalyzeRepo = async () => {
+  /**
+   * @param force Re-analyze even if a cached analysis of the same commit exists
+   */
+  const validateAndAnalyzeRepo = async (force: boolean = false) => {
     // Reset previous state
     resetState();
     setRepoUrl(inputUrl);
     
     // Basic URL validation
-    if (!isValidGitHubUrl(inputUrl)) {
-      toast.error("Please enter a valid GitHub repository URL");
+    if (!isValidRepositoryUrl(inputUrl)) {
+      toast.error("Please enter a valid GitHub, GitLab or Bitbucket repository URL");
       return;
     }
 
@@ -52,140 +118,237 @@ export function RepositoryAnalyzer() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ url: inputUrl }),
+        body: JSON.stringify({ url: inputUrl, ref: inputRef.trim() || undefined }),
       });
 
       if (!validateResponse.ok) {
         const errorData = await validateResponse.json();
-        throw new Error(errorData.error || "Failed to validate repository");
+        throw new Error(getErrorMessage(errorData, "Failed to validate repository", inputUrl));
       }
 
-      // Start analysis
+      // Start the analysis job
       setIsValidating(false);
       setIsAnalyzing(true);
-      setAnalysisStep("Fetching repository data...");
-      setProgress(30);
-
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-
-        setAnalysisStep((prev) => {
-          const steps = [
-            "Fetching repository data...",
-            "Analyzing code structure...",
-            "Examining dependencies...",
-            "Reviewing documentation...",
-            "Generating AI insights...",
-          ];
-          const currentIndex = steps.indexOf(prev);
-          return steps[Math.min(currentIndex + 1, steps.length - 1)];
-        });
-      }, 2000);
-
-      // Analyze repository
+      setAnalysisStep("Starting analysis...");
+
       const analyzeResponse = await fetch("/api/analyze-repo", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ url: inputUrl }),
+        body: JSON.stringify({ url: inputUrl, ref: inputRef.trim() || undefined, force }),
       });
 
-      clearInterval(progressInterval);
-
       if (!analyzeResponse.ok) {
         const errorData = await analyzeResponse.json();
         throw new Error(errorData.error || "Failed to analyze repository");
       }
 
-      // Process analysis results
-      const analysisData = await analyzeResponse.json();
-      
-      // Log the analysis data to help debug
-      console.log("Analysis data received:", analysisData);
-      
-      // Set the analysis data
-      setAnalysisData({
-        repoData: analysisData.repoData,
-        repoContent: analysisData.repoContent,
-      });
-      
-      // Make sure we have a valid summary
-      const summary = analysisData.aiAnalysis?.summary || 
-        "This repository appears to be a software project. I've analyzed its structure and code patterns.";
-      
-      console.log("Setting AI summary:", summary);
-      setAiSummary(summary);
-      
-      // Set detailed summary if available
-      const detailedSummary = analysisData.aiAnalysis?.detailedSummary || "";
-      if (detailedSummary) {
-        console.log("Setting detailed summary");
-        setDetailedSummary(detailedSummary);
+      const { jobId } = await analyzeResponse.json();
+      localStorage.setItem(
+        JOB_STORAGE_KEY,
+        JSON.stringify({ jobId, url: inputUrl, ref: inputRef.trim() })
+      );
+      await pollJob(jobId);
+    } catch (error) {
+      handleAnalysisError(error);
+    }
+  };
+
+  const handleAnalysisError = (error: unknown) => {
+    console.error("Error analyzing repository:", error);
+    setError((error as Error).message);
+    toast.error((error as Error).message || "Failed to analyze repository");
+    setIsValidating(false);
+    setIsAnalyzing(false);
+    setProgress(0);
+    setStages([]);
+  };
+
+  /**
+   * Polls a job until it finishes, showing the real progress of each stage
+   */
+  const pollJob = async (jobId: string) => {
+    const activeJob = { id: jobId };
+    activeJobRef.current = activeJob;
+
+    try {
+      while (activeJobRef.current === activeJob) {
+        const response = await fetch(`/api/analyze-repo/${jobId}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to get analysis status");
+        }
+
+        const job: AnalysisJob = await response.json();
+        // The user may have started another analysis while this request was in flight
+        if (activeJobRef.current !== activeJob) return;
+
+        setStages(job.stages);
+        const finished = job.stages.filter((stage) => stage.status === "done").length;
+        setProgress(Math.round((finished / job.stages.length) * 100));
+        const running = job.stages.filter((stage) => stage.status === "running");
+        setAnalysisStep(running.map((stage) => `${stage.label}...`).join(" "));
+
+        if (job.status === "completed" && job.result) {
+          applyAnalysisResult(job.result);
+          return;
+        }
+        if (job.status === "failed") {
+          throw new Error(
+            getErrorMessage(
+              { error: `Analysis process failed: ${job.error}`, kind: job.errorKind, resetAt: job.resetAt },
+              "Analysis process failed",
+              job.url
+            )
+          );
+        }
+        if (job.status === "cancelled") {
+          setIsAnalyzing(false);
+          setProgress(0);
+          setStages([]);
+          toast.info("Analysis cancelled");
+          return;
+        }
+
+        await delay(POLL_INTERVAL);
       }
-      
-      // Set workflow diagram if available
-      const workflowDiagram = analysisData.aiAnalysis?.workflowDiagram || "";
-      console.log("Workflow diagram from API:", workflowDiagram);
-      console.log("Workflow diagram type:", typeof workflowDiagram);
-      console.log("Workflow diagram length:", workflowDiagram?.length || 0);
-      
-      if (workflowDiagram) {
-        console.log("Setting workflow diagram to store");
-        setWorkflowDiagram(workflowDiagram);
-      } else {
-        console.log("No workflow diagram found in API response");
+    } finally {
+      if (activeJobRef.current === activeJob) {
+        activeJobRef.current = null;
+        localStorage.removeItem(JOB_STORAGE_KEY);
       }
-      
-      // Complete analysis
-      setProgress(100);
-      setAnalysisStep("Analysis complete!");
-      setIsAnalyzing(false);
-      
-      // Set analysis complete after a small delay to ensure state updates
-      setTimeout(() => {
-        setIsAnalysisComplete(true);
-        console.log("Analysis complete state set to true");
-      }, 300);
-      
-      toast.success("Repository analysis complete!");
+    }
+  };
+
+  const cancelAnalysis = async () => {
+    const jobId = activeJobRef.current?.id;
+    if (!jobId) return;
+
+    try {
+      await fetch(`/api/analyze-repo/${jobId}`, { method: "DELETE" });
     } catch (error) {
-      console.error("Error analyzing repository:", error);
-      setError((error as Error).message);
-      toast.error((error as Error).message || "Failed to analyze repository");
-      setIsValidating(false);
-      setIsAnalyzing(false);
-      setProgress(0);
+      console.error("Error cancelling analysis:", error);
+      toast.error("Failed to cancel the analysis");
     }
   };
 
+  // Resume a job that was running when the page was reloaded
+  useEffect(() => {
+    const stored = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!stored) return;
+
+    try {
+      const { jobId, url, ref } = JSON.parse(stored);
+      console.log(`Resuming analysis job ${jobId}`);
+      setInputUrl(url);
+      setInputRef(ref || "");
+      setRepoUrl(url);
+      setIsAnalyzing(true);
+      setAnalysisStep("Resuming analysis...");
+      pollJob(jobId).catch(handleAnalysisError);
+    } catch (error) {
+      console.warn("Ignoring invalid stored analysis job:", error);
+      localStorage.removeItem(JOB_STORAGE_KEY);
+    }
+
+    return () => {
+      activeJobRef.current = null;
+    };
+    // Only resume once, on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const applyAnalysisResult = (analysisData: AnalysisJobResult) => {
+    // Log the analysis data to help debug
+    console.log("Analysis data received:", analysisData);
+    
+    // Chat requests refer to the analysis context by its session
+    setSessionId(analysisData.sessionId);
+    setCachedAt(analysisData.cachedAt ?? null);
+    setChangeDigest(analysisData.changeDigest ?? null);
+    
+    // Set the analysis data
+    setAnalysisData({
+      repoData: analysisData.repoData,
+      repoContent: analysisData.repoContent,
+    });
+    
+    // Make sure we have a valid summary
+    const summary = analysisData.aiAnalysis?.summary || 
+      "This repository appears to be a software project. I've analyzed its structure and code patterns.";
+    
+    console.log("Setting AI summary:", summary);
+    setAiSummary(summary);
+    
+    // Set detailed summary if available
+    const detailedSummary = analysisData.aiAnalysis?.detailedSummary || "";
+    if (detailedSummary) {
+      console.log("Setting detailed summary");
+      setDetailedSummary(detailedSummary);
+    }
+    
+    // Set workflow diagram if available
+    const workflowDiagram = analysisData.aiAnalysis?.workflowDiagram || "";
+    console.log("Workflow diagram from API:", workflowDiagram);
+    console.log("Workflow diagram type:", typeof workflowDiagram);
+    console.log("Workflow diagram length:", workflowDiagram?.length || 0);
+    
+    if (workflowDiagram) {
+      console.log("Setting workflow diagram to store");
+      setWorkflowDiagram(workflowDiagram);
+    } else {
+      console.log("No workflow diagram found in API response");
+    }
+    
+    // Complete analysis
+    setProgress(100);
+    setAnalysisStep("Analysis complete!");
+    setIsAnalyzing(false);
+    
+    // Set analysis complete after a small delay to ensure state updates
+    setTimeout(() => {
+      setIsAnalysisComplete(true);
+      console.log("Analysis complete state set to true");
+    }, 300);
+    
+    toast.success(
+      analysisData.cachedAt
+        ? `Loaded cached analysis from ${formatAge(analysisData.cachedAt)}`
+        : analysisData.changeDigest
+          ? `Updated the previous analysis for ${analysisData.changeDigest.commits.length} new commits`
+          : "Repository analysis complete!"
+    );
+  };
+
   return (
     <Card className="p-6 border-primary/20">
       <div className="space-y-6">
         <div className="text-center space-y-2">
-          <h2 className="text-2xl font-bold text-gradient">GitHub Repository Analyzer</h2>
+          <h2 className="text-2xl font-bold text-gradient">Repository Analyzer</h2>
           <p className="text-muted-foreground">
-            Enter a GitHub repository URL to analyze its structure and get AI-powered insights
+            Enter a GitHub, GitLab or Bitbucket repository URL to analyze its structure and get
+            AI-powered insights. Connect GitHub to analyze private GitHub repositories.
           </p>
         </div>
         
         <div className="flex gap-2">
           <Input
-            placeholder="Paste your public GitHub repository URL here..."
+            placeholder="Paste a GitHub, GitLab or Bitbucket repository URL here..."
             value={inputUrl}
             onChange={handleInputChange}
             disabled={useAnalysisStore.getState().isAnalyzing}
             className="border-primary/50 focus:border-primary"
           />
+          <Input
+            placeholder="Branch, tag or SHA (optional)"
+            value={inputRef}
+            onChange={(e) => setInputRef(e.target.value)}
+            disabled={useAnalysisStore.getState().isAnalyzing}
+            className="max-w-[220px] border-primary/50 focus:border-primary"
+          />
           <Button 
-            onClick={validateAndAnalyzeRepo}
+            onClick={() => validateAndAnalyzeRepo()}
             disabled={!inputUrl || useAnalysisStore.getState().isAnalyzing}
             className="bg-gradient-primary hover:opacity-90 transition-opacity"
           >
@@ -193,6 +356,15 @@ export function RepositoryAnalyzer() {
           </Button>
         </div>
         
+        {cachedAt !== null && !useAnalysisStore.getState().isAnalyzing && (
+          <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+            <span>Showing a cached analysis from {formatAge(cachedAt)}.</span>
+            <Button variant="outline" size="sm" onClick={() => validateAndAnalyzeRepo(true)}>
+              Force refresh
+            </Button>
+          </div>
+        )}
+        
         {(useAnalysisStore.getState().isValidating || useAnalysisStore.getState().isAnalyzing) && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
@@ -200,6 +372,26 @@ export function RepositoryAnalyzer() {
               <span>{progress}%</span>
             </div>
             <Progress value={progress} className="bg-secondary h-2" />
+            {stages.length > 0 && (
+              <ul className="space-y-1 pt-2 text-xs text-muted-foreground">
+                {stages.map((stage) => (
+                  <li key={stage.name} className="flex justify-between gap-4">
+                    <span className={stage.status === "running" ? "text-foreground font-medium" : ""}>
+                      {stage.status === "done" ? "✓" : stage.status === "running" ? "…" : stage.status === "pending" ? "○" : "✕"}{" "}
+                      {stage.label}
+                    </span>
+                    <span>{describeStage(stage)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {useAnalysisStore.getState().isAnalyzing && (
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={cancelAnalysis}>
+                  Cancel
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,12 +1,13 @@
 "use client";
 
-import React from "react";
+import React, { useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { MermaidDiagram } from "@/components/ui/mermaid-diagram";
 import { useAnalysisStore } from "@/lib/store";
+import { generateWorkspaceDiagram } from "@/lib/github/workspace-detector";
 
 export function RepositoryDetails() {
-  const { isAnalysisComplete, detailedSummary, workflowDiagram, analysisData } =
+  const { isAnalysisComplete, detailedSummary, workflowDiagram, analysisData, changeDigest } =
     useAnalysisStore();
 
   // Debug information
@@ -16,12 +17,82 @@ export function RepositoryDetails() {
   console.log("workflowDiagram length:", workflowDiagram?.length || 0);
   console.log("analysisData:", analysisData);
 
+  const workspace = analysisData?.repoContent.workspace;
+  const packageDiagram = useMemo(
+    () => (workspace?.packages.length ? generateWorkspaceDiagram(workspace) : ""),
+    [workspace]
+  );
+
   if (!isAnalysisComplete) {
     return null;
   }
 
+  const repoData = analysisData?.repoData;
+
   return (
     <div className="flex flex-col h-full space-y-6">
+      {repoData?.ref && (
+        <p className="text-sm text-muted-foreground px-1 pt-4">
+          Analyzed <span className="font-medium">{repoData.fullName}</span>
+          {repoData.path && (
+            <span className="font-mono">/{repoData.path}</span>
+          )}{" "}
+          at{" "}
+          <span className="font-mono">{repoData.ref}</span>
+          {repoData.sha && (
+            <span className="font-mono"> ({repoData.sha.substring(0, 7)})</span>
+          )}
+        </p>
+      )}
+
+      {changeDigest && (
+        <Card className="p-6 border-primary/20">
+          <h2 className="text-xl font-bold mb-4 text-gradient">
+            What Changed Since the Last Analysis
+          </h2>
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              <span className="font-mono">{changeDigest.baseSha.substring(0, 7)}</span>
+              {" → "}
+              <span className="font-mono">{changeDigest.headSha.substring(0, 7)}</span>
+              {": "}
+              {changeDigest.commits.length} commits, {changeDigest.files.added.length} added,{" "}
+              {changeDigest.files.modified.length} modified, {changeDigest.files.removed.length} removed
+              {changeDigest.files.renamed.length > 0 && `, ${changeDigest.files.renamed.length} renamed`} files
+              {changeDigest.filesTruncated && " (file list truncated)"}
+            </p>
+            {changeDigest.commits.length > 0 && (
+              <ul className="list-disc pl-5 space-y-1">
+                {changeDigest.commits.slice(-10).reverse().map((commit) => (
+                  <li key={commit.sha}>
+                    <span className="font-mono">{commit.sha.substring(0, 7)}</span>{" "}
+                    {commit.message.split("\n")[0]}{" "}
+                    <span className="text-muted-foreground">({commit.author})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {(changeDigest.dependencies.added.length > 0 ||
+              changeDigest.dependencies.removed.length > 0 ||
+              changeDigest.dependencies.updated.length > 0) && (
+              <p>
+                Dependencies: {changeDigest.dependencies.added.length} added,{" "}
+                {changeDigest.dependencies.removed.length} removed,{" "}
+                {changeDigest.dependencies.updated.length} updated
+              </p>
+            )}
+            <p>
+              Updated sections:{" "}
+              {changeDigest.updatedSections.length > 0
+                ? changeDigest.updatedSections
+                    .map((section) => section.replace(/([A-Z])/g, " $1").toLowerCase())
+                    .join(", ")
+                : "none"}
+            </p>
+          </div>
+        </Card>
+      )}
+
       {detailedSummary && (
         <Card className="p-6 border-primary/20">
           <h2 className="text-xl font-bold mb-4 text-gradient">
@@ -43,6 +114,15 @@ export function RepositoryDetails() {
           />
         </div>
       )}
+
+      {packageDiagram && (
+        <div className="flex-1 mt-2">
+          <MermaidDiagram
+            diagramDefinition={packageDiagram}
+            title={`Workspace Package Graph (${workspace?.tools.join(", ")})`}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ChatAgent, AgentEvent } from "./chat-agent";
+import { RepositoryTools } from "./repository-tools";
+import { LLMProvider, ToolConversationMessage, ToolStreamEvent } from "../llm";
+
+/**
+ * A provider that plays back one scripted response per round
+ */
+function scriptedProvider(rounds: ToolStreamEvent[][]) {
+  const conversations: ToolConversationMessage[][] = [];
+  const provider = {
+    name: "openai",
+    model: "gpt-4o",
+    async *streamWithTools(messages: ToolConversationMessage[]) {
+      conversations.push([...messages]);
+      yield* rounds[conversations.length - 1] || [];
+    },
+  } as unknown as LLMProvider;
+  return { provider, conversations };
+}
+
+const tools = {
+  repositoryName: "octo/repo",
+  definitions: [],
+  execute: async () => ({ output: "1: export function login() {}", isError: false }),
+} as unknown as RepositoryTools;
+
+async function collect(events: AsyncIterable<AgentEvent>): Promise<AgentEvent[]> {
+  const result: AgentEvent[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+describe("ChatAgent", () => {
+  it("streams the answer as it is generated", async () => {
+    const { provider } = scriptedProvider([
+      [
+        { type: "token", content: "The app " },
+        { type: "token", content: "signs users " },
+        { type: "token", content: "in." },
+      ],
+    ]);
+
+    const events = await collect(new ChatAgent(provider, tools).run([{ role: "user", content: "How do logins work?" }]));
+    const tokens = events.filter((event) => event.type === "token");
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.map((event) => (event.type === "token" ? event.content : "")).join("")).toBe(
+      "The app signs users in."
+    );
+  });
+
+  it("streams the answer after running the tools the model called", async () => {
+    const { provider, conversations } = scriptedProvider([
+      [{ type: "toolCalls", toolCalls: [{ id: "a", name: "read_file", arguments: { path: "src/auth.ts" } }] }],
+      [
+        { type: "token", content: "login " },
+        { type: "token", content: "is empty." },
+      ],
+    ]);
+
+    const events = await collect(new ChatAgent(provider, tools).run([{ role: "user", content: "What does login do?" }]));
+
+    expect(events.map((event) => event.type)).toEqual(["step", "token", "token"]);
+    expect(conversations[1].at(-1)).toMatchObject({ role: "tool", toolCallId: "a", name: "read_file" });
+  });
+});
@@ -0,0 +1,117 @@
+import { ChatMessage, LLMProvider, ToolCall, ToolConversationMessage, ToolStep } from "../llm";
+import { estimateTokens, getModelLimits } from "../llm/token-budget";
+import { CITATION_INSTRUCTION } from "./citations";
+import { RepositoryTools } from "./repository-tools";
+
+/**
+ * Progress of an agent answer: a tool call that finished, or answer text
+ */
+export type AgentEvent = { type: "step"; step: ToolStep } | { type: "token"; content: string };
+
+/**
+ * Answers chat messages in a tool-calling loop: the model may look around the
+ * repository with the tools for a bounded number of steps, then has to answer
+ */
+export class ChatAgent {
+  private readonly MAX_STEPS = 8; // Rounds of tool calls before the model must answer
+  private readonly MAX_CALLS_PER_STEP = 5; // Tool calls run per round; the rest are skipped
+  private readonly STEP_OUTPUT_LENGTH = 2000; // Characters of tool output kept for display
+  private readonly DROPPED_RESULT = "(Result removed to fit the context window. Call the tool again if you still need it.)";
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly tools: RepositoryTools
+  ) {}
+
+  /**
+   * Runs the loop, yielding each tool call as it finishes and the answer as it is generated
+   * @param messages The conversation, ending with the user's question
+   */
+  async *run(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<AgentEvent> {
+    const conversation: ToolConversationMessage[] = [...messages];
+    const system = `You are answering questions about the repository ${this.tools.repositoryName}.
+Use the tools to read the actual code instead of guessing: list directories, read files, search code,
+and inspect commits and file history. Paths are relative to the repository root.
+Stop calling tools once you can answer.
+${CITATION_INSTRUCTION}`;
+
+    let wroteText = false;
+    for (let step = 0; ; step++) {
+      // On the last step the model has to answer with what it has found
+      const mustAnswer = step >= this.MAX_STEPS;
+      this.fitToolResults(conversation, system);
+
+      // Text is streamed as it is generated, whether it turns out to be the answer or comes before tool calls
+      let content = "";
+      let toolCalls: ToolCall[] = [];
+      for await (const event of this.provider.streamWithTools(conversation, this.tools.definitions, {
+        system,
+        signal,
+        toolChoice: mustAnswer ? "none" : "auto",
+      })) {
+        if (event.type === "toolCalls") {
+          toolCalls = event.toolCalls;
+          continue;
+        }
+        // Keep the text of each round in its own paragraph
+        yield { type: "token", content: content === "" && wroteText ? `\n\n${event.content}` : event.content };
+        content += event.content;
+        wroteText = true;
+      }
+
+      if (mustAnswer || toolCalls.length === 0) {
+        console.log(`Agent answered after ${step} tool steps`);
+        return;
+      }
+
+      conversation.push({ role: "assistant", content, toolCalls });
+
+      for (const [index, call] of toolCalls.entries()) {
+        if (signal?.aborted) {
+          return;
+        }
+
+        const { output, isError } =
+          index < this.MAX_CALLS_PER_STEP
+            ? await this.tools.execute(call)
+            : { output: "Skipped: too many tool calls at once. Call it again if you still need it.", isError: true };
+        conversation.push({ role: "tool", toolCallId: call.id, name: call.name, content: output });
+
+        yield {
+          type: "step",
+          step: {
+            name: call.name,
+            arguments: call.arguments,
+            output:
+              output.length > this.STEP_OUTPUT_LENGTH ? `${output.substring(0, this.STEP_OUTPUT_LENGTH)}\n...` : output,
+            isError,
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Replaces the oldest tool results with a note while the conversation would not
+   * leave room for the answer in the model's context window
+   */
+  private fitToolResults(conversation: ToolConversationMessage[], system: string): void {
+    const limits = getModelLimits(this.provider.model);
+    const available = limits.contextWindow - limits.maxOutputTokens - estimateTokens(system);
+    let tokens = conversation.reduce((total, message) => total + estimateTokens(message.content), 0);
+
+    const dropped: string[] = [];
+    for (const [index, message] of conversation.entries()) {
+      if (tokens <= available) break;
+      if (message.role !== "tool" || message.content === this.DROPPED_RESULT) continue;
+
+      tokens -= estimateTokens(message.content) - estimateTokens(this.DROPPED_RESULT);
+      conversation[index] = { ...message, content: this.DROPPED_RESULT };
+      dropped.push(message.name);
+    }
+
+    if (dropped.length > 0) {
+      console.log(`Dropped ${dropped.length} earlier tool results to fit the context window: ${dropped.join(", ")}`);
+    }
+  }
+}
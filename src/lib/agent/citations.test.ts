@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { TreeNode } from "../github/github-service";
+import { MCPServer } from "../gemini/mcp-server";
+import { extractCitations } from "./citations";
+
+const SHA = "4d2c1b0a99887766554433221100ffeeddccbbaa";
+
+function createServer(): MCPServer {
+  const file = (name: string, path: string): TreeNode => ({ name, path, type: "file", size: 100 });
+  return new MCPServer({
+    repositoryName: "acme/app",
+    repositoryUrl: "https://github.com/acme/app",
+    repositoryDescription: "",
+    analysisComplete: true,
+    analysisData: {
+      repoData: {
+        name: "app",
+        fullName: "acme/app",
+        description: "",
+        url: "https://github.com/acme/app",
+        homepage: "",
+        language: "TypeScript",
+        stargazersCount: 0,
+        forksCount: 0,
+        openIssuesCount: 0,
+        defaultBranch: "main",
+        ref: "main",
+        sha: SHA,
+        path: "",
+        createdAt: "",
+        updatedAt: "",
+        pushedAt: "",
+        size: 0,
+        topics: [],
+        visibility: "public",
+        owner: { login: "acme", avatarUrl: "", url: "https://github.com/acme" },
+      },
+      repoContent: {
+        readme: "",
+        dependencies: {},
+        dependencyDetails: [],
+        dependencyGraph: { lockfiles: [], packages: [] },
+        folderStructure: [
+          {
+            name: "src",
+            path: "src",
+            type: "dir",
+            size: 0,
+            children: [file("auth.ts", "src/auth.ts"), file("server.ts", "src/server.ts")],
+          },
+        ],
+        folderStructureTruncated: false,
+        // Only auth.ts was fetched during analysis, so only its line count is known
+        files: [{ path: "src/auth.ts", size: 100, content: "line\n".repeat(40), reasons: [] }],
+        commits: [],
+        languages: {},
+      },
+      aiAnalysis: {
+        summary: "",
+        detailedSummary: "",
+        projectPurpose: "",
+        technologyStack: [],
+        codeQuality: "",
+        architecturePatterns: "",
+        potentialImprovements: "",
+        securityConsiderations: "",
+        workflowDiagram: "",
+      },
+    },
+  });
+}
+
+describe("extractCitations", () => {
+  it("cites the code the model was shown, ordered and narrowed by its markers", () => {
+    const answer = "Sessions are checked on each request [src/server.ts:12-14], after login [src/auth.ts:5-9].";
+    const citations = extractCitations(answer, createServer(), [
+      { path: "src/auth.ts", startLine: 1, endLine: 20 }, // Retrieved chunk
+      { path: "src/auth.ts", startLine: 15, endLine: 30 }, // Overlapping read_file range
+      { path: "src/server.ts", startLine: 10, endLine: 40 },
+      { path: "src/auth.ts", startLine: 38, endLine: 45 }, // Past the end of the file
+    ]);
+
+    expect(citations.map(({ path, startLine, endLine, verified, note }) => ({ path, startLine, endLine, verified, note }))).toEqual([
+      { path: "src/server.ts", startLine: 12, endLine: 14, verified: true, note: undefined },
+      { path: "src/auth.ts", startLine: 5, endLine: 9, verified: true, note: undefined },
+      { path: "src/auth.ts", startLine: 38, endLine: 45, verified: false, note: "The file has only 40 lines" },
+    ]);
+    expect(citations[0].url).toBe(`https://github.com/acme/app/blob/${SHA}/src/server.ts#L12-L14`);
+  });
+
+  it("flags markers pointing at code the model was not shown", () => {
+    const citations = extractCitations("Tokens expire after an hour [src/auth.ts:30-32].", createServer(), [
+      { path: "src/server.ts", startLine: 1, endLine: 8 },
+    ]);
+
+    expect(citations.map(({ path, startLine, endLine, verified, note }) => ({ path, startLine, endLine, verified, note }))).toEqual([
+      {
+        path: "src/auth.ts",
+        startLine: 30,
+        endLine: 32,
+        verified: false,
+        note: "Not among the code retrieved or read for this answer",
+      },
+      { path: "src/server.ts", startLine: 1, endLine: 8, verified: true, note: undefined },
+    ]);
+  });
+});
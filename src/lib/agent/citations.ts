@@ -0,0 +1,167 @@
+import { flattenTree } from "../github/tree-utils";
+import type { MCPServer } from "../gemini/mcp-server";
+import { Citation } from "../llm";
+import { getBlobUrl, getRepositoryHost } from "../repository/repository-hosts";
+import { extractRepoInfo } from "../utils";
+
+/**
+ * Lines of a file the model was shown while answering: retrieved code or a range it read with a tool
+ */
+export interface CodeSource {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * How the model should cite code, so extractCitations can tell which of the code it was shown it used
+ */
+export const CITATION_INSTRUCTION = `Cite the code each statement is based on right after it as [path:start-end],
+e.g. [src/lib/auth.ts:12-30], with the repository-relative path and the line numbers of the retrieved
+code or the files you read. Only cite lines you have actually seen.`;
+
+// [path:12-30], [path:12] or [`path`:L12-L30]
+const CITATION_PATTERN = /\[`?([^[\]\s:`]+)`?:L?(\d+)(?:\s*[-–]\s*L?(\d+))?\]/g;
+const MAX_CITATIONS = 20; // Citations kept per answer
+
+/**
+ * Builds an answer's citations from the code the model was shown for it (retrieved chunks and
+ * read_file ranges) and checks them against the analyzed repository: the path must exist in the
+ * fetched tree and, for files fetched during analysis, the lines must be within the file.
+ * Inline [path:start-end] markers are only hints: they narrow the code they point into and put
+ * it first. Markers pointing at code the model was not shown are kept as unverified, so they
+ * can be flagged rather than silently dropped.
+ * @param sources The code the model was shown, in the order it was shown
+ */
+export function extractCitations(content: string, mcpServer: MCPServer, sources: CodeSource[] = []): Citation[] {
+  const analysis = mcpServer.getContext()?.analysisData;
+  if (!analysis) {
+    return [];
+  }
+
+  const { repoData, repoContent } = analysis;
+  const ref = repoData.sha || repoData.ref || "HEAD";
+  const paths = new Set(
+    flattenTree(repoContent.folderStructure)
+      .filter((node) => node.type === "file")
+      .map((node) => node.path)
+  );
+  const lineCounts = new Map(
+    (repoContent.files || []).map((file) => [file.path, file.content.replace(/\n$/, "").split("\n").length])
+  );
+
+  // Links need the host, which may no longer be configured
+  const urlHost = extractRepoInfo(repoData.url)?.host || "";
+  const host = getRepositoryHost(urlHost);
+  const repoInfo = host && extractRepoInfo(repoData.url, host.type);
+
+  const shown = mergeSources(sources);
+  const markers = parseMarkers(content, paths, repoData.path);
+
+  // Code pointed at by a marker comes first, narrowed to the marked lines
+  const ranges: Array<CodeSource & { seen: boolean }> = [];
+  for (const marker of markers) {
+    const source = shown.find((range) => overlaps(range, marker));
+    ranges.push(
+      source
+        ? {
+            path: marker.path,
+            startLine: Math.max(marker.startLine, source.startLine),
+            endLine: Math.min(marker.endLine, source.endLine),
+            seen: true,
+          }
+        : { ...marker, seen: false }
+    );
+  }
+  ranges.push(
+    ...shown
+      .filter((source) => !markers.some((marker) => overlaps(source, marker)))
+      .map((source) => ({ ...source, seen: true }))
+  );
+
+  const citations = new Map<string, Citation>();
+  for (const { path, startLine, endLine, seen } of ranges) {
+    if (citations.size >= MAX_CITATIONS) break;
+
+    const key = `${path}:${startLine}-${endLine}`;
+    if (citations.has(key)) continue;
+
+    const exists = paths.has(path) || lineCounts.has(path);
+    const lineCount = lineCounts.get(path);
+    let note: string | undefined;
+    if (!exists) {
+      note = repoContent.folderStructureTruncated
+        ? "Not in the fetched part of the file tree, which was truncated"
+        : `Not found in the repository at ${ref.substring(0, 7)}`;
+    } else if (lineCount !== undefined && endLine > lineCount) {
+      note = `The file has only ${lineCount} lines`;
+    } else if (!seen) {
+      note = "Not among the code retrieved or read for this answer";
+    }
+
+    const url = exists && host && repoInfo ? getBlobUrl(host, repoInfo.owner, repoInfo.repo, ref, path, startLine, endLine) : null;
+    citations.set(key, {
+      path,
+      startLine,
+      endLine,
+      ref,
+      ...(url ? { url } : {}),
+      verified: !note,
+      ...(note ? { note } : {}),
+    });
+  }
+
+  const result = Array.from(citations.values());
+  const unverified = result.filter((citation) => !citation.verified);
+  if (unverified.length > 0) {
+    console.warn(
+      `Answer cites ${unverified.length} unverifiable locations: ${unverified
+        .map((citation) => `${citation.path}:${citation.startLine}-${citation.endLine}`)
+        .join(", ")}`
+    );
+  }
+  return result;
+}
+
+function overlaps(a: CodeSource, b: CodeSource): boolean {
+  return a.path === b.path && a.startLine <= b.endLine && a.endLine >= b.startLine;
+}
+
+/**
+ * Merges overlapping and adjacent ranges of the same file, keeping files in the order they were first shown
+ */
+function mergeSources(sources: CodeSource[]): CodeSource[] {
+  const byPath = new Map<string, CodeSource[]>();
+  for (const source of sources) {
+    if (source.endLine < source.startLine) continue;
+    byPath.set(source.path, [...(byPath.get(source.path) || []), source]);
+  }
+
+  return Array.from(byPath.values()).flatMap((ranges) =>
+    [...ranges]
+      .sort((a, b) => a.startLine - b.startLine)
+      .reduce<CodeSource[]>((merged, range) => {
+        const last = merged[merged.length - 1];
+        if (last && range.startLine <= last.endLine + 1) {
+          last.endLine = Math.max(last.endLine, range.endLine);
+        } else {
+          merged.push({ ...range });
+        }
+        return merged;
+      }, [])
+  );
+}
+
+/**
+ * Finds the [path:start-end] markers in an answer, in order
+ * @param scope The analyzed subdirectory, which models sometimes leave out of paths
+ */
+function parseMarkers(content: string, paths: Set<string>, scope?: string): CodeSource[] {
+  return Array.from(content.matchAll(CITATION_PATTERN)).map((match) => {
+    const cited = match[1].replace(/^\.?\/+/, "");
+    const path = !paths.has(cited) && scope && paths.has(`${scope}/${cited}`) ? `${scope}/${cited}` : cited;
+    const first = Number(match[2]);
+    const last = match[3] ? Number(match[3]) : first;
+    return { path, startLine: Math.max(1, Math.min(first, last)), endLine: Math.max(first, last) };
+  });
+}
@@ -0,0 +1,316 @@
+import { flattenTree } from "../github/tree-utils";
+import { getGitHubToken } from "../auth/github-auth";
+import { MCPServer } from "../gemini/mcp-server";
+import type { CodeSource } from "./citations";
+import { ToolCall, ToolDefinition } from "../llm";
+import { createRepositoryProvider, getRepositoryHost } from "../repository/repository-hosts";
+import { RepositoryProvider } from "../repository/repository-provider";
+import { tokenize } from "../retrieval/bm25-index";
+import { formatRetrievedChunks, RepositoryIndex } from "../retrieval/repository-index";
+import { extractRepoInfo } from "../utils";
+
+export interface ToolResult {
+  output: string;
+  isError: boolean;
+}
+
+const PATH_DESCRIPTION = 'Path relative to the repository root, e.g. "src/lib"; "" for the root';
+
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: "list_directory",
+    description: "Lists the files and subdirectories of a directory in the repository.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string", description: PATH_DESCRIPTION } },
+      required: ["path"],
+    },
+  },
+  {
+    name: "read_file",
+    description:
+      "Reads a file from the repository with line numbers. Long files are returned in parts; pass a range to read further.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: PATH_DESCRIPTION },
+        range: { type: "string", description: 'Lines to read, e.g. "120-180"; defaults to the start of the file' },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "search_code",
+    description:
+      "Searches the repository's file paths, and the code of the key files read during analysis, for identifiers, keywords or file names.",
+    parameters: {
+      type: "object",
+      properties: { query: { type: "string", description: "Identifiers, keywords or a file name" } },
+      required: ["query"],
+    },
+  },
+  {
+    name: "get_commit",
+    description: "Shows a commit's message, author, date and the diff of each file it changed.",
+    parameters: {
+      type: "object",
+      properties: { sha: { type: "string", description: "Commit SHA, full or abbreviated" } },
+      required: ["sha"],
+    },
+  },
+  {
+    name: "get_file_history",
+    description: "Lists the most recent commits that changed a file or directory.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string", description: PATH_DESCRIPTION } },
+      required: ["path"],
+    },
+  },
+];
+
+/**
+ * Tools the chat model can call to look around the analyzed repository.
+ * Everything is read at the analyzed commit, so answers match the analysis.
+ */
+export class RepositoryTools {
+  readonly definitions = TOOL_DEFINITIONS;
+  readonly sources: CodeSource[] = []; // Lines read and code found by the tools, for the answer's citations
+  private readonly MAX_OUTPUT_LENGTH = 12000; // Characters of tool output sent to the model
+  private readonly MAX_READ_LINES = 300; // Lines returned by one read_file call
+  private readonly MAX_PATH_MATCHES = 20; // File paths returned by search_code
+  private readonly MAX_SEARCH_RESULTS = 6; // Code excerpts returned by search_code
+  private readonly HISTORY_LENGTH = 15; // Commits listed by get_file_history
+  private readonly MAX_PATCH_LENGTH = 3000; // Characters of each file's diff shown by get_commit
+
+  /**
+   * @param ref Commit the tools read, normally the analyzed SHA
+   * @param paths Paths of all files in the repository, for search_code
+   * @param index Index of the files fetched during analysis, for search_code
+   */
+  constructor(
+    readonly repositoryName: string,
+    private readonly provider: RepositoryProvider,
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly ref: string,
+    private readonly paths: string[] = [],
+    private readonly index: RepositoryIndex | null = null
+  ) {}
+
+  /**
+   * Reads a file's text at the analyzed commit, or null if it does not exist
+   */
+  getFileText(path: string): Promise<string | null> {
+    return this.provider.getFileText(this.owner, this.repo, path, this.ref);
+  }
+
+  /**
+   * Runs a tool call; failures are returned as error output for the model to read
+   */
+  async execute(call: ToolCall): Promise<ToolResult> {
+    console.log(`Running tool ${call.name} with ${JSON.stringify(call.arguments)}`);
+
+    try {
+      const output = await this.run(call.name, call.arguments || {});
+      return {
+        output:
+          output.length > this.MAX_OUTPUT_LENGTH
+            ? `${output.substring(0, this.MAX_OUTPUT_LENGTH)}\n... (output truncated)`
+            : output,
+        isError: false,
+      };
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return { output: `Error: ${(error as Error).message}`, isError: true };
+    }
+  }
+
+  private run(name: string, args: Record<string, unknown>): Promise<string> {
+    switch (name) {
+      case "list_directory":
+        return this.listDirectory(getPath(args));
+      case "read_file":
+        return this.readFile(getPath(args), getString(args, "range", false));
+      case "search_code":
+        return this.searchCode(getString(args, "query"));
+      case "get_commit":
+        return this.getCommit(getString(args, "sha"));
+      case "get_file_history":
+        return this.getFileHistory(getPath(args));
+      default:
+        throw new Error(`Unknown tool "${name}"`);
+    }
+  }
+
+  private async listDirectory(path: string): Promise<string> {
+    const listing = await this.provider.getDirectoryListing(this.owner, this.repo, path, this.ref);
+    if (listing.length === 0) {
+      return `Directory "${path || "/"}" is empty or does not exist.`;
+    }
+
+    return listing
+      .sort((a, b) => (a.type === "dir" ? 0 : 1) - (b.type === "dir" ? 0 : 1) || a.path.localeCompare(b.path))
+      .map((node) =>
+        node.type === "dir"
+          ? `${node.path}/`
+          : node.type === "submodule"
+            ? `${node.path} (submodule)`
+            : `${node.path} (${node.size} bytes)`
+      )
+      .join("\n");
+  }
+
+  private async readFile(path: string, range: string): Promise<string> {
+    const content = await this.getFileText(path);
+    if (content === null) {
+      throw new Error(`File "${path}" not found`);
+    }
+
+    const lines = content.replace(/\n$/, "").split("\n");
+    const match = range.match(/^\s*(\d+)\s*(?:-\s*(\d+)?)?\s*$/);
+    const start = Math.max(1, Number(match?.[1]) || 1);
+    const end = Math.min(
+      lines.length,
+      start + this.MAX_READ_LINES - 1,
+      match?.[2] ? Number(match[2]) : Infinity
+    );
+    if (start > lines.length) {
+      return `${path} has only ${lines.length} lines.`;
+    }
+
+    this.sources.push({ path, startLine: start, endLine: end });
+    const numbered = lines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`);
+    const more = end < lines.length ? `\n... ${lines.length - end} more lines; read them with range "${end + 1}-"` : "";
+    return `${path} (lines ${start}-${end} of ${lines.length}):\n${numbered.join("\n")}${more}`;
+  }
+
+  private async searchCode(query: string): Promise<string> {
+    // File paths containing the most query terms
+    const terms = tokenize(query);
+    const scored = this.paths
+      .map((path) => ({ path, score: terms.filter((term) => path.toLowerCase().includes(term)).length }))
+      .filter((match) => match.score > 0);
+    const best = Math.max(0, ...scored.map((match) => match.score));
+    const pathMatches = scored
+      .filter((match) => match.score === best)
+      .slice(0, this.MAX_PATH_MATCHES)
+      .map((match) => match.path);
+
+    const chunks = this.index ? await this.index.search(query, this.MAX_SEARCH_RESULTS) : [];
+    this.sources.push(...chunks.map(({ path, startLine, endLine }) => ({ path, startLine, endLine })));
+
+    if (pathMatches.length === 0 && chunks.length === 0) {
+      return `No files or code matched "${query}". Try other terms, or list directories to look around.`;
+    }
+
+    return [
+      pathMatches.length > 0 ? `Matching files:\n${pathMatches.join("\n")}` : "",
+      chunks.length > 0 ? `Matching code:\n\n${formatRetrievedChunks(chunks)}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  private async getCommit(sha: string): Promise<string> {
+    const commit = await this.provider.getCommit(this.owner, this.repo, sha);
+
+    const files = commit.files.map(
+      (file) =>
+        `- ${file.status} ${file.previousPath ? `${file.previousPath} -> ` : ""}${file.path} (+${file.additions} -${file.deletions})`
+    );
+    const patches = commit.files
+      .filter((file) => file.patch)
+      .map((file) => {
+        const patch = file.patch as string;
+        return `${file.path}:\n${
+          patch.length > this.MAX_PATCH_LENGTH ? `${patch.substring(0, this.MAX_PATCH_LENGTH)}\n... (diff truncated)` : patch
+        }`;
+      });
+
+    return [
+      `Commit ${commit.sha}`,
+      `Author: ${commit.author}`,
+      `Date: ${commit.date}`,
+      `Parents: ${commit.parents.join(", ") || "none"}`,
+      "",
+      commit.message.trim(),
+      "",
+      `Changed files (${commit.files.length}${commit.filesTruncated ? ", list truncated" : ""}):`,
+      ...files,
+      ...(patches.length > 0 ? ["", "Diffs:", ...patches] : []),
+    ].join("\n");
+  }
+
+  private async getFileHistory(path: string): Promise<string> {
+    const commits = await this.provider.getRecentCommits(this.owner, this.repo, this.ref, this.HISTORY_LENGTH, path);
+    if (commits.length === 0) {
+      return `No commits changed "${path || "/"}".`;
+    }
+
+    return commits
+      .map((commit) => `${commit.sha} ${commit.date.substring(0, 10)} ${commit.author}: ${commit.message.split("\n")[0]}`)
+      .join("\n");
+  }
+}
+
+function getString(args: Record<string, unknown>, key: string, required: boolean = true): string {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    if (required) {
+      throw new Error(`Missing argument "${key}"`);
+    }
+    return "";
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`Argument "${key}" must be a string`);
+  }
+  return String(value);
+}
+
+/**
+ * Reads the path argument, accepting "/src/", "./src" and "src" alike
+ */
+function getPath(args: Record<string, unknown>): string {
+  return getString(args, "path", false)
+    .trim()
+    .replace(/^\.?\/+/, "")
+    .replace(/\/+$/, "")
+    .replace(/^\.$/, "");
+}
+
+/**
+ * Creates the tools for the repository a chat session analyzed, reading it with
+ * the requesting user's GitHub token if connected, else the server-wide token.
+ * Returns null without an analysis or if the repository's host is no longer configured.
+ */
+export function createRepositoryTools(mcpServer: MCPServer, request?: Request): RepositoryTools | null {
+  const context = mcpServer.getContext();
+  const analysis = context?.analysisData;
+  if (!context || !analysis) {
+    return null;
+  }
+
+  const urlHost = extractRepoInfo(analysis.repoData.url)?.host || "";
+  const host = getRepositoryHost(urlHost);
+  const repoInfo = host && extractRepoInfo(analysis.repoData.url, host.type);
+  if (!host || !repoInfo) {
+    console.warn(`No repository tools for ${analysis.repoData.url}: host ${urlHost} is not configured`);
+    return null;
+  }
+
+  const provider = createRepositoryProvider(host, request && getGitHubToken(request, host.host));
+  const paths = flattenTree(analysis.repoContent.folderStructure)
+    .filter((node) => node.type === "file")
+    .map((node) => node.path);
+
+  return new RepositoryTools(
+    context.repositoryName,
+    provider,
+    repoInfo.owner,
+    repoInfo.repo,
+    analysis.repoData.sha || analysis.repoData.ref || "HEAD",
+    paths,
+    mcpServer.getRepositoryIndex()
+  );
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getGitHubSessionId, getGitHubToken, GITHUB_SESSION_COOKIE, GitHubAuthManager } from "./github-auth";
+import { getGitHubHost } from "../github/github-hosts";
+
+const host = getGitHubHost("github.com", {} as NodeJS.ProcessEnv)!;
+
+// GitHub answers GET /user with the login the token belongs to
+vi.stubGlobal(
+  "fetch",
+  vi.fn(async (_url: string, init: RequestInit) => {
+    const token = new Headers(init.headers).get("authorization")?.replace(/^token /, "");
+    return new Response(JSON.stringify({ login: token?.replace(/-token$/, ""), name: null, avatar_url: "" }), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  })
+);
+
+describe("GitHubAuthManager", () => {
+  afterEach(() => {
+    delete (global as Record<string, unknown>).__GITHUB_AUTH__;
+  });
+
+  it("ends the browser's previous session when it reconnects", async () => {
+    const auth = new GitHubAuthManager();
+    const first = await auth.connect("alice-token", "token", host);
+    const second = await auth.connect("bob-token", "token", host, first.sessionId);
+
+    expect(second.identity.login).toBe("bob");
+    expect(auth.getToken(first.sessionId, "github.com")).toBeNull();
+    expect(auth.getIdentity(first.sessionId)).toBeNull();
+    expect(auth.getToken(second.sessionId, "github.com")).toBe("bob-token");
+  });
+
+  it("keeps the previous session when the new token is rejected", async () => {
+    const auth = new GitHubAuthManager();
+    const first = await auth.connect("alice-token", "token", host);
+    vi.mocked(fetch).mockResolvedValueOnce(
+      new Response(JSON.stringify({ message: "Bad credentials" }), {
+        status: 401,
+        headers: { "content-type": "application/json" },
+      })
+    );
+
+    await expect(auth.connect("expired-token", "token", host, first.sessionId)).rejects.toThrow();
+    expect(auth.getToken(first.sessionId, "github.com")).toBe("alice-token");
+  });
+});
+
+describe("getGitHubSessionId", () => {
+  const requestWithCookie = (cookie: string) => new Request("http://localhost/api/analyze-repo", { headers: { cookie } });
+
+  it("reads the session ID from the cookie", () => {
+    const request = requestWithCookie(`theme=dark; ${GITHUB_SESSION_COOKIE}=abc%2D123`);
+    expect(getGitHubSessionId(request)).toBe("abc-123");
+  });
+
+  it("treats a malformed cookie as no session, so requests fall back to anonymous access", () => {
+    const request = requestWithCookie(`${GITHUB_SESSION_COOKIE}=%E0%A4%A`);
+    expect(getGitHubSessionId(request)).toBeNull();
+    expect(getGitHubToken(request, "github.com")).toBeUndefined();
+  });
+});
@@ -0,0 +1,304 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from "crypto";
+import { Octokit } from "octokit";
+import type { NextResponse } from "next/server";
+import { GitHubServiceError, toGitHubServiceError } from "../github/github-errors";
+import { GitHubHost } from "../github/github-hosts";
+
+export const GITHUB_SESSION_COOKIE = "gitflow_ai_github_session";
+
+export interface GitHubIdentity {
+  host: string; // The GitHub host the token belongs to
+  login: string;
+  name: string;
+  avatarUrl: string;
+  method: "device" | "token"; // How the user connected
+}
+
+export interface DeviceFlowStart {
+  flowId: string;
+  userCode: string;
+  verificationUri: string;
+  expiresIn: number; // Seconds until the code expires
+  interval: number; // Minimum seconds between polls
+}
+
+export type DeviceFlowStatus =
+  | { status: "pending" | "slow_down" | "expired" | "denied" }
+  | { status: "complete"; sessionId: string; identity: GitHubIdentity };
+
+interface AuthSession {
+  identity: GitHubIdentity;
+  encryptedToken: string; // IV, auth tag and ciphertext, base64 encoded
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+interface DeviceFlow {
+  host: GitHubHost;
+  deviceCode: string;
+  expiresAt: number;
+}
+
+/**
+ * Keeps users' GitHub tokens in server memory, encrypted, behind an opaque session cookie.
+ * Tokens are never sent back to the browser or written to logs, and are only used
+ * for the host they were issued by.
+ */
+export class GitHubAuthManager {
+  private sessions: Map<string, AuthSession>;
+  private deviceFlows: Map<string, DeviceFlow>;
+  private key: Buffer;
+  private readonly SESSION_TTL = 8 * 60 * 60 * 1000; // Sessions idle for eight hours are dropped
+  private readonly DEVICE_SCOPES = "repo read:user"; // Read access to the user's private repositories
+
+  constructor() {
+    // Share sessions between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__GITHUB_AUTH__) {
+      globalStore.__GITHUB_AUTH__ = {
+        sessions: new Map<string, AuthSession>(),
+        deviceFlows: new Map<string, DeviceFlow>(),
+        // Sessions only live in memory, so a per-process key is enough
+        key: randomBytes(32),
+      };
+    }
+    const shared = globalStore.__GITHUB_AUTH__ as {
+      sessions: Map<string, AuthSession>;
+      deviceFlows: Map<string, DeviceFlow>;
+      key: Buffer;
+    };
+    this.sessions = shared.sessions;
+    this.deviceFlows = shared.deviceFlows;
+    this.key = shared.key;
+  }
+
+  isDeviceFlowAvailable(host: GitHubHost): boolean {
+    return Boolean(host.clientId);
+  }
+
+  /**
+   * Verifies a token with GitHub and starts a session for it
+   * @param previousSessionId The session the browser had before; ended once the new one starts
+   */
+  async connect(
+    token: string,
+    method: GitHubIdentity["method"],
+    host: GitHubHost,
+    previousSessionId?: string | null
+  ): Promise<{ sessionId: string; identity: GitHubIdentity }> {
+    let identity: GitHubIdentity;
+    try {
+      const { data } = await new Octokit({ auth: token, baseUrl: host.apiUrl }).rest.users.getAuthenticated();
+      identity = {
+        host: host.host,
+        login: data.login,
+        name: data.name || data.login,
+        avatarUrl: data.avatar_url,
+        method,
+      };
+    } catch (error) {
+      throw toGitHubServiceError(error, "verify the GitHub token");
+    }
+
+    this.evict();
+    const sessionId = randomUUID();
+    const now = Date.now();
+    this.sessions.set(sessionId, {
+      identity,
+      encryptedToken: this.encrypt(token),
+      createdAt: now,
+      lastAccessedAt: now,
+    });
+    console.log(`Connected GitHub user ${identity.login} on ${host.host} via ${method}`);
+
+    // The cookie now points at the new session, so the old one could never be used or disconnected
+    if (previousSessionId) {
+      this.disconnect(previousSessionId);
+    }
+    return { sessionId, identity };
+  }
+
+  getIdentity(sessionId: string): GitHubIdentity | null {
+    return this.getSession(sessionId)?.identity || null;
+  }
+
+  /**
+   * Returns the session's token if it was issued by the given host
+   */
+  getToken(sessionId: string, host: string): string | null {
+    const session = this.getSession(sessionId);
+    if (!session || session.identity.host !== host) {
+      return null;
+    }
+
+    try {
+      return this.decrypt(session.encryptedToken);
+    } catch {
+      console.warn(`Could not decrypt the GitHub token of session ${sessionId}`);
+      this.sessions.delete(sessionId);
+      return null;
+    }
+  }
+
+  disconnect(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.delete(sessionId);
+      console.log(`Disconnected GitHub user ${session.identity.login}`);
+    }
+  }
+
+  /**
+   * Starts the OAuth device flow; the user enters the returned code on GitHub
+   */
+  async startDeviceFlow(host: GitHubHost): Promise<DeviceFlowStart> {
+    const response = await fetch(`${host.webUrl}/login/device/code`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ client_id: host.clientId, scope: this.DEVICE_SCOPES }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.device_code) {
+      console.error(`Error starting the GitHub device flow: ${response.status} ${data.error || ""}`);
+      throw new GitHubServiceError("Could not start GitHub sign-in", "unknown", response.status);
+    }
+
+    const flowId = randomUUID();
+    this.deviceFlows.set(flowId, {
+      host,
+      deviceCode: data.device_code,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    });
+    return {
+      flowId,
+      userCode: data.user_code,
+      verificationUri: data.verification_uri,
+      expiresIn: data.expires_in,
+      interval: data.interval,
+    };
+  }
+
+  /**
+   * Checks whether the user has approved a device flow, starting a session once they have
+   * @param previousSessionId The session the browser had before; ended once the new one starts
+   */
+  async pollDeviceFlow(flowId: string, previousSessionId?: string | null): Promise<DeviceFlowStatus> {
+    const flow = this.deviceFlows.get(flowId);
+    if (!flow || Date.now() > flow.expiresAt) {
+      this.deviceFlows.delete(flowId);
+      return { status: "expired" };
+    }
+
+    const response = await fetch(`${flow.host.webUrl}/login/oauth/access_token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({
+        client_id: flow.host.clientId,
+        device_code: flow.deviceCode,
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+      }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (data.access_token) {
+      this.deviceFlows.delete(flowId);
+      const { sessionId, identity } = await this.connect(data.access_token, "device", flow.host, previousSessionId);
+      return { status: "complete", sessionId, identity };
+    }
+
+    switch (data.error) {
+      case "authorization_pending":
+        return { status: "pending" };
+      case "slow_down":
+        return { status: "slow_down" };
+      case "access_denied":
+        this.deviceFlows.delete(flowId);
+        return { status: "denied" };
+      case "expired_token":
+        this.deviceFlows.delete(flowId);
+        return { status: "expired" };
+      default:
+        console.error(`Error polling the GitHub device flow: ${response.status} ${data.error || ""}`);
+        throw new GitHubServiceError("GitHub sign-in failed", "unknown", response.status);
+    }
+  }
+
+  private getSession(sessionId: string): AuthSession | null {
+    this.evict();
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    session.lastAccessedAt = Date.now();
+    return session;
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, sessionId) => {
+      if (now - session.lastAccessedAt > this.SESSION_TTL) {
+        this.sessions.delete(sessionId);
+      }
+    });
+    this.deviceFlows.forEach((flow, flowId) => {
+      if (now > flow.expiresAt) {
+        this.deviceFlows.delete(flowId);
+      }
+    });
+  }
+
+  private encrypt(token: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+  }
+
+  private decrypt(encrypted: string): string {
+    const data = Buffer.from(encrypted, "base64");
+    const decipher = createDecipheriv("aes-256-gcm", this.key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf8");
+  }
+}
+
+// Create a singleton instance
+export const githubAuth = new GitHubAuthManager();
+
+/**
+ * Reads the GitHub session ID from the request's cookies; a malformed cookie counts as none
+ */
+export function getGitHubSessionId(request: Request): string | null {
+  const cookies = request.headers.get("cookie") || "";
+  const match = cookies.match(new RegExp(`(?:^|;\\s*)${GITHUB_SESSION_COOKIE}=([^;]+)`));
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the connected user's token for a GitHub host, if any, for GitHubService
+ */
+export function getGitHubToken(request: Request, host: string): string | undefined {
+  const sessionId = getGitHubSessionId(request);
+  return (sessionId && githubAuth.getToken(sessionId, host)) || undefined;
+}
+
+export function setGitHubSessionCookie(response: NextResponse, sessionId: string): void {
+  response.cookies.set(GITHUB_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  });
+}
+
+export function clearGitHubSessionCookie(response: NextResponse): void {
+  response.cookies.delete(GITHUB_SESSION_COOKIE);
+}
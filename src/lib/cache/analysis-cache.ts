@@ -0,0 +1,179 @@
+import { RepoAnalysisData } from "../github/github-service";
+import { AIAnalysisResult } from "../gemini/gemini-service";
+
+export interface CachedAnalysis {
+  repoAnalysisData: RepoAnalysisData;
+  aiAnalysis: AIAnalysisResult;
+  cachedAt: number;
+}
+
+interface CacheEntry extends CachedAnalysis {
+  key: AnalysisCacheKey;
+  lastAccessedAt: number;
+  size: number; // Approximate memory used by the entry, in bytes
+}
+
+export interface AnalysisCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  size: number;
+}
+
+export interface AnalysisCacheKey {
+  host: string;
+  owner: string;
+  repo: string;
+  sha: string;
+  path: string;
+  model: string; // Provider and model that produced the analysis
+  promptVersion: number;
+}
+
+/**
+ * Caches finished analyses by repository commit, so re-analyzing an unchanged
+ * repository returns instantly without calling GitHub or the LLM again
+ */
+export class AnalysisCache {
+  private entries: Map<string, CacheEntry>;
+  private stats: Omit<AnalysisCacheStats, "entries" | "size">;
+  private readonly CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // Drop analyses unused for a week
+  private readonly MAX_ENTRIES = 100; // Least recently used analyses are evicted beyond this
+  private readonly MAX_TOTAL_SIZE = 128 * 1024 * 1024; // Approximate memory budget for all entries
+
+  constructor() {
+    // Share the cache between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__ANALYSIS_CACHE__) {
+      globalStore.__ANALYSIS_CACHE__ = {
+        entries: new Map<string, CacheEntry>(),
+        stats: { hits: 0, misses: 0, evictions: 0 },
+      };
+    }
+    const shared = globalStore.__ANALYSIS_CACHE__ as {
+      entries: Map<string, CacheEntry>;
+      stats: Omit<AnalysisCacheStats, "entries" | "size">;
+    };
+    this.entries = shared.entries;
+    this.stats = shared.stats;
+  }
+
+  /**
+   * Builds the cache key, e.g. "github.com/vercel/next.js@1a2b3c:packages/next#gemini/gemini-1.5-flash#v1"
+   */
+  static getKey({ host, owner, repo, sha, path, model, promptVersion }: AnalysisCacheKey): string {
+    const scope = path ? `:${path}` : "";
+    return `${host}/${owner}/${repo}@${sha}${scope}#${model}#v${promptVersion}`.toLowerCase();
+  }
+
+  /**
+   * Returns the cached analysis, or null (counted as a miss) if there is none
+   */
+  get(cacheKey: AnalysisCacheKey): CachedAnalysis | null {
+    this.evict();
+
+    const key = AnalysisCache.getKey(cacheKey);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.stats.misses++;
+      console.log(`Analysis cache miss: ${key}`);
+      return null;
+    }
+
+    this.stats.hits++;
+    entry.lastAccessedAt = Date.now();
+    console.log(`Analysis cache hit: ${key} (cached ${Math.round((Date.now() - entry.cachedAt) / 1000)}s ago)`);
+    return {
+      repoAnalysisData: entry.repoAnalysisData,
+      aiAnalysis: entry.aiAnalysis,
+      cachedAt: entry.cachedAt,
+    };
+  }
+
+  /**
+   * Returns the most recent analysis of the same repository, scope, model and prompt
+   * at another commit, to update incrementally. Not counted as a hit or miss.
+   */
+  findPrevious(cacheKey: AnalysisCacheKey): (CachedAnalysis & { sha: string }) | null {
+    this.evict();
+
+    const key = AnalysisCache.getKey({ ...cacheKey, sha: "" });
+    const candidates = Array.from(this.entries.values())
+      .filter((entry) => entry.key.sha !== cacheKey.sha && AnalysisCache.getKey({ ...entry.key, sha: "" }) === key)
+      .sort((a, b) => b.cachedAt - a.cachedAt);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const entry = candidates[0];
+    entry.lastAccessedAt = Date.now();
+    return {
+      repoAnalysisData: entry.repoAnalysisData,
+      aiAnalysis: entry.aiAnalysis,
+      cachedAt: entry.cachedAt,
+      sha: entry.key.sha,
+    };
+  }
+
+  set(cacheKey: AnalysisCacheKey, repoAnalysisData: RepoAnalysisData, aiAnalysis: AIAnalysisResult): void {
+    const key = AnalysisCache.getKey(cacheKey);
+    const now = Date.now();
+    let size = 0;
+    try {
+      // JavaScript strings use two bytes per character
+      size = JSON.stringify({ repoAnalysisData, aiAnalysis }).length * 2;
+    } catch {
+      // Leave unsized entries to the entry cap
+    }
+
+    this.entries.set(key, {
+      key: cacheKey,
+      repoAnalysisData,
+      aiAnalysis,
+      cachedAt: now,
+      lastAccessedAt: now,
+      size,
+    });
+    console.log(`Cached analysis ${key} (${size} bytes)`);
+    this.evict();
+  }
+
+  getStats(): AnalysisCacheStats {
+    return {
+      ...this.stats,
+      entries: this.entries.size,
+      size: Array.from(this.entries.values()).reduce((total, entry) => total + entry.size, 0),
+    };
+  }
+
+  /**
+   * Drops expired entries, then the least recently used ones until the caps are met
+   */
+  private evict(): void {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (now - entry.lastAccessedAt > this.CACHE_TTL) {
+        this.entries.delete(key);
+        this.stats.evictions++;
+        console.log(`Evicted expired cached analysis ${key}`);
+      }
+    });
+
+    const byLastAccess = Array.from(this.entries.entries()).sort(
+      ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt
+    );
+    let totalSize = byLastAccess.reduce((total, [, entry]) => total + entry.size, 0);
+
+    for (const [key, entry] of byLastAccess) {
+      if (this.entries.size <= this.MAX_ENTRIES && totalSize <= this.MAX_TOTAL_SIZE) break;
+      this.entries.delete(key);
+      totalSize -= entry.size;
+      this.stats.evictions++;
+      console.log(`Evicted cached analysis ${key} to stay within cache limits`);
+    }
+  }
+}
+
+// Create a singleton instance
+export const analysisCache = new AnalysisCache();
@@ -0,0 +1,125 @@
+import type { AIAnalysisResult } from "./gemini-service";
+
+type JsonSchema = Record<string, unknown>;
+
+// Fields of AIAnalysisResult and what the model should put in each
+const FIELD_DESCRIPTIONS: Record<keyof AIAnalysisResult, string> = {
+  summary: "Brief summary (50-100 words) of the project's purpose and functionality",
+  detailedSummary:
+    "Detailed summary (200-300 words) analysing the project's architecture, components and functionality",
+  projectPurpose: "One or two sentences describing what problem the project solves",
+  technologyStack: "Main languages, frameworks, libraries and tools, one per item",
+  codeQuality: "Assessment of the code quality and structure",
+  architecturePatterns: "Identified architecture and design patterns",
+  potentialImprovements: "Potential improvements or suggestions",
+  securityConsiderations: "Security considerations, or a note that none were found",
+  workflowDiagram:
+    "Mermaid diagram source (graph TD or graph LR, 10-15 nodes) of the main workflow or architecture, without code fences",
+};
+
+const FIELDS = Object.keys(FIELD_DESCRIPTIONS) as Array<keyof AIAnalysisResult>;
+
+/**
+ * JSON schema the model's analysis response must conform to
+ */
+export const ANALYSIS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: Object.fromEntries(
+    FIELDS.map((field) => [
+      field,
+      field === "technologyStack"
+        ? { type: "array", items: { type: "string" }, description: FIELD_DESCRIPTIONS[field] }
+        : { type: "string", description: FIELD_DESCRIPTIONS[field] },
+    ])
+  ),
+  required: FIELDS,
+};
+
+/**
+ * Describes the expected JSON object for inclusion in a prompt
+ */
+export function describeAnalysisSchema(): string {
+  return FIELDS.map(
+    (field) =>
+      `- "${field}" (${field === "technologyStack" ? "array of strings" : "string"}): ${FIELD_DESCRIPTIONS[field]}`
+  ).join("\n");
+}
+
+/**
+ * Parses a JSON object from model output, tolerating code fences and surrounding prose
+ */
+function parseJsonObject(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/```$/, "").trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall back to the outermost braces; fences may also appear inside string values
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new Error("Response does not contain a JSON object");
+    }
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+/**
+ * Parses and validates an analysis response against ANALYSIS_SCHEMA.
+ * Small deviations are repaired (a comma separated technology stack, lists given
+ * for text fields, code fences around the diagram); anything else is reported.
+ */
+export function validateAnalysisResponse(
+  text: string
+): { result: AIAnalysisResult | null; errors: string[] } {
+  let data: unknown;
+  try {
+    data = parseJsonObject(text);
+  } catch (error) {
+    return { result: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { result: null, errors: ["Response must be a JSON object"] };
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: string[] = [];
+  const result: Partial<Record<keyof AIAnalysisResult, unknown>> = {};
+
+  for (const field of FIELDS) {
+    let value = record[field];
+
+    if (field === "technologyStack") {
+      if (typeof value === "string") {
+        value = value.split(/[,\n]/);
+      }
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        errors.push(`"${field}" must be an array of strings`);
+        continue;
+      }
+      result[field] = value
+        .map((item: string) => item.replace(/^[-.* ]+/, "").trim())
+        .filter((item: string) => item.length > 0);
+      continue;
+    }
+
+    if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+      value = value.map((item) => `- ${item}`).join("\n");
+    }
+    if (typeof value !== "string" || value.trim().length === 0) {
+      errors.push(`"${field}" must be a non-empty string`);
+      continue;
+    }
+
+    result[field] =
+      field === "workflowDiagram"
+        ? value.replace(/^```(?:mermaid)?\s*/i, "").replace(/```\s*$/, "").trim()
+        : value.trim();
+  }
+
+  if (errors.length > 0) {
+    return { result: null, errors };
+  }
+  return { result: result as AIAnalysisResult, errors };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { RepoFile, TreeNode } from "../github/github-service";
+import type { RepositoryTools } from "../agent/repository-tools";
+import { ChatMessage, LLMProvider, ToolStreamEvent } from "../llm";
+import { estimateTokens, getModelLimits } from "../llm/token-budget";
+import { GeminiService } from "./gemini-service";
+import { MCPServer } from "./mcp-server";
+
+const MODEL = "test-model"; // Unknown models get the small default context window
+
+/**
+ * A provider that records the conversations it is sent
+ */
+function recordingProvider(sent: ChatMessage[][]): LLMProvider {
+  return {
+    name: "test",
+    model: MODEL,
+    async chat(messages: ChatMessage[]) {
+      sent.push(messages);
+      return "An answer";
+    },
+    async *streamWithTools(messages: ChatMessage[]): AsyncIterable<ToolStreamEvent> {
+      sent.push(messages);
+      yield { type: "token", content: "An answer" };
+    },
+  } as unknown as LLMProvider;
+}
+
+/**
+ * A session whose report, code and history are each far larger than the context window
+ */
+function createServer(): MCPServer {
+  const files: RepoFile[] = Array.from({ length: 12 }, (_, i) => ({
+    path: `src/auth/session-${i}.ts`,
+    size: 4000,
+    content: Array.from({ length: 120 }, (_, line) => `export const sessionToken${line} = refreshSession(${i}, ${line});`).join("\n"),
+    reasons: ["entry point"],
+  }));
+  const folderStructure: TreeNode[] = files.map((file) => ({
+    name: file.path.split("/").pop() || "",
+    path: file.path,
+    type: "file",
+    size: file.size,
+  }));
+
+  return new MCPServer({
+    repositoryName: "acme/app",
+    repositoryUrl: "https://github.com/acme/app",
+    repositoryDescription: "An app",
+    analysisComplete: true,
+    analysisData: {
+      repoData: {
+        name: "app",
+        fullName: "acme/app",
+        description: "An app",
+        url: "https://github.com/acme/app",
+        homepage: "",
+        language: "TypeScript",
+        stargazersCount: 0,
+        forksCount: 0,
+        openIssuesCount: 0,
+        defaultBranch: "main",
+        ref: "main",
+        sha: "4d2c1b0a99887766554433221100ffeeddccbbaa",
+        path: "",
+        createdAt: "",
+        updatedAt: "",
+        pushedAt: "",
+        size: 0,
+        topics: [],
+        visibility: "public",
+        owner: { login: "acme", avatarUrl: "", url: "https://github.com/acme" },
+      },
+      repoContent: {
+        readme: "# App\n\nSessions are refreshed by the auth module.\n",
+        dependencies: {},
+        dependencyDetails: [],
+        dependencyGraph: { lockfiles: [], packages: [] },
+        folderStructure,
+        folderStructureTruncated: false,
+        files,
+        commits: [],
+        languages: { TypeScript: 48000 },
+      },
+      aiAnalysis: {
+        summary: "An app",
+        detailedSummary: "",
+        projectPurpose: "",
+        technologyStack: ["TypeScript"],
+        codeQuality: "",
+        architecturePatterns: "",
+        potentialImprovements: "",
+        securityConsiderations: "",
+        workflowDiagram: "",
+      },
+      report: "## Report\n".repeat(20000),
+    },
+  });
+}
+
+function createMessages(): ChatMessage[] {
+  // Short turns fill the space left for the history up to a few tokens
+  const history: ChatMessage[] = Array.from({ length: 1000 }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Turn ${i}: tokens expire.`,
+  }));
+  return [...history, { role: "user", content: "How are sessions refreshed?" }];
+}
+
+function promptTokens(conversation: ChatMessage[]): number {
+  return conversation.reduce((total, message) => total + estimateTokens(message.content), 0);
+}
+
+describe("GeminiService", () => {
+  const limits = getModelLimits(MODEL);
+
+  it("fits the assembled chat prompt into the context window", async () => {
+    const sent: ChatMessage[][] = [];
+    await new GeminiService(createServer(), recordingProvider(sent)).chat(createMessages());
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0][sent[0].length - 1].content).toMatch(/^I'm asking about the repository acme\/app\. I'm asking about this repository/);
+    expect(promptTokens(sent[0])).toBeLessThanOrEqual(limits.contextWindow - limits.maxOutputTokens);
+  });
+
+  it("keeps room for tool results when the model may call tools", async () => {
+    const sent: ChatMessage[][] = [];
+    const tools = { definitions: [], sources: [] } as unknown as RepositoryTools;
+    await new GeminiService(createServer(), recordingProvider(sent)).chatWithTools(createMessages(), tools);
+
+    const reserved = Math.floor(limits.contextWindow * 0.25); // GeminiService.TOOL_RESULTS_SHARE
+    expect(sent).toHaveLength(1);
+    expect(promptTokens(sent[0])).toBeLessThanOrEqual(limits.contextWindow - limits.maxOutputTokens - reserved);
+  });
+});
@@ -1,6 +1,27 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
-import { RepoAnalysisData } from "../github/github-service";
-import { mcpServer } from "./mcp-server";
+import {
+  AnalysisProgressCallback,
+  RepoAnalysisData,
+} from "../github/github-service";
+import { formatTree } from "../github/tree-utils";
+import { formatDependencies } from "../github/manifest-parsers";
+import { formatWorkspace } from "../github/workspace-detector";
+import { AnalysisChangeDigest, formatChangeDigest } from "../github/change-digest";
+import { MCPServer } from "./mcp-server";
+import { ChatMessage, LLMProvider, ToolStep, createLLMProvider } from "../llm";
+import { getModelLimits, TokenBudget } from "../llm/token-budget";
+import { AgentEvent, ChatAgent } from "../agent/chat-agent";
+import { RepositoryTools } from "../agent/repository-tools";
+import type { CodeSource } from "../agent/citations";
+import {
+  ANALYSIS_SCHEMA,
+  describeAnalysisSchema,
+  validateAnalysisResponse,
+} from "./analysis-schema";
+
+export type { ChatMessage } from "../llm";
+
+// Bump when the analysis prompt or schema changes so cached analyses are regenerated
+export const ANALYSIS_PROMPT_VERSION = 1;
 
 export interface AIAnalysisResult {
   summary: string;
@@ -14,22 +35,23 @@ export interface AIAnalysisResult {
   workflowDiagram: string;
 }
 
-export interface ChatMessage {
-  role: "user" | "assistant";
-  content: string;
-}
-
 /**
- * Gemini AI service for analyzing repository data
+ * AI service for analyzing repository data, backed by the configured LLM provider
  */
 export class GeminiService {
-  private genAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
+  private provider: LLMProvider;
+  private mcpServer: MCPServer;
   private repoContext: string = "";
+  private readonly TOOL_RESULTS_SHARE = 0.25; // Share of the context window kept free for tool results in agent answers
+  readonly sources: CodeSource[] = []; // Lines of the code retrieved for the last question, for the answer's citations
 
-  constructor(apiKey?: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey || process.env.GEMINI_API_KEY || "");
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+  /**
+   * @param mcpServer Repository context of the chat session; analyses initialize it
+   * @param provider LLM backend; defaults to the one configured in the environment
+   */
+  constructor(mcpServer: MCPServer = new MCPServer(), provider?: LLMProvider) {
+    this.mcpServer = mcpServer;
+    this.provider = provider || createLLMProvider();
   }
 
   /**
@@ -38,13 +60,31 @@ export class GeminiService {
   private createAnalysisPrompt(repoData: RepoAnalysisData): string {
     const { repoData: repo, repoContent: content } = repoData;
     
+    // Scoped analyses focus on one subdirectory but keep the surrounding layout
+    const scopeInstructions = repo.path
+      ? `
+      Focus your analysis on the subdirectory \`${repo.path}\` of this repository.
+      The README, folder structure, dependencies, commits and source files below are
+      limited to that subdirectory. Use the surrounding repository overview only to
+      explain how it fits into the wider codebase (e.g. as one package in a monorepo).
+      
+      # Surrounding Repository Overview
+      ${formatTree(content.repositoryOverview?.tree || [])}
+      
+      # Root README (excerpt)
+      ${content.repositoryOverview?.readmeExcerpt || "No root README"}
+      `
+      : "";
+
     // Create a structured prompt for the AI
     return `
       Analyze the following GitHub repository:
-      
+      ${scopeInstructions}
       # Repository Information
       - Name: ${repo.name}
       - Full Name: ${repo.fullName}
+      - Ref: ${repo.ref}${repo.sha ? ` (${repo.sha})` : ""}
+      - Scope: ${repo.path || "entire repository"}
       - Description: ${repo.description}
       - Primary Language: ${repo.language}
       - Stars: ${repo.stargazersCount}
@@ -60,49 +100,54 @@ export class GeminiService {
       ${content.readme}
       
       # Dependencies
-      ${Object.entries(content.dependencies)
-        .map(([name, version]) => `- ${name}: ${version}`)
-        .join("\n")}
+      ${formatDependencies(content.dependencyDetails)}
       
       # Languages Used
       ${Object.entries(content.languages)
         .map(([language, bytes]) => `- ${language}: ${bytes} bytes`)
         .join("\n")}
       
-      # Folder Structure
-      ${JSON.stringify(content.folderStructure, null, 2)}
-      
+      # Folder Structure${content.folderStructureTruncated ? " (truncated)" : ""}
+      ${formatTree(content.folderStructure)}
+      ${content.workspace ? `
+      # Workspace Packages
+      This is a monorepo; describe the role of each package and how they depend on each other.
+      ${formatWorkspace(content.workspace)}
+      ` : ""}
       # Recent Commits
       ${content.commits
         .map(commit => `- ${commit.date}: ${commit.message} (${commit.author})`)
         .join("\n")}
       
-      Based on this information, provide a comprehensive analysis of the repository including:
-      1. A brief summary (50-100 words) of the project's purpose and functionality
-      2. A detailed summary (200-300 words) with in-depth analysis of the project's architecture, components, and functionality
-      3. The main technology stack used
-      4. An assessment of the code quality and structure
-      5. Identified architecture patterns
-      6. Potential improvements or suggestions
-      7. Security considerations (if applicable)
-      8. A Mermaid diagram that visualizes the workflow or architecture of the application
-      
-      For the Mermaid diagram, use the following guidelines:
+      # Key Source Files
+      ${content.files
+        .map(file => `## ${file.path} (${file.reasons.join(", ")})\n\`\`\`\n${file.content}\n\`\`\``)
+        .join("\n\n")}
+      
+      Based on this information, provide a comprehensive analysis of the repository.
+      Respond with a single JSON object and nothing else, with these fields:
+      ${describeAnalysisSchema()}
+      
+      For the Mermaid diagram in "workflowDiagram", use the following guidelines:
       - Use the graph TD (top-down) or graph LR (left-right) syntax
       - Include key components, services, and data flows
       - Keep it concise but informative (10-15 nodes maximum)
       - Focus on the main user flows or data processing paths
       - Use proper Mermaid syntax with nodes, connections, and labels
-      - Wrap the diagram in triple backtick mermaid and triple backtick
-      
-      Format your response in a structured way that's easy to parse programmatically.
+      - Put the raw diagram source in the string, using \\n for line breaks
     `;
   }
 
   /**
-   * Analyzes a repository using Gemini AI
+   * Analyzes a repository using the configured LLM provider
+   * @param onProgress Called as the LLM analysis and diagram generation stages start and finish
+   * @param signal Cancels the upstream model request
    */
-  async analyzeRepository(repoData: RepoAnalysisData): Promise<AIAnalysisResult> {
+  async analyzeRepository(
+    repoData: RepoAnalysisData,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal
+  ): Promise<AIAnalysisResult> {
     try {
       const prompt = this.createAnalysisPrompt(repoData);
       
@@ -126,62 +171,31 @@ You are an AI assistant that has analyzed this repository and can answer questio
 When asked questions, provide specific details about this repository based on the analysis data.
       `;
       
-      const result = await this.model.generateContent(prompt);
-      const text = result.response.text();
-      
-      // Parse the response into structured data
-      const summary = this.extractSection(text, "summary") || 
-                     this.extractSection(text, "brief summary") || 
-                     this.extractSection(text, "project purpose");
-      
-      const detailedSummary = this.extractSection(text, "detailed summary") || 
-                            this.extractSection(text, "in-depth analysis") || 
-                            this.extractSection(text, "comprehensive analysis");
-      
-      const techStack = this.extractSection(text, "technology stack") || 
-                       this.extractSection(text, "tech stack") || 
-                       this.extractSection(text, "technologies");
-      
-      const codeQuality = this.extractSection(text, "code quality") || 
-                         this.extractSection(text, "quality assessment") || 
-                         this.extractSection(text, "code structure");
-      
-      const architecturePatterns = this.extractSection(text, "architecture patterns") || 
-                                  this.extractSection(text, "architecture") || 
-                                  this.extractSection(text, "design patterns");
-      
-      const improvements = this.extractSection(text, "potential improvements") || 
-                          this.extractSection(text, "improvements") || 
-                          this.extractSection(text, "suggestions");
-      
-      const security = this.extractSection(text, "security considerations") || 
-                      this.extractSection(text, "security") || 
-                      this.extractSection(text, "security issues");
-      
-      // Extract Mermaid diagram
-      const workflowDiagram = this.extractMermaidDiagram(text);
-      
-      // Extract technology stack as an array
-      const techStackArray = techStack
-        .split(/[,\n]/)
-        .map((item: string) => item.trim())
-        .filter((item: string) => item.length > 0 && !item.startsWith('-') && !item.startsWith('*'))
-        .map((item: string) => item.replace(/^[-.* ]+/, '').trim());
+      onProgress?.({ stage: "llm", status: "running" });
+      const text = await this.provider.generate(prompt, { jsonSchema: ANALYSIS_SCHEMA, signal });
+      const parsed = await this.parseAnalysisResponse(prompt, text, signal);
+      onProgress?.({
+        stage: "llm",
+        status: "done",
+        counts: { promptCharacters: prompt.length, responseCharacters: text.length },
+      });
       
+      // Normalize the diagram so it renders
+      onProgress?.({ stage: "diagram", status: "running" });
       const aiAnalysis: AIAnalysisResult = {
-        summary,
-        detailedSummary,
-        projectPurpose: summary,
-        technologyStack: techStackArray,
-        codeQuality,
-        architecturePatterns,
-        potentialImprovements: improvements,
-        securityConsiderations: security,
-        workflowDiagram,
+        ...parsed,
+        workflowDiagram: parsed.workflowDiagram
+          ? this.processMermaidDiagram(parsed.workflowDiagram)
+          : this.extractMermaidDiagram(text),
       };
       
       // Initialize the MCP server with the repository data and analysis
-      mcpServer.initialize(repoData, aiAnalysis);
+      this.mcpServer.initialize(repoData, aiAnalysis);
+      onProgress?.({
+        stage: "diagram",
+        status: "done",
+        counts: { diagramLines: aiAnalysis.workflowDiagram.split("\n").length },
+      });
       
       return aiAnalysis;
     } catch (error) {
@@ -190,6 +204,211 @@ When asked questions, provide specific details about this repository based on th
     }
   }
 
+  /**
+   * Creates a prompt asking the model to revise a previous analysis for the changes since then
+   */
+  private createUpdatePrompt(
+    repoData: RepoAnalysisData,
+    previousAnalysis: AIAnalysisResult,
+    digest: AnalysisChangeDigest
+  ): string {
+    const { repoData: repo, repoContent: content } = repoData;
+    const changedPaths = new Set([
+      ...digest.files.added,
+      ...digest.files.modified,
+      ...digest.files.renamed.map((rename) => rename.to),
+    ]);
+    const changedFiles = content.files.filter((file) => changedPaths.has(file.path));
+    const structureChanged =
+      digest.files.added.length + digest.files.removed.length + digest.files.renamed.length > 0;
+    const dependenciesChanged =
+      digest.dependencies.added.length + digest.dependencies.removed.length + digest.dependencies.updated.length > 0;
+
+    return `
+      You previously analyzed the GitHub repository ${repo.fullName}${repo.path ? ` (subdirectory \`${repo.path}\`)` : ""}
+      at commit ${digest.baseSha}. It has since changed; update the analysis for ${repo.ref} (${digest.headSha}).
+      
+      # Previous Analysis
+      ${JSON.stringify(previousAnalysis, null, 2)}
+      
+      # Changes Since the Previous Analysis${digest.filesTruncated ? " (file list truncated)" : ""}
+      ${formatChangeDigest(digest)}
+      ${changedFiles.length > 0 ? `
+      # Changed Key Source Files
+      ${changedFiles
+        .map(file => `## ${file.path} (${file.reasons.join(", ")})\n\`\`\`\n${file.content}\n\`\`\``)
+        .join("\n\n")}
+      ` : ""}${dependenciesChanged ? `
+      # Current Dependencies
+      ${formatDependencies(content.dependencyDetails)}
+      ` : ""}${structureChanged ? `
+      # Current Folder Structure${content.folderStructureTruncated ? " (truncated)" : ""}
+      ${formatTree(content.folderStructure)}
+      ` : ""}
+      Update only the fields of the previous analysis that these changes affect, and copy
+      every other field unchanged. Update "workflowDiagram" only if components or data
+      flows changed; otherwise return it exactly as before.
+      Respond with a single JSON object and nothing else, with these fields:
+      ${describeAnalysisSchema()}
+    `;
+  }
+
+  /**
+   * Revises a previous analysis for the changes described by a digest,
+   * sending only what changed instead of the whole repository
+   * @returns The updated analysis and the names of the fields that changed
+   */
+  async updateAnalysis(
+    repoData: RepoAnalysisData,
+    previousAnalysis: AIAnalysisResult,
+    digest: AnalysisChangeDigest,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal
+  ): Promise<{ aiAnalysis: AIAnalysisResult; updatedSections: string[] }> {
+    try {
+      const prompt = this.createUpdatePrompt(repoData, previousAnalysis, digest);
+      
+      onProgress?.({ stage: "llm", status: "running" });
+      const text = await this.provider.generate(prompt, { jsonSchema: ANALYSIS_SCHEMA, signal });
+      const parsed = await this.parseAnalysisResponse(prompt, text, signal);
+      onProgress?.({
+        stage: "llm",
+        status: "done",
+        counts: { promptCharacters: prompt.length, responseCharacters: text.length },
+      });
+      
+      // Keep previous sections the model left out
+      onProgress?.({ stage: "diagram", status: "running" });
+      const aiAnalysis = { ...previousAnalysis };
+      (Object.keys(previousAnalysis) as Array<keyof AIAnalysisResult>).forEach((key) => {
+        const value = parsed[key];
+        if (Array.isArray(value) ? value.length > 0 : value) {
+          Object.assign(aiAnalysis, { [key]: value });
+        }
+      });
+      if (aiAnalysis.workflowDiagram !== previousAnalysis.workflowDiagram) {
+        aiAnalysis.workflowDiagram = this.processMermaidDiagram(aiAnalysis.workflowDiagram);
+      }
+      
+      const updatedSections = (Object.keys(previousAnalysis) as Array<keyof AIAnalysisResult>).filter(
+        (key) => JSON.stringify(aiAnalysis[key]) !== JSON.stringify(previousAnalysis[key])
+      );
+      console.log(`Updated analysis sections: ${updatedSections.join(", ") || "none"}`);
+      
+      this.mcpServer.initialize(repoData, aiAnalysis);
+      onProgress?.({
+        stage: "diagram",
+        status: "done",
+        counts: { diagramLines: aiAnalysis.workflowDiagram.split("\n").length },
+      });
+      
+      return { aiAnalysis, updatedSections };
+    } catch (error) {
+      console.error("Error updating repository analysis with AI:", error);
+      throw new Error("Failed to update repository analysis with AI");
+    }
+  }
+
+  /**
+   * Validates a structured analysis response, asking the model to correct it once
+   * before falling back to the legacy section parser
+   */
+  private async parseAnalysisResponse(
+    prompt: string,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<AIAnalysisResult> {
+    const { result, errors } = validateAnalysisResponse(text);
+    if (result) {
+      return result;
+    }
+
+    console.warn("Analysis response failed validation, asking the model to correct it:", errors);
+    try {
+      const retryText = await this.provider.chat(
+        [
+          { role: "user", content: prompt },
+          { role: "assistant", content: text },
+          {
+            role: "user",
+            content: `Your response did not match the required JSON format:\n${errors
+              .map((error) => `- ${error}`)
+              .join("\n")}\n\nRespond again with only the corrected JSON object.`,
+          },
+        ],
+        { jsonSchema: ANALYSIS_SCHEMA, signal }
+      );
+
+      const retry = validateAnalysisResponse(retryText);
+      if (retry.result) {
+        return retry.result;
+      }
+      console.warn("Corrected analysis response still invalid:", retry.errors);
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn("Error asking the model to correct the analysis:", error);
+    }
+
+    console.warn("Falling back to the legacy section parser");
+    return this.parseLegacyAnalysis(text);
+  }
+
+  /**
+   * Recovers analysis fields from free-form text by looking for section headers.
+   * Only used when the model does not return valid structured output.
+   */
+  private parseLegacyAnalysis(text: string): AIAnalysisResult {
+    const summary = this.extractSection(text, "summary") || 
+                   this.extractSection(text, "brief summary") || 
+                   this.extractSection(text, "project purpose");
+    
+    const detailedSummary = this.extractSection(text, "detailed summary") || 
+                          this.extractSection(text, "in-depth analysis") || 
+                          this.extractSection(text, "comprehensive analysis");
+    
+    const techStack = this.extractSection(text, "technology stack") || 
+                     this.extractSection(text, "tech stack") || 
+                     this.extractSection(text, "technologies");
+    
+    const codeQuality = this.extractSection(text, "code quality") || 
+                       this.extractSection(text, "quality assessment") || 
+                       this.extractSection(text, "code structure");
+    
+    const architecturePatterns = this.extractSection(text, "architecture patterns") || 
+                                this.extractSection(text, "architecture") || 
+                                this.extractSection(text, "design patterns");
+    
+    const improvements = this.extractSection(text, "potential improvements") || 
+                        this.extractSection(text, "improvements") || 
+                        this.extractSection(text, "suggestions");
+    
+    const security = this.extractSection(text, "security considerations") || 
+                    this.extractSection(text, "security") || 
+                    this.extractSection(text, "security issues");
+    
+    // Extract Mermaid diagram
+    const workflowDiagram = this.extractMermaidDiagram(text);
+    
+    // Extract technology stack as an array
+    const techStackArray = techStack
+      .split(/[,\n]/)
+      .map((item: string) => item.trim())
+      .filter((item: string) => item.length > 0 && !item.startsWith('-') && !item.startsWith('*'))
+      .map((item: string) => item.replace(/^[-.* ]+/, '').trim());
+    
+    return {
+      summary,
+      detailedSummary,
+      projectPurpose: summary,
+      technologyStack: techStackArray,
+      codeQuality,
+      architecturePatterns,
+      potentialImprovements: improvements,
+      securityConsiderations: security,
+      workflowDiagram,
+    };
+  }
+
   /**
    * Extracts a section from the AI response text
    */
@@ -438,158 +657,216 @@ When asked questions, provide specific details about this repository based on th
    */
   async chat(messages: ChatMessage[]): Promise<string> {
     try {
-      // Make sure we have at least one user message
-      if (messages.length === 0 || messages.every(msg => msg.role !== "user")) {
-        throw new Error("At least one user message is required");
-      }
-
-      // Use the MCP server to enhance messages with repository context if available
-      let chatHistory: ChatMessage[];
+      const conversation = await this.prepareChat(messages);
       
-      if (mcpServer.hasContext()) {
-        console.log("Using MCP server context for chat");
-        // Make a deep copy of messages to avoid modifying the original array
-        const messagesCopy = JSON.parse(JSON.stringify(messages)) as ChatMessage[];
-        
-        // Ensure we're passing fresh messages to the MCP server to enhance
-        chatHistory = mcpServer.enhanceMessages(messagesCopy);
-        
-        // Log the enhanced messages for debugging
-        console.log(`Enhanced messages with repository context. First system message: ${chatHistory[0]?.content?.substring(0, 100)}...`);
-        console.log(`Total messages after enhancement: ${chatHistory.length}`);
-      } else if (this.repoContext) {
-        // Fall back to the old method if MCP server doesn't have context
-        console.log("Using legacy context method for chat");
-        chatHistory = [...messages];
-        
-        // Create a special system message with repository context
-        const systemMessage: ChatMessage = {
-          role: "assistant",
-          content: `I am an AI assistant that has analyzed the following repository:\n\n${this.repoContext}\n\nI will answer questions about this specific repository based on my analysis.`
-        };
-        
-        // Add the system message at the beginning if it's not already there
-        if (chatHistory.length === 0 || 
-            chatHistory[0].role !== "assistant" || 
-            !chatHistory[0].content.includes("I am an AI assistant that has analyzed")) {
-          chatHistory.unshift(systemMessage);
-        }
-        
-        // Find the first user message
-        const firstUserMessageIndex = chatHistory.findIndex(msg => msg.role === "user");
-        
-        // Enhance the first user message with a reminder about the context
-        if (firstUserMessageIndex >= 0) {
-          chatHistory[firstUserMessageIndex] = {
-            ...chatHistory[firstUserMessageIndex],
-            content: `Question about the analyzed repository: ${chatHistory[firstUserMessageIndex].content}`,
-          };
-        }
-      } else {
-        console.log("No repository context available for chat");
-        chatHistory = [...messages];
-      }
-      
-      // Convert to Gemini chat format - Gemini uses 'user' and 'model' roles
-      const geminiMessages = chatHistory.map(msg => ({
-        role: msg.role === "user" ? "user" : "model",
-        parts: [{ text: msg.content }],
-      }));
-      
-      console.log(`Total Gemini messages: ${geminiMessages.length}`);
-      
-      // For Gemini API, we need a different approach to handle system messages
-      console.log(`Total messages: ${geminiMessages.length}`);
-      
-      // Check if we have a system message (first message is model)
-      let systemContent = "";
-      if (geminiMessages.length > 0 && geminiMessages[0].role === "model") {
-        // Extract the system content but don't use it as systemInstruction
-        // We'll prepend it to the user's message instead
-        systemContent = geminiMessages[0].parts[0].text;
-        console.log(`Found system message (${systemContent.length} chars)`);  
-        
-        // Remove the system message from history - Gemini requires the first message to be from the user
-        geminiMessages.shift();
-      }
+      // Send the conversation and get the response
+      const response = await this.provider.chat(conversation);
+      console.log(`Received response from ${this.provider.name}`);
       
-      // Ensure the history starts with a user message for Gemini API requirements
-      if (geminiMessages.length > 0 && geminiMessages[0].role === "model") {
-        // If the first message is still a model message, we need to remove it or convert it
-        // For safety, we'll just remove all model messages until we find a user message
-        while (geminiMessages.length > 0 && geminiMessages[0].role === "model") {
-          geminiMessages.shift();
+      return response;
+    } catch (error) {
+      console.error("Error in chat:", error);
+      return "I'm sorry, I encountered an error while processing your question. Please try again.";
+    }
+  }
+
+  /**
+   * Handles chat messages about the repository, yielding the response as it is generated.
+   * Aborting the signal cancels the upstream request.
+   */
+  async *chatStream(messages: ChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    const conversation = await this.prepareChat(messages);
+    yield* this.provider.stream(conversation, { signal });
+    console.log(`Finished streaming response from ${this.provider.name}`);
+  }
+
+  /**
+   * Handles chat messages about the repository, letting the model call the repository tools first
+   * @returns The answer with the tool calls made for it
+   */
+  async chatWithTools(messages: ChatMessage[], tools: RepositoryTools): Promise<ChatMessage> {
+    try {
+      const steps: ToolStep[] = [];
+      let content = "";
+      for await (const event of this.agentStream(messages, tools)) {
+        if (event.type === "step") {
+          steps.push(event.step);
+        } else {
+          content += event.content;
         }
       }
-      
-      // Ensure we have at least one user message
-      if (!geminiMessages.some(msg => msg.role === "user")) {
-        throw new Error("No user messages found");
+      return { role: "assistant", content, ...(steps.length > 0 ? { steps } : {}) };
+    } catch (error) {
+      console.error("Error in chat with tools:", error);
+      return {
+        role: "assistant",
+        content: "I'm sorry, I encountered an error while processing your question. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Handles chat messages about the repository, yielding each tool call the model makes and then the answer.
+   * Falls back to a plain streamed response if the model cannot call tools.
+   */
+  async *agentStream(messages: ChatMessage[], tools: RepositoryTools, signal?: AbortSignal): AsyncIterable<AgentEvent> {
+    const conversation = await this.prepareChat(messages, true);
+    const agent = new ChatAgent(this.provider, tools);
+    let started = false;
+
+    try {
+      for await (const event of agent.run(conversation, signal)) {
+        started = true;
+        yield event;
       }
-      
-      // Find the last user message
-      const lastUserIndex = geminiMessages
-        .map((msg, i) => msg.role === "user" ? i : -1)
-        .filter(i => i !== -1)
-        .pop();
-      
-      if (lastUserIndex === undefined) {
-        throw new Error("No user messages found");
+    } catch (error) {
+      if (started || signal?.aborted) {
+        throw error;
       }
-      
-      // Get history (all messages before the last user message)
-      const historyMessages = geminiMessages.slice(0, lastUserIndex);
-      
-      // Get the message to send (the last user message)
-      let messageToSend = geminiMessages[lastUserIndex].parts[0].text;
-      
-      // If we have system content, incorporate it into the user's message in a way that
-      // doesn't interfere with the actual query but provides context
-      if (systemContent && systemContent.length > 0) {
-        // Create a condensed version of the system content to avoid token limits
-        const maxSystemContentLength = 1500; // Limit system content to avoid token limits
-        let condensedSystemContent = systemContent;
-        if (systemContent.length > maxSystemContentLength) {
-          // Extract key sections if it's too long
-          condensedSystemContent = systemContent.substring(0, maxSystemContentLength) + "...";
-        }
-        
-        // Add the system content as context before the user's message
-        messageToSend = `I'm asking about this repository with the following context:\n\n${condensedSystemContent}\n\nMy question is: ${messageToSend}`;
+      // Many local models and some compatible servers reject tool definitions
+      console.warn(`Tool calling failed with ${this.provider.name}, answering without tools:`, error);
+      for await (const token of this.provider.stream(conversation, { signal })) {
+        yield { type: "token", content: token };
       }
+    }
+    console.log(`Finished agent response from ${this.provider.name}`);
+  }
+
+  /**
+   * Adds repository context to the chat messages and shapes them into a
+   * conversation that starts with a user turn and ends with the current question
+   */
+  private async prepareChat(messages: ChatMessage[], withTools: boolean = false): Promise<ChatMessage[]> {
+    // Make sure we have at least one user message
+    if (messages.length === 0 || messages.every(msg => msg.role !== "user")) {
+      throw new Error("At least one user message is required");
+    }
+
+    // Fit the prompt into this model's context window, leaving room for tool results if the model may call tools
+    const limits = getModelLimits(this.provider.model);
+    const budget = new TokenBudget(
+      this.provider.model,
+      withTools ? Math.floor(limits.contextWindow * this.TOOL_RESULTS_SHARE) : 0,
+      limits
+    );
+
+    // The context and the question are sent as one user message, framed by these prefixes
+    const repositoryName = this.mcpServer.hasContext() ? this.mcpServer.getContext()?.repositoryName : undefined;
+    const repositoryPrefix = repositoryName ? `I'm asking about the repository ${repositoryName}. ` : "";
+    const contextPrefix = "I'm asking about this repository with the following context:\n\n";
+    const questionPrefix = "\n\nMy question is: ";
+    budget.require("framing", `${repositoryPrefix}${contextPrefix}${questionPrefix}`);
+
+    // Use the MCP server to enhance messages with repository context if available
+    let chatHistory: ChatMessage[];
+    
+    if (this.mcpServer.hasContext()) {
+      console.log("Using MCP server context for chat");
+      // Make a deep copy of messages to avoid modifying the original array
+      const messagesCopy = JSON.parse(JSON.stringify(messages)) as ChatMessage[];
+      
+      // Ensure we're passing fresh messages to the MCP server to enhance
+      this.sources.length = 0;
+      chatHistory = await this.mcpServer.enhanceMessages(messagesCopy, budget, this.sources);
+      
+      // Log the enhanced messages for debugging
+      console.log(`Enhanced messages with repository context. First system message: ${chatHistory[0]?.content?.substring(0, 100)}...`);
+      console.log(`Total messages after enhancement: ${chatHistory.length}`);
+    } else if (this.repoContext) {
+      // Fall back to the old method if MCP server doesn't have context
+      console.log("Using legacy context method for chat");
+      chatHistory = [...messages];
+      
+      // Create a special system message with repository context
+      const systemMessage: ChatMessage = {
+        role: "assistant",
+        content: `I am an AI assistant that has analyzed the following repository:\n\n${this.repoContext}\n\nI will answer questions about this specific repository based on my analysis.`
+      };
       
-      // Log what we're sending to help with debugging
-      console.log(`Sending message to Gemini: ${messageToSend.substring(0, 100)}...`);
-      console.log(`With ${historyMessages.length} history messages`);
-      
-      // For Gemini 1.5, we need to include important context directly in the message
-      // Let's check if we have a repository context from MCP server
-      let contextEnhancedMessage = messageToSend;
-      
-      if (mcpServer.hasContext()) {
-        const context = mcpServer.getContext();
-        if (context) {
-          // Add a brief context reminder to the message itself
-          contextEnhancedMessage = `I'm asking about the repository ${context.repositoryName}. ${messageToSend}`;
-          console.log(`Enhanced message with repository context: ${context.repositoryName}`);
-        }
+      // Add the system message at the beginning if it's not already there
+      if (chatHistory.length === 0 || 
+          chatHistory[0].role !== "assistant" || 
+          !chatHistory[0].content.includes("I am an AI assistant that has analyzed")) {
+        chatHistory.unshift(systemMessage);
       }
       
-      // Start chat with history
-      const chat = this.model.startChat({
-        history: historyMessages,
-      });
-      
-      console.log("Started chat with Gemini model");
-      
-      // Send the enhanced message and get response
-      const result = await chat.sendMessage(contextEnhancedMessage);
-      console.log("Received response from Gemini");
+      // Find the first user message
+      const firstUserMessageIndex = chatHistory.findIndex(msg => msg.role === "user");
       
-      return result.response.text();
-    } catch (error) {
-      console.error("Error in chat:", error);
-      return "I'm sorry, I encountered an error while processing your question. Please try again.";
+      // Enhance the first user message with a reminder about the context
+      if (firstUserMessageIndex >= 0) {
+        chatHistory[firstUserMessageIndex] = {
+          ...chatHistory[firstUserMessageIndex],
+          content: `Question about the analyzed repository: ${chatHistory[firstUserMessageIndex].content}`,
+        };
+      }
+    } else {
+      console.log("No repository context available for chat");
+      chatHistory = [...messages];
+    }
+    
+    // Extract the system content (a leading assistant message added for context).
+    // We prepend it to the user's message instead of sending it as a separate turn.
+    const conversation = [...chatHistory];
+    let systemContent = "";
+    if (conversation.length > 0 && conversation[0].role === "assistant") {
+      systemContent = conversation[0].content;
+      console.log(`Found system message (${systemContent.length} chars)`);
+      conversation.shift();
+    }
+    
+    // Ensure the history starts with a user message; most chat APIs require it
+    while (conversation.length > 0 && conversation[0].role === "assistant") {
+      conversation.shift();
+    }
+    
+    // Find the last user message
+    const lastUserIndex = conversation
+      .map((msg, i) => msg.role === "user" ? i : -1)
+      .filter(i => i !== -1)
+      .pop();
+    
+    if (lastUserIndex === undefined) {
+      throw new Error("No user messages found");
     }
+    
+    // Get history (all messages before the last user message); the MCP server has already fitted it
+    let historyMessages = conversation.slice(0, lastUserIndex);
+    if (!this.mcpServer.hasContext()) {
+      budget.require("context", systemContent);
+      budget.require("question", conversation[lastUserIndex].content);
+      historyMessages = budget
+        .fitItems("recent turns", [...historyMessages].reverse(), (msg) => msg.content)
+        .reverse();
+      // Most chat APIs require the history to start with a user message
+      while (historyMessages.length > 0 && historyMessages[0].role === "assistant") {
+        historyMessages.shift();
+      }
+      budget.log();
+    }
+    
+    // Get the message to send (the last user message)
+    let messageToSend = conversation[lastUserIndex].content;
+    
+    // If we have system content, incorporate it into the user's message in a way that
+    // doesn't interfere with the actual query but provides context. It already fits the token budget.
+    if (systemContent && systemContent.length > 0) {
+      messageToSend = `${contextPrefix}${systemContent}${questionPrefix}${messageToSend}`;
+    }
+    
+    // Log what we're sending to help with debugging
+    console.log(`Sending message to ${this.provider.name} (${this.provider.model}): ${messageToSend.substring(0, 100)}...`);
+    console.log(`With ${historyMessages.length} history messages`);
+    
+    // Include a brief context reminder in the message itself
+    const contextEnhancedMessage = `${repositoryPrefix}${messageToSend}`;
+    if (repositoryName) {
+      console.log(`Enhanced message with repository context: ${repositoryName}`);
+    }
+    
+    return [
+      ...historyMessages,
+      { role: "user", content: contextEnhancedMessage },
+    ];
   }
 }
@@ -1,36 +1,35 @@
 /**
- * MCP (Model Control Protocol) Server for Gemini API
+ * MCP (Model Control Protocol) Server for the LLM chat
  * This provides better context management for repository analysis
  */
 
-import { ChatMessage } from "./gemini-service";
+import { ChatMessage } from "../llm/types";
 import { RepoAnalysisData } from "../github/github-service";
+import { formatTree } from "../github/tree-utils";
+import { formatDependencies } from "../github/manifest-parsers";
+import {
+  findDependencyPaths,
+  summarizeDependencyGraph,
+} from "../github/lockfile-parsers";
+import {
+  formatWorkspace,
+  generateWorkspaceDiagram,
+} from "../github/workspace-detector";
+import { formatRetrievedChunks, RepositoryIndex } from "../retrieval/repository-index";
+import { CITATION_INSTRUCTION, CodeSource } from "../agent/citations";
+import { TokenBudget } from "../llm/token-budget";
 
 import { AIAnalysisResult } from "./gemini-service";
 
-export interface RepositoryAnalysisContext {
-  repoData: {
-    fullName: string;
-    url: string;
-    description: string;
-    language: string;
-    stargazersCount: number;
-    forksCount: number;
-    topics: string[];
-  };
-  repoContent: {
-    dependencies: Record<string, string>;
-    folderStructure: Array<{
-      name: string;
-      type: string;
-      children?: unknown[];
-    }>;
-    commits: Array<{ date: string; message: string; author: string }>;
-    languages: Record<string, number>;
-  };
+/**
+ * The analysis a chat session is about, as stored with the session
+ */
+export interface RepositoryAnalysisContext extends RepoAnalysisData {
   aiAnalysis: AIAnalysisResult;
   setupInstructions?: string;
   workflowDiagram?: string;
+  packageDiagram?: string;
+  report?: string; // Full analysis report, sent with chat messages; absent in sessions stored before it was kept
 }
 
 export interface MCPContext {
@@ -43,26 +42,28 @@ export interface MCPContext {
 }
 
 export class MCPServer {
-  private context: MCPContext | null = null;
-  private readonly STORAGE_KEY = "gitflow_ai_chat_history";
-  private readonly CONTEXT_STORAGE_KEY = "gitflow_ai_context";
-  private readonly MAX_HISTORY_LENGTH = 50; // Maximum number of messages to store
-
-  constructor() {
-    // Try to load context from storage when the class is instantiated
-    const storedContext = this.loadContextFromStorage();
-    if (storedContext) {
-      this.context = storedContext;
-      console.log(
-        `MCP Server initialized with stored context for repository: ${this.context.repositoryName}`
-      );
-    }
+  private context: MCPContext | null;
+  private readonly MAX_STORED_MESSAGES = 500; // Messages kept in the stored history; the token budget decides what is sent
+  private readonly RETRIEVED_CHUNKS = 8; // Code chunks retrieved for each question
+  private readonly RETRIEVED_SHARE = 0.4; // Share of the free context window for retrieved code
+  private readonly RECENT_TURNS_SHARE = 0.5; // Share of what is then left for recent turns, sent in full
+  private readonly REPORT_SHARE = 0.75; // Share of what is then left for the repository report; older history gets the rest
+  private readonly SUMMARY_LINE_LENGTH = 200; // Characters of each older turn kept in the history summary
+  private index: RepositoryIndex | null = null; // Built from the fetched files on the first question
+
+  /**
+   * @param context Previously persisted context to restore, if any
+   */
+  constructor(context: MCPContext | null = null) {
+    this.context = context;
   }
 
   /**
    * Initialize the MCP server with repository context
    */
   initialize(repoData: RepoAnalysisData, aiAnalysis: AIAnalysisResult): void {
+    this.index = null;
+
     // Create a new context object with all required fields
     this.context = {
       repositoryName: repoData.repoData.fullName,
@@ -93,69 +94,42 @@ export class MCPServer {
       if (aiAnalysis.workflowDiagram) {
         this.context.analysisData.workflowDiagram = aiAnalysis.workflowDiagram;
       }
-    }
 
-    // Save the context to ensure it persists between server-side requests
-    this.saveContextToStorage();
-
-    // Store the complete repository analysis for reference
-    if (this.context) {
-      const repositoryAnalysis = this.generateRepositoryAnalysis(
-        repoData,
-        aiAnalysis
-      );
-      // Check if localStorage is available (browser environment) before using it
-      if (typeof localStorage !== "undefined") {
-        localStorage.setItem(
-          `${this.STORAGE_KEY}_analysis_${repoData.repoData.fullName}`,
-          repositoryAnalysis
-        );
-        console.log(
-          `Stored complete repository analysis (${repositoryAnalysis.length} chars)`
-        );
-      } else {
-        console.log(
-          `Generated repository analysis (${repositoryAnalysis.length} chars) but storage not available in this environment`
+      // Store the workspace package graph for monorepos
+      if (repoData.repoContent.workspace?.packages.length) {
+        this.context.analysisData.packageDiagram = generateWorkspaceDiagram(
+          repoData.repoContent.workspace
         );
       }
     }
 
-    // Load existing chat history from local storage if it exists
-    const existingChatHistory = this.loadChatHistoryFromStorage(
-      repoData.repoData.fullName
-    );
-    if (existingChatHistory && existingChatHistory.length > 0) {
-      this.context.chatHistory = existingChatHistory;
-      console.log(
-        `Loaded ${existingChatHistory.length} messages from chat history`
+    // Keep the complete repository analysis with the context, which is persisted with the session
+    if (this.context.analysisData) {
+      this.context.analysisData.report = this.generateRepositoryAnalysis(
+        repoData,
+        aiAnalysis
       );
-    } else {
-      // Add an initial system message to the chat history
-      const initialMessage: ChatMessage = {
-        role: "assistant",
-        content: `I have successfully analyzed the repository ${
-          repoData.repoData.fullName
-        }. This is a ${repoData.repoData.language} project with ${
-          Object.keys(repoData.repoContent.dependencies).length
-        } dependencies. You can ask me questions about the codebase structure, functionality, or how to set it up.`,
-      };
-      this.context.chatHistory = [initialMessage];
-      this.saveChatHistoryToStorage(
-        repoData.repoData.fullName,
-        this.context.chatHistory
+      console.log(
+        `Generated repository analysis (${this.context.analysisData.report.length} chars)`
       );
     }
 
+    // Add an initial system message to the chat history
+    const initialMessage: ChatMessage = {
+      role: "assistant",
+      content: `I have successfully analyzed the repository ${
+        repoData.repoData.fullName
+      }. This is a ${repoData.repoData.language} project with ${
+        Object.keys(repoData.repoContent.dependencies).length
+      } dependencies. You can ask me questions about the codebase structure, functionality, or how to set it up.`,
+    };
+    this.context.chatHistory = [initialMessage];
+
     console.log(
       "MCP Server initialized with repository context:",
       this.context?.repositoryName || "unknown"
     );
     console.log("Technology stack:", aiAnalysis.technologyStack.join(", "));
-    console.log(
-      `Loaded ${
-        this.context.chatHistory?.length || 0
-      } messages from chat history`
-    );
   }
 
   /**
@@ -180,6 +154,8 @@ export class MCPServer {
 ## Repository Information
 - Name: ${repo.name}
 - Full Name: ${repo.fullName}
+- Ref: ${repo.ref || repo.defaultBranch}${repo.sha ? ` (${repo.sha})` : ""}
+- Scope: ${repo.path || "Entire repository"}
 - Description: ${repo.description || "No description available"}
 - Primary Language: ${repo.language || "Unknown"}
 - Stars: ${repo.stargazersCount}
@@ -209,14 +185,26 @@ ${aiAnalysis.workflowDiagram ? 'Mermaid diagram available in the UI' : 'No workf
 ## Folder Structure
 ${folderStructure}
 
+## Workspace Packages
+${content.workspace ? formatWorkspace(content.workspace) : "Not a monorepo workspace"}
+
 ## Content Summary
 ${contentSummary}
 
+## Key Source Files
+${
+  content.files
+    ?.map((file) => `- ${file.path} (${file.reasons.join(", ")})`)
+    .join("\n") || "No source files fetched"
+}
+
 ## Dependencies
 ${
-  Object.entries(content.dependencies || {})
-    .map(([name, version]) => `- ${name}: ${version}`)
-    .join("\n") || "No dependencies found"
+  (content.dependencyDetails?.length
+    ? formatDependencies(content.dependencyDetails)
+    : Object.entries(content.dependencies || {})
+        .map(([name, version]) => `- ${name}: ${version}`)
+        .join("\n")) || "No dependencies found"
 }
 
 ## Languages Used
@@ -247,8 +235,10 @@ ${
     repoData: RepoAnalysisData,
     aiAnalysis: AIAnalysisResult
   ): string {
-    const dependencies = repoData.repoContent.dependencies;
-    const hasPackageJson = Object.keys(dependencies).length > 0;
+    const ecosystems = new Set(
+      repoData.repoContent.dependencyDetails.map((dep) => dep.ecosystem)
+    );
+    const hasPackageJson = ecosystems.has("npm");
     const language = repoData.repoData.language?.toLowerCase() || "";
     const techStack = aiAnalysis.technologyStack.map((tech) =>
       tech.toLowerCase()
@@ -290,6 +280,7 @@ ${
       }
     } else if (
       language === "python" ||
+      ecosystems.has("pypi") ||
       techStack.some((tech) => ["python", "django", "flask"].includes(tech))
     ) {
       instructions += `## Python Setup\n`;
@@ -325,6 +316,12 @@ ${
     }
 
     instructions += `\n## Additional Information\n`;
+    if (repoData.repoData.path) {
+      instructions += `- This analysis covers the \`${repoData.repoData.path}\` subdirectory; run the commands above from there (\`cd ${repoData.repoData.path}\`) unless the root README says otherwise\n`;
+    }
+    if (repoData.repoData.ref && repoData.repoData.ref !== repoData.repoData.defaultBranch) {
+      instructions += `- This analysis covers \`${repoData.repoData.ref}\`; check it out with \`git checkout ${repoData.repoData.ref}\`\n`;
+    }
     instructions += `- Main language: ${repoData.repoData.language}\n`;
     instructions += `- Technology stack: ${aiAnalysis.technologyStack.join(
       ", "
@@ -337,165 +334,11 @@ ${
    * Reset the MCP server context
    */
   reset(): void {
-    if (this.context) {
-      // Clear chat history from storage before resetting context
-      this.clearChatHistoryFromStorage(this.context.repositoryName);
-      // Clear context from storage
-      this.clearContextFromStorage();
-    }
     this.context = null;
+    this.index = null;
     console.log("MCP Server context reset");
   }
 
-  /**
-   * Save context to storage for persistence between server-side requests
-   */
-  private saveContextToStorage(): void {
-    try {
-      // For browser environment
-      if (
-        typeof window !== "undefined" &&
-        typeof localStorage !== "undefined"
-      ) {
-        localStorage.setItem(
-          this.CONTEXT_STORAGE_KEY,
-          JSON.stringify(this.context)
-        );
-        console.log("Context saved to localStorage");
-        return;
-      }
-
-      // For server environment, use global variable
-      if (typeof global !== "undefined") {
-        // Use a safer type than 'any'
-        (global as Record<string, unknown>).__MCP_SERVER_CONTEXT__ =
-          this.context;
-        console.log("Context saved to global variable");
-      }
-    } catch (error) {
-      console.error("Error saving context to storage:", error);
-    }
-  }
-
-  /**
-   * Load context from storage
-   */
-  private loadContextFromStorage(): MCPContext | null {
-    try {
-      // For browser environment
-      if (
-        typeof window !== "undefined" &&
-        typeof localStorage !== "undefined"
-      ) {
-        const storedContext = localStorage.getItem(this.CONTEXT_STORAGE_KEY);
-        if (storedContext) {
-          console.log("Context loaded from localStorage");
-          return JSON.parse(storedContext) as MCPContext;
-        }
-      }
-
-      // For server environment, use global variable
-      if (
-        typeof global !== "undefined" &&
-        (global as Record<string, unknown>).__MCP_SERVER_CONTEXT__
-      ) {
-        console.log("Context loaded from global variable");
-        return (global as Record<string, unknown>)
-          .__MCP_SERVER_CONTEXT__ as MCPContext;
-      }
-
-      return null;
-    } catch (error) {
-      console.error("Error loading context from storage:", error);
-      return null;
-    }
-  }
-
-  /**
-   * Clear context from storage
-   */
-  private clearContextFromStorage(): void {
-    try {
-      // For browser environment
-      if (
-        typeof window !== "undefined" &&
-        typeof localStorage !== "undefined"
-      ) {
-        localStorage.removeItem(this.CONTEXT_STORAGE_KEY);
-        console.log("Context cleared from localStorage");
-      }
-
-      // For server environment, use global variable
-      if (typeof global !== "undefined") {
-        delete (global as Record<string, unknown>).__MCP_SERVER_CONTEXT__;
-        console.log("Context cleared from global variable");
-      }
-    } catch (error) {
-      console.error("Error clearing context from storage:", error);
-    }
-  }
-
-  /**
-   * Load chat history from local storage
-   */
-  private loadChatHistoryFromStorage(repoName: string): ChatMessage[] | null {
-    try {
-      if (typeof window === "undefined") {
-        // Running on server-side, no localStorage available
-        return null;
-      }
-
-      const storageKey = `${this.STORAGE_KEY}_${repoName}`;
-      const storedData = localStorage.getItem(storageKey);
-
-      if (!storedData) {
-        return null;
-      }
-
-      return JSON.parse(storedData) as ChatMessage[];
-    } catch (error) {
-      console.error("Error loading chat history from storage:", error);
-      return null;
-    }
-  }
-
-  /**
-   * Save chat history to local storage
-   */
-  private saveChatHistoryToStorage(
-    repoName: string,
-    messages: ChatMessage[]
-  ): void {
-    try {
-      if (typeof window === "undefined") {
-        // Running on server-side, no localStorage available
-        return;
-      }
-
-      const storageKey = `${this.STORAGE_KEY}_${repoName}`;
-      localStorage.setItem(storageKey, JSON.stringify(messages));
-    } catch (error) {
-      console.error("Error saving chat history to storage:", error);
-    }
-  }
-
-  /**
-   * Clear chat history from local storage
-   */
-  private clearChatHistoryFromStorage(repoName: string): void {
-    try {
-      if (typeof window === "undefined") {
-        // Running on server-side, no localStorage available
-        return;
-      }
-
-      const storageKey = `${this.STORAGE_KEY}_${repoName}`;
-      localStorage.removeItem(storageKey);
-    } catch (error) {
-      console.error("Error clearing chat history from storage:", error);
-    }
-  }
-
   /**
    * Add a message to the chat history
    */
@@ -512,20 +355,14 @@ ${
     this.context.chatHistory.push(message);
 
     // Trim history if it exceeds the maximum length
-    if (this.context.chatHistory.length > this.MAX_HISTORY_LENGTH) {
+    if (this.context.chatHistory.length > this.MAX_STORED_MESSAGES) {
       // Keep the first message (system message) and the most recent messages
       const systemMessage = this.context.chatHistory[0];
       const recentMessages = this.context.chatHistory.slice(
-        -this.MAX_HISTORY_LENGTH + 1
+        -this.MAX_STORED_MESSAGES + 1
       );
       this.context.chatHistory = [systemMessage, ...recentMessages];
     }
-
-    // Save the updated history to local storage
-    this.saveChatHistoryToStorage(
-      this.context.repositoryName,
-      this.context.chatHistory
-    );
   }
 
   /**
@@ -569,10 +406,15 @@ ${
       });
     };
 
-    // Start building the tree
-    treeString += `${this.context.repositoryName}\n`;
+    // Start building the tree (rooted at the scoped subdirectory, if any)
+    const scopePath = this.context.analysisData.repoData.path;
+    treeString += `${this.context.repositoryName}${scopePath ? `/${scopePath}` : ""}\n`;
     buildTree(folderStructure);
 
+    if (this.context.analysisData.repoContent.folderStructureTruncated) {
+      treeString += "(tree truncated: some entries were omitted)\n";
+    }
+
     return treeString;
   }
 
@@ -589,6 +431,12 @@ ${
 
     // Add dependencies information
     if (Object.keys(repoContent.dependencies).length > 0) {
+      const manifests = new Set(
+        (repoContent.dependencyDetails || []).map((dep) => `${dep.manifestPath} (${dep.ecosystem})`)
+      );
+      if (manifests.size > 0) {
+        summary += `Dependency Manifests: ${Array.from(manifests).join(", ")}\n`;
+      }
       summary += "Key Dependencies:\n";
       const topDependencies = Object.entries(repoContent.dependencies)
         .slice(0, 10) // Limit to top 10 dependencies
@@ -597,6 +445,18 @@ ${
       summary += topDependencies + "\n\n";
     }
 
+    // Add workspace package inventory
+    if (repoContent.workspace?.packages.length) {
+      summary += "Workspace Packages:\n";
+      summary += `  ${formatWorkspace(repoContent.workspace).replace(/\n/g, "\n  ")}\n\n`;
+    }
+
+    // Add resolved dependency graph information
+    if (repoContent.dependencyGraph?.packages.length) {
+      summary += "Resolved Dependency Graph:\n";
+      summary += `  ${summarizeDependencyGraph(repoContent.dependencyGraph).replace(/\n/g, "\n  ")}\n\n`;
+    }
+
     // Add languages information
     if (Object.keys(repoContent.languages).length > 0) {
       summary += "Languages:\n";
@@ -629,19 +489,107 @@ ${
   }
 
   /**
-   * Check if the MCP server has context
+   * Index the fetched source files and the README for retrieval
    */
-  hasContext(): boolean {
-    // If context is not loaded yet, try to load it from storage
-    if (this.context === null) {
-      const storedContext = this.loadContextFromStorage();
-      if (storedContext) {
-        this.context = storedContext;
-        console.log(
-          `MCP Server loaded context from storage for repository: ${this.context.repositoryName}`
-        );
+  getRepositoryIndex(): RepositoryIndex | null {
+    const repoContent = this.context?.analysisData?.repoContent;
+    if (!repoContent) {
+      return null;
+    }
+
+    if (!this.index) {
+      const files = (repoContent.files || []).map((file) => ({ path: file.path, content: file.content }));
+      if (repoContent.readme) {
+        const scope = this.context?.analysisData?.repoData.path;
+        const readmeName =
+          repoContent.folderStructure.find((node) => node.type === "file" && /^readme/i.test(node.name))?.name ||
+          "README.md";
+        files.push({ path: scope ? `${scope}/${readmeName}` : readmeName, content: repoContent.readme });
       }
+      this.index = new RepositoryIndex(files);
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Retrieve the code most relevant to a question, with file paths and line ranges
+   * @param maxTokens Tokens of the budget the retrieved code may use
+   * @param sources Receives the lines of the chunks sent
+   */
+  private async retrieveCode(
+    query: string,
+    budget: TokenBudget,
+    maxTokens: number,
+    sources: CodeSource[]
+  ): Promise<string> {
+    const index = this.getRepositoryIndex();
+    if (!index || index.size === 0 || !query) {
+      return "";
+    }
+
+    try {
+      const chunks = await index.search(query, this.RETRIEVED_CHUNKS);
+
+      // Keep the best chunks that fit in the budget
+      const selected = budget.fitItems(
+        "retrieved code",
+        chunks,
+        // Chunks are joined by a blank line
+        (chunk) => `${formatRetrievedChunks([chunk])}\n\n`,
+        maxTokens
+      );
+
+      console.log(
+        `Retrieved ${selected.length} chunks for the question: ${selected
+          .map((chunk) => `${chunk.path}:${chunk.startLine}`)
+          .join(", ")}`
+      );
+      sources.push(...selected.map(({ path, startLine, endLine }) => ({ path, startLine, endLine })));
+      return formatRetrievedChunks(selected);
+    } catch (error) {
+      console.error("Error retrieving code for the question:", error);
+      return "";
+    }
+  }
+
+  /**
+   * Explain how packages mentioned in the query end up in the dependency tree
+   */
+  private generateDependencyPaths(query: string): string {
+    const graph = this.context?.analysisData?.repoContent.dependencyGraph;
+    if (!graph || graph.packages.length === 0 || !query) {
+      return "";
     }
+
+    // Match whole package names only, so "react" doesn't match "react-dom"
+    const lowerQuery = query.toLowerCase();
+    const isMentioned = (name: string) => {
+      const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      return new RegExp(`(^|[^\\w@/.-])${escaped}($|[^\\w/-])`).test(lowerQuery);
+    };
+
+    const mentioned = Array.from(new Set(graph.packages.map((pkg) => pkg.name)))
+      .filter((name) => name.length > 2 && isMentioned(name))
+      .slice(0, 3);
+
+    return mentioned
+      .map((name) => {
+        const versions = graph.packages
+          .filter((pkg) => pkg.name === name)
+          .map((pkg) => `${pkg.version}${pkg.direct ? " (direct)" : ""}`);
+        const paths = findDependencyPaths(graph, name)
+          .map((path) => `  - ${path.join(" > ")}`)
+          .join("\n");
+        return `${name}: resolved versions ${versions.join(", ")}\n${paths || "  - no dependency chain recorded"}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Check if the MCP server has context
+   */
+  hasContext(): boolean {
     return this.context !== null;
   }
 
@@ -653,21 +601,34 @@ ${
   }
 
   /**
-   * Enhance messages with repository context
+   * Summarize a turn of older conversation history as one line
+   */
+  private summarizeTurn(message: ChatMessage): string {
+    const text = message.content.replace(/\s+/g, " ").trim();
+    // The first sentence, if it is short enough, else the start of the turn
+    const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] || text;
+    const summary =
+      sentence.length <= this.SUMMARY_LINE_LENGTH
+        ? sentence
+        : `${sentence.substring(0, this.SUMMARY_LINE_LENGTH)}...`;
+    return `${message.role === "user" ? "User" : "Assistant"}: ${summary}`;
+  }
+
+  /**
+   * Enhance messages with repository context and the code retrieved for the current question,
+   * fitting the instructions, retrieved code, recent turns, repository report and a summary
+   * of older turns into the model's context window, in that order of priority
+   * @param budget The model's context window; what is dropped to fit it is logged
+   * @param sources Receives the lines of the code retrieved for the question, for the answer's citations
    */
-  enhanceMessages(messages: ChatMessage[]): ChatMessage[] {
-    // Try to load context if it's not already loaded
+  async enhanceMessages(
+    messages: ChatMessage[],
+    budget: TokenBudget = new TokenBudget(""),
+    sources: CodeSource[] = []
+  ): Promise<ChatMessage[]> {
     if (!this.context) {
-      const storedContext = this.loadContextFromStorage();
-      if (storedContext) {
-        this.context = storedContext;
-        console.log(
-          `MCP Server loaded context from storage for repository: ${this.context.repositoryName}`
-        );
-      } else {
-        console.log("No context available for enhancing messages");
-        return messages;
-      }
+      console.log("No context available for enhancing messages");
+      return messages;
     }
 
     // Add new messages to history
@@ -696,20 +657,11 @@ ${
       contentSummary = this.generateContentSummary();
     }
 
-    // Load the complete repository analysis from storage
+    // Use the complete repository analysis stored with the session
     let repositoryAnalysis = "";
     try {
       if (this.context && this.context.repositoryName) {
-        // Check if localStorage is available (browser environment) before using it
-        let storedAnalysis = null;
-        if (
-          typeof localStorage !== "undefined" &&
-          typeof window !== "undefined"
-        ) {
-          storedAnalysis = localStorage.getItem(
-            `${this.STORAGE_KEY}_analysis_${this.context.repositoryName}`
-          );
-        }
+        const storedAnalysis = this.context.analysisData?.report;
 
         if (storedAnalysis) {
           repositoryAnalysis = storedAnalysis;
@@ -764,25 +716,10 @@ ${contentSummary}
       }
     }
 
-    // Create conversation history string using stored history for better context
-    const storedHistory = this.context.chatHistory || [];
-    const history = storedHistory
-      .map((msg, i) => {
-        // Skip the first few messages if there are many
-        if (storedHistory.length > 10 && i < storedHistory.length - 10)
-          return null;
-        return `${
-          msg.role === "user" ? "User" : "Assistant"
-        }: ${msg.content.substring(0, 100)}${
-          msg.content.length > 100 ? "..." : ""
-        }`;
-      })
-      .filter(Boolean)
-      .join("\n");
-
     // Get the current query (last user message)
     const currentQuery =
       messages.filter((msg) => msg.role === "user").pop()?.content || "";
+    const dependencyPaths = this.generateDependencyPaths(currentQuery);
 
     // Add a system message at the beginning with repository context
     const systemMessage: ChatMessage = {
@@ -792,20 +729,31 @@ ${contentSummary}
 CODEBASE INFORMATION:
 - Repository: ${this.context.repositoryName}
 - URL: ${this.context.repositoryUrl}
+- Analyzed ref: ${this.context.analysisData?.repoData.ref || "default branch"}${
+        this.context.analysisData?.repoData.sha
+          ? ` (${this.context.analysisData.repoData.sha})`
+          : ""
+      }${
+        this.context.analysisData?.repoData.path
+          ? `
+- Scope: only the subdirectory ${this.context.analysisData.repoData.path} was analyzed; answer about it unless asked otherwise
+- Surrounding Repository Layout:
+${formatTree(this.context.analysisData.repoContent.repositoryOverview?.tree || [])}`
+          : ""
+      }
 - Description: ${this.context.repositoryDescription}
 - Primary language: ${this.context.analysisData?.repoData.language || "Unknown"}
 - Technology stack: ${
         this.context.analysisData?.aiAnalysis.technologyStack.join(", ") ||
         "Unknown"
       }
-- Folder Structure:
-${folderStructure}
-- File Content Summary:
-${contentSummary}
-
-CONVERSATION HISTORY:
-${history}
-
+${
+  dependencyPaths
+    ? `- Dependency Paths For Packages In The Query:
+${dependencyPaths}
+`
+    : ""
+}
 CURRENT QUERY:
 ${currentQuery}
 
@@ -814,12 +762,13 @@ INSTRUCTIONS:
 2. Match your response length and detail to the specificity of the query:
    - For broad questions (e.g., "What is this repo about?"), provide brief 3-5 line summaries
    - For specific technical questions, provide detailed explanations
-3. Search the codebase content thoroughly before responding.
-4. Prioritize recent conversation history to maintain context.
+3. Search the codebase content thoroughly before responding. Code retrieved for the question is
+   attached to it; base explanations of how the code works on that code rather than the README.
+4. Prioritize recent conversation history to maintain context; earlier turns are summarized before these instructions.
 5. When answering:
    - Begin with a direct answer to the query
    - Include relevant code snippets only when specifically helpful
-   - Reference specific files and line numbers when appropriate
+   - Back claims about the code with citations (see CITATIONS below)
    - Suggest improvements or alternatives when explicitly requested
    - Include links to external sources when relevant
 6. If the query is unclear or ambiguous, ask clarifying questions to gather more information.
@@ -833,9 +782,11 @@ FORMAT GUIDELINES:
 - Include file paths when showing code from specific files (e.g., "From \`src/main.py\`:") 
 - Never nest code blocks or make the entire response a code block
 - Use bullet points or numbered lists for multi-step instructions
-- Link to files in the codebase using format: [filename](path/to/file)
 - Make sure to enclose mermaid code in \`\`\`mermaid<code>\`\`\` code blocks
 
+CITATIONS:
+${CITATION_INSTRUCTION}
+
 RESPONSE LENGTH GUIDELINES:
 - For overview/general questions: 3-5 lines maximum
 - For conceptual explanations: 5-10 lines
@@ -907,30 +858,78 @@ STRICT RULES:
 10. ALWAYS remember that you have already analyzed the repository and have all necessary context`,
     };
 
-    // Create a system message that includes the complete repository analysis
-    const systemMessageWithAnalysis: ChatMessage = {
+    // Enhance user messages with a context reminder
+    const withReminder = (msg: ChatMessage): ChatMessage =>
+      msg.role === "user"
+        ? {
+            role: "user",
+            content: `Question about the repository ${this.context?.repositoryName} that you've already analyzed: ${msg.content}`,
+          }
+        : msg;
+    const lastUserIndex = messages.lastIndexOf(lastUserMessage as ChatMessage);
+    const currentMessage = withReminder(messages[lastUserIndex]);
+    const earlierMessages = messages.slice(0, Math.max(lastUserIndex, 0));
+
+    // The instructions, the question and the headings and blank lines joining the parts
+    // are sent whole; the rest is fitted by priority
+    const summaryHeading = "EARLIER CONVERSATION (summarized):\n";
+    const retrievedHeading = "Relevant code retrieved from the repository for this question:\n\n";
+    budget.require("instructions", systemMessage.content);
+    budget.require("question", currentMessage.content);
+    budget.require("headings", `${summaryHeading}${retrievedHeading}${"\n\n".repeat(3)}`);
+
+    const retrievedCode = await this.retrieveCode(
+      currentQuery,
+      budget,
+      budget.share(this.RETRIEVED_SHARE),
+      sources
+    );
+
+    // Recent turns are kept newest first, the older ones summarized in the space left
+    const recentMessages = budget
+      .fitItems(
+        "recent turns",
+        [...earlierMessages].reverse().map(withReminder),
+        (msg) => msg.content,
+        budget.share(this.RECENT_TURNS_SHARE)
+      )
+      .reverse();
+    const olderMessages = earlierMessages.slice(0, earlierMessages.length - recentMessages.length);
+
+    const report = budget.fitText(
+      "repository report",
+      repositoryAnalysis,
+      budget.share(this.REPORT_SHARE)
+    );
+
+    const olderSummary = budget
+      .fitItems(
+        "older history",
+        olderMessages.map((msg) => this.summarizeTurn(msg)).reverse(),
+        (line) => `${line}\n`
+      )
+      .reverse()
+      .join("\n");
+
+    budget.log();
+
+    // Add the system message with the repository report and the summary of older turns first
+    enhancedMessages.push({
       role: "assistant",
-      content: `${repositoryAnalysis}
+      content: `${report}
 
-${systemMessage.content}`,
-    };
+${olderSummary ? `${summaryHeading}${olderSummary}\n\n` : ""}${systemMessage.content}`,
+    });
 
-    // Add the enhanced system message first
-    enhancedMessages.push(systemMessageWithAnalysis);
-
-    // Then add all the user messages with enhanced context
-    for (const msg of messages) {
-      if (msg.role === "user") {
-        // Enhance user messages with context reminder
-        enhancedMessages.push({
-          role: "user",
-          content: `Question about the repository ${this.context.repositoryName} that you've already analyzed: ${msg.content}`,
-        });
-      } else if (msg.role === "assistant" && msg !== systemMessage) {
-        // Add assistant messages as is (except the system message which we've already added)
-        enhancedMessages.push(msg);
-      }
-    }
+    // Then the recent turns and the current question, which also gets the retrieved code
+    enhancedMessages.push(...recentMessages, {
+      role: "user",
+      content: `${
+        retrievedCode
+          ? `${retrievedHeading}${retrievedCode}\n\n`
+          : ""
+      }${currentMessage.content}`,
+    });
 
     // Log the enhanced messages for debugging
     console.log(
@@ -947,6 +946,3 @@ ${systemMessage.content}`,
     return enhancedMessages;
   }
 }
-
-// Create a singleton instance
-export const mcpServer = new MCPServer();
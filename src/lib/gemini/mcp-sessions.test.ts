@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStorage } from "../storage";
+import { MCPServer } from "./mcp-server";
+import { MCPSessionManager } from "./mcp-sessions";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function createServer(repositoryName: string): MCPServer {
+  return new MCPServer({
+    repositoryName,
+    repositoryUrl: `https://github.com/${repositoryName}`,
+    repositoryDescription: "",
+    analysisComplete: true,
+    chatHistory: [],
+  });
+}
+
+describe("MCPSessionManager", () => {
+  beforeEach(() => {
+    vi.stubEnv("STORAGE_BACKEND", "memory");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const globalStore = global as Record<string, unknown>;
+    delete globalStore.__STORAGE__;
+    delete globalStore.__MCP_SESSIONS__;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("deletes stored sessions that have not been used for a week", async () => {
+    const sessions = new MCPSessionManager();
+    const old = await sessions.create(createServer("acme/old"));
+
+    vi.setSystemTime(Date.now() + 3 * DAY);
+    const active = await sessions.create(createServer("acme/active"));
+
+    // Chatting keeps a session from expiring
+    vi.setSystemTime(Date.now() + 5 * DAY);
+    (await sessions.get(active))?.getContext()?.chatHistory?.push({ role: "user", content: "Still here" });
+    await sessions.saveChatHistory(active);
+
+    vi.setSystemTime(Date.now() + 3 * DAY);
+    const latest = await sessions.create(createServer("acme/latest"));
+
+    expect(await getStorage().loadSession(old)).toBeNull();
+    expect(await sessions.get(old)).toBeNull();
+    expect(await sessions.get(active)).not.toBeNull();
+    expect(await sessions.get(latest)).not.toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { randomUUID } from "crypto";
+import { MCPServer } from "./mcp-server";
+import { getStorage } from "../storage";
+
+interface MCPSession {
+  server: MCPServer;
+  createdAt: number;
+  lastAccessedAt: number;
+  size: number; // Approximate memory used by the context, in bytes
+}
+
+/**
+ * Holds one MCP server context per analysis session, so concurrent users
+ * chatting about different repositories never see each other's context.
+ * Sessions are persisted to the storage backend; eviction only unloads them from memory,
+ * and stored sessions are deleted once they have not been used for a week.
+ */
+export class MCPSessionManager {
+  private sessions: Map<string, MCPSession>;
+  private readonly SESSION_TTL = 2 * 60 * 60 * 1000; // Unload sessions idle for two hours
+  private readonly MAX_SESSIONS = 50; // Least recently used sessions are unloaded beyond this
+  private readonly MAX_TOTAL_SIZE = 256 * 1024 * 1024; // Approximate memory budget for all contexts
+  private readonly STORAGE_TTL = 7 * 24 * 60 * 60 * 1000; // Delete stored sessions not written to for a week
+  private readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // Look for expired stored sessions at most once an hour
+  private lastCleanupAt = 0;
+
+  constructor() {
+    // Share sessions between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__MCP_SESSIONS__) {
+      globalStore.__MCP_SESSIONS__ = new Map<string, MCPSession>();
+    }
+    this.sessions = globalStore.__MCP_SESSIONS__ as Map<string, MCPSession>;
+  }
+
+  /**
+   * Registers an initialized server, persists it and returns the ID clients send with chat requests
+   */
+  async create(server: MCPServer): Promise<string> {
+    const context = server.getContext();
+    if (!context) {
+      throw new Error("Cannot create a chat session without repository context");
+    }
+
+    const sessionId = randomUUID();
+    const now = Date.now();
+    const { chatHistory, ...analysis } = context;
+    await getStorage().saveSession({ id: sessionId, createdAt: now, updatedAt: now, context: analysis });
+    await getStorage().saveChatHistory(sessionId, chatHistory || []);
+
+    this.sessions.set(sessionId, {
+      server,
+      createdAt: now,
+      lastAccessedAt: now,
+      size: this.estimateSize(server),
+    });
+    console.log(`Created MCP session ${sessionId} for ${context.repositoryName}`);
+
+    this.evict();
+    await this.deleteExpired(now);
+    return sessionId;
+  }
+
+  /**
+   * Returns the server for a session, loading it from storage if it is not in memory.
+   * Returns null if the session does not exist.
+   */
+  async get(sessionId: string): Promise<MCPServer | null> {
+    this.evict();
+
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastAccessedAt = Date.now();
+      return session.server;
+    }
+
+    try {
+      const storage = getStorage();
+      const stored = await storage.loadSession(sessionId);
+      if (!stored) {
+        return null;
+      }
+
+      const chatHistory = await storage.loadChatHistory(sessionId);
+      const server = new MCPServer({ ...stored.context, chatHistory });
+      const now = Date.now();
+      this.sessions.set(sessionId, {
+        server,
+        createdAt: stored.createdAt,
+        lastAccessedAt: now,
+        size: this.estimateSize(server),
+      });
+      console.log(
+        `Loaded MCP session ${sessionId} from storage with ${chatHistory.length} messages`
+      );
+
+      this.evict();
+      return server;
+    } catch (error) {
+      console.error(`Error loading MCP session ${sessionId} from storage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Persists the current chat history of a loaded session
+   */
+  async saveChatHistory(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      await getStorage().saveChatHistory(sessionId, session.server.getContext()?.chatHistory || []);
+    } catch (error) {
+      console.error(`Error saving chat history for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Removes a session from memory and from storage
+   */
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    await getStorage().deleteSession(sessionId);
+  }
+
+  /**
+   * Deletes sessions that have not been written to within STORAGE_TTL from storage and memory.
+   * Runs when a new analysis adds a session, at most once per CLEANUP_INTERVAL.
+   */
+  private async deleteExpired(now: number): Promise<void> {
+    if (now - this.lastCleanupAt < this.CLEANUP_INTERVAL) {
+      return;
+    }
+    this.lastCleanupAt = now;
+
+    try {
+      const expired = await getStorage().deleteExpiredSessions(now - this.STORAGE_TTL);
+      expired.forEach((sessionId) => this.sessions.delete(sessionId));
+      if (expired.length > 0) {
+        console.log(`Deleted ${expired.length} expired MCP sessions`);
+      }
+    } catch (error) {
+      console.error("Error deleting expired MCP sessions:", error);
+    }
+  }
+
+  /**
+   * Unloads expired sessions, then the least recently used ones until the caps are met
+   */
+  private evict(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, sessionId) => {
+      if (now - session.lastAccessedAt > this.SESSION_TTL) {
+        this.sessions.delete(sessionId);
+        console.log(`Unloaded idle MCP session ${sessionId}`);
+      }
+    });
+
+    const byLastAccess = Array.from(this.sessions.entries()).sort(
+      ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt
+    );
+    let totalSize = byLastAccess.reduce((total, [, session]) => total + session.size, 0);
+
+    for (const [sessionId, session] of byLastAccess) {
+      if (this.sessions.size <= this.MAX_SESSIONS && totalSize <= this.MAX_TOTAL_SIZE) break;
+      // Never evict the only session, even if it is over budget on its own
+      if (this.sessions.size === 1) break;
+      this.sessions.delete(sessionId);
+      totalSize -= session.size;
+      console.log(`Unloaded MCP session ${sessionId} to stay within memory limits`);
+    }
+  }
+
+  private estimateSize(server: MCPServer): number {
+    try {
+      // JavaScript strings use two bytes per character
+      return JSON.stringify(server.getContext()).length * 2;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+// Create a singleton instance
+export const mcpSessions = new MCPSessionManager();
@@ -0,0 +1,115 @@
+import { CommitComparison, RepoAnalysisData } from "./github-service";
+
+export interface AnalysisChangeDigest {
+  baseSha: string;
+  headSha: string;
+  previousAnalyzedAt: number;
+  commits: CommitComparison["commits"];
+  files: {
+    added: string[];
+    modified: string[];
+    removed: string[];
+    renamed: Array<{ from: string; to: string }>;
+  };
+  filesTruncated: boolean;
+  dependencies: {
+    added: string[];
+    removed: string[];
+    updated: Array<{ name: string; from: string; to: string }>;
+  };
+  updatedSections: string[]; // Fields of the AI analysis that the update changed
+}
+
+const MAX_FORMATTED_FILES = 100; // Changed files listed per status in prompts
+
+/**
+ * Summarizes what changed between a previous analysis and the current snapshot
+ * @param scopePath Only changes inside this subdirectory are included
+ */
+export function buildChangeDigest(
+  comparison: CommitComparison,
+  previous: RepoAnalysisData,
+  current: RepoAnalysisData,
+  previousAnalyzedAt: number,
+  scopePath: string = ""
+): AnalysisChangeDigest {
+  const inScope = (path: string) => !scopePath || path.startsWith(`${scopePath}/`);
+  const files: AnalysisChangeDigest["files"] = { added: [], modified: [], removed: [], renamed: [] };
+
+  comparison.files
+    .filter((file) => inScope(file.path) || (file.previousPath !== undefined && inScope(file.previousPath)))
+    .forEach((file) => {
+      if (file.status === "renamed") {
+        files.renamed.push({ from: file.previousPath || file.path, to: file.path });
+      } else {
+        files[file.status].push(file.path);
+      }
+    });
+
+  // Compare dependency declarations by manifest, so moves between packages show up too
+  const toVersions = (data: RepoAnalysisData) =>
+    new Map(
+      data.repoContent.dependencyDetails.map((dep) => [`${dep.manifestPath}: ${dep.name}`, dep.version])
+    );
+  const before = toVersions(previous);
+  const after = toVersions(current);
+  const dependencies: AnalysisChangeDigest["dependencies"] = { added: [], removed: [], updated: [] };
+
+  after.forEach((version, name) => {
+    const previousVersion = before.get(name);
+    if (previousVersion === undefined) {
+      dependencies.added.push(`${name}@${version}`);
+    } else if (previousVersion !== version) {
+      dependencies.updated.push({ name, from: previousVersion, to: version });
+    }
+  });
+  before.forEach((version, name) => {
+    if (!after.has(name)) {
+      dependencies.removed.push(`${name}@${version}`);
+    }
+  });
+
+  return {
+    baseSha: comparison.baseSha,
+    headSha: comparison.headSha,
+    previousAnalyzedAt,
+    commits: comparison.commits,
+    files,
+    filesTruncated: comparison.filesTruncated,
+    dependencies,
+    updatedSections: [],
+  };
+}
+
+/**
+ * Renders a change digest for prompts
+ */
+export function formatChangeDigest(digest: AnalysisChangeDigest): string {
+  const list = (items: string[]) =>
+    items
+      .slice(0, MAX_FORMATTED_FILES)
+      .map((item) => `- ${item}`)
+      .concat(items.length > MAX_FORMATTED_FILES ? [`- ... and ${items.length - MAX_FORMATTED_FILES} more`] : [])
+      .join("\n");
+
+  const sections = [
+    `## Commits (${digest.commits.length})\n${digest.commits
+      .map((commit) => `- ${commit.sha.substring(0, 7)} ${commit.message.split("\n")[0]} (${commit.author})`)
+      .join("\n")}`,
+    digest.files.added.length ? `## Added Files\n${list(digest.files.added)}` : "",
+    digest.files.modified.length ? `## Modified Files\n${list(digest.files.modified)}` : "",
+    digest.files.removed.length ? `## Removed Files\n${list(digest.files.removed)}` : "",
+    digest.files.renamed.length
+      ? `## Renamed Files\n${list(digest.files.renamed.map((rename) => `${rename.from} -> ${rename.to}`))}`
+      : "",
+    digest.dependencies.added.length ? `## Added Dependencies\n${list(digest.dependencies.added)}` : "",
+    digest.dependencies.removed.length ? `## Removed Dependencies\n${list(digest.dependencies.removed)}` : "",
+    digest.dependencies.updated.length
+      ? `## Updated Dependencies\n${list(
+          digest.dependencies.updated.map((dep) => `${dep.name}: ${dep.from} -> ${dep.to}`)
+        )}`
+      : "",
+  ];
+
+  return sections.filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,196 @@
+import { TreeNode } from "./github-service";
+import { flattenTree } from "./tree-utils";
+
+export interface FileCandidate {
+  path: string;
+  size: number;
+  score: number;
+  reasons: string[];
+}
+
+// File extensions associated with the languages reported by GitHub
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  TypeScript: [".ts", ".tsx", ".mts", ".cts"],
+  JavaScript: [".js", ".jsx", ".mjs", ".cjs"],
+  Python: [".py"],
+  Go: [".go"],
+  Rust: [".rs"],
+  Java: [".java"],
+  Kotlin: [".kt", ".kts"],
+  Ruby: [".rb"],
+  PHP: [".php"],
+  "C#": [".cs"],
+  "C++": [".cpp", ".cc", ".cxx", ".hpp"],
+  C: [".c", ".h"],
+  Swift: [".swift"],
+  Dart: [".dart"],
+  Scala: [".scala"],
+  Elixir: [".ex", ".exs"],
+  Vue: [".vue"],
+  Svelte: [".svelte"],
+};
+
+const ENTRY_POINT_PATTERN =
+  /^(index|main|app|server|cli|__main__|manage|wsgi|asgi|lib|mod|program|startup)\.[a-z]+$/i;
+
+const CONFIG_FILES = new Set([
+  "package.json",
+  "tsconfig.json",
+  "pyproject.toml",
+  "setup.py",
+  "setup.cfg",
+  "cargo.toml",
+  "go.mod",
+  "pom.xml",
+  "build.gradle",
+  "build.gradle.kts",
+  "settings.gradle",
+  "composer.json",
+  "gemfile",
+  "pubspec.yaml",
+  "dockerfile",
+  "docker-compose.yml",
+  "docker-compose.yaml",
+  "makefile",
+  ".env.example",
+]);
+
+const CONFIG_FILE_PATTERN =
+  /^(next|vite|webpack|rollup|nuxt|svelte|astro|tailwind|jest|vitest|babel|remix)\.config\.[a-z]+$/i;
+
+const ROUTE_PATH_PATTERN =
+  /(^|\/)(routes?|api|controllers?|handlers?|endpoints?|views)\/|(^|\/)(route|router|routes|urls)\.[a-z]+$/i;
+
+const IGNORED_PATH_PATTERN =
+  /(^|\/)(node_modules|vendor|dist|build|out|target|\.git|\.next|coverage|__pycache__|\.venv|venv)\//;
+
+const IGNORED_FILE_PATTERN =
+  /(\.min\.(js|css)$|\.map$|\.lock$|-lock\.(json|yaml)$|\.(png|jpe?g|gif|svg|ico|webp|pdf|zip|gz|tar|woff2?|ttf|eot|mp4|mp3|wasm|exe|dll|so|dylib|jar|class|pyc)$)/i;
+
+/**
+ * Ranks repository files by how useful they are for understanding the codebase
+ * @param tree The nested folder structure of the repository
+ * @param readme README content, used to find referenced files
+ * @param primaryLanguage The primary language reported by GitHub
+ * @param maxFileSize Files larger than this many bytes are skipped. Files listed with size 0
+ * are kept, since some APIs (GitLab) list files without sizes; empty ones are dropped once fetched.
+ */
+export function rankImportantFiles(
+  tree: TreeNode[],
+  readme: string,
+  primaryLanguage: string,
+  maxFileSize: number
+): FileCandidate[] {
+  const files = flattenTree(tree).filter(
+    (node) =>
+      node.type === "file" &&
+      node.size <= maxFileSize &&
+      !IGNORED_PATH_PATTERN.test(node.path) &&
+      !IGNORED_FILE_PATTERN.test(node.name)
+  );
+
+  const candidates = new Map<string, FileCandidate>();
+  const addReason = (node: TreeNode, reason: string, score: number) => {
+    const existing = candidates.get(node.path);
+    if (existing) {
+      existing.reasons.push(reason);
+      // Files that match several criteria get a small bonus
+      existing.score = Math.max(existing.score, score) + 5;
+    } else {
+      candidates.set(node.path, {
+        path: node.path,
+        size: node.size,
+        score,
+        reasons: [reason],
+      });
+    }
+  };
+
+  const depthOf = (path: string) => path.split("/").length - 1;
+
+  for (const file of files) {
+    const depth = depthOf(file.path);
+    const lowerName = file.name.toLowerCase();
+
+    if (ENTRY_POINT_PATTERN.test(file.name) && depth <= 3) {
+      addReason(file, "entry point", 100 - depth * 5);
+    }
+
+    if ((CONFIG_FILES.has(lowerName) || CONFIG_FILE_PATTERN.test(file.name)) && depth <= 2) {
+      addReason(file, "config file", 85 - depth * 5);
+    }
+
+    if (ROUTE_PATH_PATTERN.test(file.path)) {
+      addReason(file, "route", 70 - depth * 2);
+    }
+
+    if (readme && isReferencedInReadme(file, readme)) {
+      addReason(file, "referenced in README", 75);
+    }
+  }
+
+  // Largest files of the primary language usually hold the core logic
+  const extensions =
+    Object.entries(LANGUAGE_EXTENSIONS).find(
+      ([language]) => language.toLowerCase() === primaryLanguage.toLowerCase()
+    )?.[1] || [];
+  if (extensions.length > 0) {
+    files
+      .filter((file) => extensions.some((ext) => file.name.toLowerCase().endsWith(ext)))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, 5)
+      .forEach((file) => addReason(file, `large ${primaryLanguage} file`, 60));
+  }
+
+  return Array.from(candidates.values()).sort(
+    (a, b) => b.score - a.score || a.path.localeCompare(b.path)
+  );
+}
+
+/**
+ * Checks whether the README mentions a file by path or by a distinctive name
+ */
+function isReferencedInReadme(file: TreeNode, readme: string): boolean {
+  if (readme.includes(file.path)) {
+    return true;
+  }
+
+  // Only match bare file names that are specific enough to avoid noise
+  return file.name.length > 6 && file.name.includes(".") && readme.includes(`\`${file.name}\``);
+}
+
+/**
+ * Totals file sizes by language, inferred from file extensions
+ */
+export function countLanguageBytes(nodes: TreeNode[]): { [language: string]: number } {
+  const bytesByLanguage: { [language: string]: number } = {};
+
+  for (const node of flattenTree(nodes)) {
+    if (node.type !== "file" || IGNORED_PATH_PATTERN.test(node.path)) continue;
+    const lowerName = node.name.toLowerCase();
+    const language = Object.entries(LANGUAGE_EXTENSIONS).find(([, extensions]) =>
+      extensions.some((ext) => lowerName.endsWith(ext))
+    )?.[0];
+    if (language) {
+      bytesByLanguage[language] = (bytesByLanguage[language] || 0) + node.size;
+    }
+  }
+
+  return bytesByLanguage;
+}
+
+/**
+ * Infers the dominant language of a set of files from their extensions, by total size
+ */
+export function inferLanguage(nodes: TreeNode[]): string {
+  let best = "";
+  let bestBytes = 0;
+  Object.entries(countLanguageBytes(nodes)).forEach(([language, bytes]) => {
+    if (bytes > bestBytes) {
+      best = language;
+      bestBytes = bytes;
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,120 @@
+export type GitHubErrorKind = "not_found" | "forbidden" | "rate_limited" | "network" | "unknown";
+
+/**
+ * A repository API failure, classified so callers can tell a missing file from a rate limit.
+ * Raised by every repository provider, not only GitHub.
+ */
+export class GitHubServiceError extends Error {
+  readonly kind: GitHubErrorKind;
+  readonly status?: number;
+  readonly resetAt?: number; // When the rate limit resets, in milliseconds since the epoch
+
+  constructor(message: string, kind: GitHubErrorKind, status?: number, resetAt?: number) {
+    super(message);
+    this.name = "GitHubServiceError";
+    this.kind = kind;
+    this.status = status;
+    this.resetAt = resetAt;
+  }
+}
+
+interface RequestErrorLike {
+  status?: number;
+  message?: string;
+  response?: {
+    headers?: Record<string, string | number | undefined>;
+  };
+}
+
+/**
+ * Classifies an Octokit (or Octokit-shaped) request error
+ * @param action What was being done, for the error message, e.g. "fetch the README"
+ * @param service Name of the API, for the error message, e.g. "GitLab"
+ */
+export function toGitHubServiceError(error: unknown, action: string, service: string = "GitHub"): GitHubServiceError {
+  if (error instanceof GitHubServiceError) {
+    return error;
+  }
+
+  const { status, message = "", response } = (error || {}) as RequestErrorLike;
+  const headers = response?.headers || {};
+
+  // Octokit reports fetch failures as status 500 without a response
+  if (!response || status === undefined) {
+    return new GitHubServiceError(`Could not reach ${service} to ${action}: ${message}`, "network", status);
+  }
+
+  if (
+    status === 429 ||
+    (status === 403 && (String(headers["x-ratelimit-remaining"]) === "0" || /rate limit/i.test(message)))
+  ) {
+    const retryAfter = Number(headers["retry-after"]);
+    // GitLab sends RateLimit-Reset without the X- prefix
+    const reset = Number(headers["x-ratelimit-reset"] ?? headers["ratelimit-reset"]);
+    const resetAt = retryAfter
+      ? Date.now() + retryAfter * 1000
+      : reset
+        ? reset * 1000
+        : undefined;
+    return new GitHubServiceError(`${service} rate limit exceeded while trying to ${action}`, "rate_limited", status, resetAt);
+  }
+
+  if (status === 401 || status === 403) {
+    return new GitHubServiceError(`Access denied while trying to ${action}`, "forbidden", status);
+  }
+
+  if (status === 404) {
+    return new GitHubServiceError(`Not found while trying to ${action}`, "not_found", status);
+  }
+
+  return new GitHubServiceError(`${service} request failed while trying to ${action}: ${message}`, "unknown", status);
+}
+
+/**
+ * Whether an error means the requested resource does not exist (as opposed to a failed request)
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return toGitHubServiceError(error, "").kind === "not_found";
+}
+
+/**
+ * HTTP status API routes respond with for each kind of GitHub failure
+ */
+export function getGitHubErrorStatus(kind: GitHubErrorKind): number {
+  switch (kind) {
+    case "not_found":
+      return 404;
+    case "forbidden":
+      return 403;
+    case "rate_limited":
+      return 429;
+    default:
+      return 502;
+  }
+}
+
+/**
+ * User-facing explanation of a repository API error, shown by the UI
+ * @param service Name of the repository host; only GitHub accounts can be connected in the app
+ */
+export function describeGitHubError(kind: GitHubErrorKind, resetAt?: number, service: string = "GitHub"): string {
+  const connectable = service === "GitHub";
+  switch (kind) {
+    case "not_found":
+      return connectable
+        ? "Repository, branch or path not found. Check the URL, or connect GitHub to analyze private repositories."
+        : "Repository, branch or path not found. Check the URL, or ask the server administrator to configure a token for private repositories.";
+    case "forbidden":
+      return connectable
+        ? "GitHub denied access to this repository. Connect a GitHub account or token with access to it."
+        : `${service} denied access to this repository. The token configured for this host needs access to it.`;
+    case "rate_limited":
+      return `${service} API rate limit exceeded. ${
+        resetAt ? `Try again after ${new Date(resetAt).toLocaleTimeString()}` : "Try again later"
+      }${connectable ? ", or connect GitHub for a higher limit" : ""}.`;
+    case "network":
+      return `Could not reach ${service}. Check your connection and try again.`;
+    default:
+      return `${service} returned an unexpected error. Please try again.`;
+  }
+}
@@ -0,0 +1,74 @@
+export interface GitHubHost {
+  host: string; // e.g. "github.com" or "git.example.com"
+  webUrl: string; // e.g. "https://git.example.com"
+  apiUrl: string; // e.g. "https://git.example.com/api/v3"
+  token?: string; // Server-wide token for this host
+  clientId?: string; // OAuth app client ID for device flow sign-in
+  enterprise: boolean;
+}
+
+interface EnterpriseHostConfig {
+  host: string;
+  apiUrl?: string;
+  token?: string;
+  clientId?: string;
+}
+
+export const GITHUB_COM = "github.com";
+
+/**
+ * Lists github.com and the GitHub Enterprise Server hosts configured in
+ * GITHUB_ENTERPRISE_HOSTS, a JSON array of {host, apiUrl?, token?, clientId?}
+ */
+export function getGitHubHosts(env: NodeJS.ProcessEnv = process.env): GitHubHost[] {
+  const hosts: GitHubHost[] = [
+    {
+      host: GITHUB_COM,
+      webUrl: `https://${GITHUB_COM}`,
+      apiUrl: "https://api.github.com",
+      token: env.GITHUB_TOKEN,
+      clientId: env.GITHUB_CLIENT_ID,
+      enterprise: false,
+    },
+  ];
+
+  if (!env.GITHUB_ENTERPRISE_HOSTS) {
+    return hosts;
+  }
+
+  try {
+    const configs = JSON.parse(env.GITHUB_ENTERPRISE_HOSTS) as EnterpriseHostConfig[];
+    if (!Array.isArray(configs)) {
+      throw new Error("Expected a JSON array");
+    }
+
+    for (const config of configs) {
+      if (!config || typeof config.host !== "string" || !config.host) {
+        console.warn("Ignoring GitHub Enterprise host without a host name");
+        continue;
+      }
+      const host = config.host.toLowerCase().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+      hosts.push({
+        host,
+        webUrl: `https://${host}`,
+        // GitHub Enterprise Server serves the REST API under /api/v3
+        apiUrl: (config.apiUrl || `https://${host}/api/v3`).replace(/\/+$/, ""),
+        token: config.token,
+        clientId: config.clientId,
+        enterprise: true,
+      });
+    }
+  } catch (error) {
+    console.error("Invalid GITHUB_ENTERPRISE_HOSTS configuration:", (error as Error).message);
+  }
+
+  return hosts;
+}
+
+/**
+ * Returns the configuration of a host, or null if it is not configured
+ */
+export function getGitHubHost(host: string, env: NodeJS.ProcessEnv = process.env): GitHubHost | null {
+  return getGitHubHosts(env).find((candidate) => candidate.host === host.toLowerCase()) || null;
+}
+
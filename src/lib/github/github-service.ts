@@ -1,5 +1,7 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { Octokit } from "octokit";
+import { GitHubServiceError, isNotFoundError, toGitHubServiceError } from "./github-errors";
+import { githubResponseCache } from "./response-cache";
+import { BaseRepositoryProvider, RepoCommit } from "../repository/repository-provider";
 
 // Define types for repository data
 export interface RepoData {
@@ -13,6 +15,9 @@ export interface RepoData {
   forksCount: number;
   openIssuesCount: number;
   defaultBranch: string;
+  ref: string;
+  sha: string;
+  path: string;
   createdAt: string;
   updatedAt: string;
   pushedAt: string;
@@ -26,12 +31,110 @@ export interface RepoData {
   };
 }
 
+export interface ResolvedRef {
+  ref: string;
+  sha: string;
+  path: string;
+}
+
+export interface TreeNode {
+  name: string;
+  path: string;
+  type: "file" | "dir" | "submodule";
+  size: number;
+  children?: TreeNode[];
+}
+
+export interface RepoTree {
+  entries: TreeNode[];
+  truncated: boolean;
+  totalEntries: number;
+}
+
+export interface RepoFile {
+  path: string;
+  size: number;
+  content: string;
+  reasons: string[];
+}
+
+export type DependencyEcosystem =
+  | "npm"
+  | "pypi"
+  | "go"
+  | "cargo"
+  | "rubygems"
+  | "maven"
+  | "gradle"
+  | "composer"
+  | "pub"
+  | "nuget";
+
+export type DependencyScope = "runtime" | "dev" | "build";
+
+export interface Dependency {
+  ecosystem: DependencyEcosystem;
+  manifestPath: string;
+  name: string;
+  version: string;
+  scope: DependencyScope;
+}
+
+export interface ResolvedPackage {
+  id: string;
+  name: string;
+  version: string;
+  ecosystem: DependencyEcosystem;
+  direct: boolean;
+  dependencies: string[];
+}
+
+export interface ResolvedDependencyGraph {
+  lockfiles: string[];
+  packages: ResolvedPackage[];
+}
+
+export interface RepositoryOverview {
+  tree: TreeNode[];
+  readmeExcerpt: string;
+}
+
+export type WorkspaceTool =
+  | "npm"
+  | "yarn"
+  | "pnpm"
+  | "lerna"
+  | "nx"
+  | "turborepo"
+  | "cargo"
+  | "go"
+  | "gradle";
+
+export interface WorkspacePackage {
+  name: string;
+  path: string;
+  language: string;
+  dependencies: string[]; // External dependency names declared by the package
+  internalDependencies: string[]; // Names of other workspace packages it depends on
+}
+
+export interface WorkspaceInfo {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+}
+
 export interface RepoContent {
   readme: string;
   dependencies: {
     [key: string]: string;
   };
-  folderStructure: any;
+  dependencyDetails: Dependency[];
+  dependencyGraph: ResolvedDependencyGraph;
+  folderStructure: TreeNode[];
+  folderStructureTruncated: boolean;
+  files: RepoFile[];
+  repositoryOverview?: RepositoryOverview;
+  workspace?: WorkspaceInfo;
   languages: {
     [key: string]: number;
   };
@@ -48,35 +151,177 @@ export interface RepoAnalysisData {
   repoContent: RepoContent;
 }
 
+export interface ChangedFile {
+  path: string;
+  previousPath?: string; // Set for renamed files
+  status: "added" | "modified" | "removed" | "renamed";
+  additions: number;
+  deletions: number;
+}
+
+export interface CommitComparison {
+  baseSha: string;
+  headSha: string;
+  status: "ahead" | "behind" | "identical" | "diverged";
+  commits: Array<{
+    sha: string;
+    message: string;
+    author: string;
+    date: string;
+  }>;
+  files: ChangedFile[];
+  filesTruncated: boolean; // GitHub lists at most 300 changed files
+}
+
+export interface CommitDetails {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  parents: string[];
+  files: Array<ChangedFile & { patch?: string }>; // Unified diff of each file against the first parent, when available
+  filesTruncated: boolean;
+}
+
+/**
+ * A previous analysis to update instead of fetching everything again
+ */
+export interface AnalysisBaseline {
+  data: RepoAnalysisData;
+  changedPaths: Set<string>; // Paths added, modified, removed or renamed since the baseline
+}
+
+export type AnalysisStageName =
+  | "validation"
+  | "metadata"
+  | "tree"
+  | "manifests"
+  | "files"
+  | "llm"
+  | "diagram";
+
+export interface AnalysisProgressEvent {
+  stage: AnalysisStageName;
+  status: "running" | "done";
+  counts?: Record<string, number>; // e.g. number of files fetched
+}
+
+export type AnalysisProgressCallback = (event: AnalysisProgressEvent) => void;
+
+// Request details passed to the throttling callbacks
+interface RateLimitedRequest {
+  method?: string;
+  url?: string;
+  request?: { retryCount?: number };
+}
+
 /**
  * GitHub service for fetching repository data
  */
-export class GitHubService {
+export class GitHubService extends BaseRepositoryProvider {
   private octokit: Octokit;
+  private readonly MAX_COMPARE_FILES = 300; // GitHub's limit on files listed in a comparison
+  private readonly MAX_COMMIT_FILES = 100; // Files listed for a single commit (one page)
+  private readonly MAX_RATE_LIMIT_WAIT = 60; // Seconds to wait for a rate limit reset before failing
+  private readonly MAX_RETRIES = 3; // Retries for server errors and network failures
 
-  constructor(token?: string) {
+  /**
+   * Use createRepositoryProvider to pick the API URL and token for a repository's host
+   * @param token Token to authenticate with; requests are anonymous without one
+   * @param baseUrl REST API URL, e.g. https://git.example.com/api/v3 for GitHub Enterprise Server
+   */
+  constructor(token?: string, baseUrl: string = "https://api.github.com") {
+    super();
     this.octokit = new Octokit({
-      auth: token || process.env.GITHUB_TOKEN,
+      auth: token,
+      baseUrl,
+      retry: {
+        retries: this.MAX_RETRIES,
+      },
+      throttle: {
+        // Wait out short rate limits once; longer ones fail with the reset time
+        onRateLimit: (retryAfter: number, options: RateLimitedRequest) =>
+          this.shouldRetryRateLimit("Rate limit", retryAfter, options),
+        onSecondaryRateLimit: (retryAfter: number, options: RateLimitedRequest) =>
+          this.shouldRetryRateLimit("Secondary rate limit", retryAfter, options),
+      },
     });
+    githubResponseCache.attach(this.octokit, token);
+  }
+
+  private shouldRetryRateLimit(limit: string, retryAfter: number, options: RateLimitedRequest): boolean {
+    const retry = retryAfter <= this.MAX_RATE_LIMIT_WAIT && (options.request?.retryCount || 0) === 0;
+    console.warn(
+      `${limit} hit for ${options.method} ${options.url}; ${retry ? `retrying in ${retryAfter}s` : "giving up"}`
+    );
+    return retry;
   }
 
   /**
-   * Validates if a repository exists and is accessible
+   * Validates if a repository (and optionally a ref) exists and is accessible.
+   * Returns false if it does not exist; other failures throw a GitHubServiceError.
    */
-  async validateRepo(owner: string, repo: string): Promise<boolean> {
+  async validateRepo(owner: string, repo: string, ref?: string): Promise<boolean> {
     try {
       await this.octokit.rest.repos.get({ owner, repo });
+      if (ref) {
+        await this.resolveRef(owner, repo, ref);
+      }
       return true;
     } catch (error) {
       console.error("Error validating repository:", error);
-      return false;
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw toGitHubServiceError(error, `access ${owner}/${repo}`);
     }
   }
 
+  /**
+   * Resolves a branch, tag or commit SHA to a commit SHA.
+   * Refs may contain slashes (e.g. release/2.x), so when a URL path follows the
+   * ref, progressively longer candidates are tried and the rest is returned as path.
+   */
+  async resolveRef(owner: string, repo: string, ref?: string, path: string = ""): Promise<ResolvedRef> {
+    const name = ref || (await this.octokit.rest.repos.get({ owner, repo })).data.default_branch;
+    const segments = path.split("/").filter(Boolean);
+
+    for (let i = 0; i <= segments.length; i++) {
+      const candidate = [name, ...segments.slice(0, i)].join("/");
+      try {
+        const { data } = await this.octokit.rest.repos.getCommit({
+          owner,
+          repo,
+          ref: candidate,
+          mediaType: {
+            format: "sha",
+          },
+        });
+
+        return {
+          ref: candidate,
+          sha: (data as unknown as string).trim(),
+          path: segments.slice(i).join("/"),
+        };
+      } catch (error) {
+        // GitHub answers 422 for refs that do not exist
+        if (!isNotFoundError(error) && (error as { status?: number }).status !== 422) {
+          throw toGitHubServiceError(error, `resolve ${candidate}`);
+        }
+        if (i === segments.length) {
+          console.error(`Error resolving ref ${name}:`, error);
+        }
+      }
+    }
+
+    throw new GitHubServiceError(`Branch, tag or commit "${name}" not found`, "not_found", 404);
+  }
+
   /**
    * Fetches basic repository data
+   * @param resolvedRef The ref being analyzed; defaults to the default branch
    */
-  async getRepoData(owner: string, repo: string): Promise<RepoData> {
+  async getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData> {
     try {
       const { data } = await this.octokit.rest.repos.get({ owner, repo });
       
@@ -91,6 +336,9 @@ export class GitHubService {
         forksCount: data.forks_count,
         openIssuesCount: data.open_issues_count,
         defaultBranch: data.default_branch,
+        ref: resolvedRef?.ref || data.default_branch,
+        sha: resolvedRef?.sha || "",
+        path: resolvedRef?.path || "",
         createdAt: data.created_at,
         updatedAt: data.updated_at,
         pushedAt: data.pushed_at,
@@ -105,86 +353,44 @@ export class GitHubService {
       };
     } catch (error) {
       console.error("Error fetching repo data:", error);
-      throw new Error("Failed to fetch repository data");
+      throw toGitHubServiceError(error, "fetch repository data");
     }
   }
 
   /**
-   * Fetches README content
+   * Fetches README content, optionally from a subdirectory
    */
-  async getReadme(owner: string, repo: string): Promise<string> {
+  async getReadme(owner: string, repo: string, ref?: string, dir?: string): Promise<string> {
     try {
-      const { data } = await this.octokit.rest.repos.getReadme({
-        owner,
-        repo,
-        mediaType: {
-          format: "raw",
-        },
-      });
+      const { data } = dir
+        ? await this.octokit.rest.repos.getReadmeInDirectory({
+            owner,
+            repo,
+            dir,
+            ref,
+            mediaType: {
+              format: "raw",
+            },
+          })
+        : await this.octokit.rest.repos.getReadme({
+            owner,
+            repo,
+            ref,
+            mediaType: {
+              format: "raw",
+            },
+          });
       
       return data as unknown as string;
     } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw toGitHubServiceError(error, "fetch the README");
+      }
       console.warn("README not found:", error);
       return "";
     }
   }
 
-  /**
-   * Fetches package dependencies
-   */
-  async getDependencies(owner: string, repo: string): Promise<{ [key: string]: string }> {
-    const dependencies: { [key: string]: string } = {};
-    
-    try {
-      // Try to fetch package.json for JavaScript/TypeScript projects
-      const { data: packageJson } = await this.octokit.rest.repos.getContent({
-        owner,
-        repo,
-        path: "package.json",
-      });
-      
-      if ("content" in packageJson) {
-        const content = Buffer.from(packageJson.content, "base64").toString();
-        const parsed = JSON.parse(content);
-        
-        return {
-          ...parsed.dependencies || {},
-          ...parsed.devDependencies || {},
-        };
-      }
-    } catch (error) {
-      console.error("Error fetching dependencies:", error);
-      // package.json not found, try requirements.txt for Python
-      try {
-        const { data: requirementsTxt } = await this.octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path: "requirements.txt",
-        });
-        
-        if ("content" in requirementsTxt) {
-          const content = Buffer.from(requirementsTxt.content, "base64").toString();
-          
-          // Parse requirements.txt format
-          content.split("\n").forEach(line => {
-            const trimmedLine = line.trim();
-            if (trimmedLine && !trimmedLine.startsWith("#")) {
-              const [name, version] = trimmedLine.split("==");
-              if (name) {
-                dependencies[name.trim()] = version ? version.trim() : "latest";
-              }
-            }
-          });
-        }
-      } catch (error) {
-        // Neither package.json nor requirements.txt found
-        console.warn("Dependencies files not found", error);
-      }
-    }
-    
-    return dependencies;
-  }
-
   /**
    * Fetches repository languages
    */
@@ -198,18 +404,20 @@ export class GitHubService {
       return data;
     } catch (error) {
       console.error("Error fetching languages:", error);
-      return {};
+      throw toGitHubServiceError(error, "fetch languages");
     }
   }
 
   /**
-   * Fetches recent commits
+   * Fetches recent commits reachable from a ref, optionally touching a path
    */
-  async getRecentCommits(owner: string, repo: string, count: number = 10): Promise<Array<{ sha: string; message: string; author: string; date: string }>> {
+  async getRecentCommits(owner: string, repo: string, ref?: string, count: number = 10, path?: string): Promise<RepoCommit[]> {
     try {
       const { data } = await this.octokit.rest.repos.listCommits({
         owner,
         repo,
+        sha: ref,
+        path: path || undefined,
         per_page: count,
       });
       
@@ -220,79 +428,238 @@ export class GitHubService {
         date: commit.commit.author?.date || "",
       }));
     } catch (error) {
+      // Empty repositories have no commits (409)
+      if ((error as { status?: number }).status === 409) {
+        return [];
+      }
       console.error("Error fetching commits:", error);
+      throw toGitHubServiceError(error, "fetch recent commits");
+    }
+  }
+
+  /**
+   * Fetches the full folder structure using the git trees API
+   * @param path Optional subdirectory to fetch; node paths stay relative to the repository root
+   */
+  async getFolderStructure(owner: string, repo: string, ref: string = "HEAD", path: string = ""): Promise<RepoTree> {
+    try {
+      const treeSha = path ? await this.getDirectorySha(owner, repo, path, ref) : ref;
+      const prefix = path ? `${path}/` : "";
+
+      const { data } = await this.octokit.rest.git.getTree({
+        owner,
+        repo,
+        tree_sha: treeSha,
+        recursive: "1",
+      });
+
+      return this.buildFolderStructure(
+        data.tree.map((item) => ({
+          path: item.path || "",
+          type: item.type === "tree" ? "dir" : item.type === "commit" ? "submodule" : "file",
+          size: item.size || 0,
+        })),
+        prefix,
+        data.truncated,
+        `${owner}/${repo}`
+      );
+    } catch (error) {
+      console.error("Error fetching folder structure:", error);
+      if (!isNotFoundError(error) && (error as { status?: number }).status !== 409) {
+        throw toGitHubServiceError(error, "fetch the folder structure");
+      }
+      return { entries: [], truncated: false, totalEntries: 0 };
+    }
+  }
+
+  /**
+   * Lists a single directory without recursing into it
+   */
+  async getDirectoryListing(owner: string, repo: string, path: string = "", ref?: string): Promise<TreeNode[]> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+      });
+
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.map((item) => ({
+        name: item.name,
+        path: item.path,
+        type: item.type === "dir" ? "dir" : item.type === "submodule" ? "submodule" : "file",
+        size: item.size,
+      }));
+    } catch (error) {
+      console.error(`Error listing directory ${path || "/"}:`, error);
+      if (!isNotFoundError(error)) {
+        throw toGitHubServiceError(error, `list ${path || "the root directory"}`);
+      }
       return [];
     }
   }
 
   /**
-   * Fetches folder structure (top level)
+   * Looks up the git tree SHA of a directory
+   */
+  private async getDirectorySha(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+    const name = path.slice(parent ? parent.length + 1 : 0);
+
+    const { data } = await this.octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path: parent,
+      ref,
+    });
+
+    const entry = Array.isArray(data) ? data.find((item) => item.name === name && item.type === "dir") : undefined;
+    if (!entry) {
+      throw new GitHubServiceError(`Directory "${path}" not found`, "not_found", 404);
+    }
+
+    return entry.sha;
+  }
+
+  /**
+   * Turns the path from a /tree/ or /blob/ URL into a directory scope.
+   * Blob URLs point at a file, so the file's directory is used instead.
    */
-  async getFolderStructure(owner: string, repo: string): Promise<any> {
+  async resolveScope(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    const trimmedPath = path.replace(/^\/+|\/+$/g, "");
+    if (!trimmedPath) {
+      return "";
+    }
+
     try {
       const { data } = await this.octokit.rest.repos.getContent({
         owner,
         repo,
-        path: "",
+        path: trimmedPath,
+        ref,
       });
-      
+
       if (Array.isArray(data)) {
-        return data.map(item => ({
-          name: item.name,
-          path: item.path,
-          type: item.type,
-          size: item.size,
-        }));
+        return trimmedPath;
       }
-      
-      return [];
+
+      return trimmedPath.includes("/") ? trimmedPath.slice(0, trimmedPath.lastIndexOf("/")) : "";
     } catch (error) {
-      console.error("Error fetching folder structure:", error);
-      return [];
+      console.error(`Error resolving path ${trimmedPath}:`, error);
+      if (!isNotFoundError(error)) {
+        throw toGitHubServiceError(error, `resolve ${trimmedPath}`);
+      }
+      throw new GitHubServiceError(`Path "${trimmedPath}" not found`, "not_found", 404);
     }
   }
 
   /**
-   * Analyzes a repository and returns all relevant data
+   * Fetches a file's raw text through the contents API
    */
-  async analyzeRepository(owner: string, repo: string): Promise<RepoAnalysisData> {
+  protected async fetchFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
     try {
-      // Check if repo exists and is accessible
-      const isValid = await this.validateRepo(owner, repo);
-      if (!isValid) {
-        throw new Error("Repository not found or not accessible");
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+        mediaType: {
+          format: "raw",
+        },
+      });
+
+      // Directories come back as a listing even when raw content is requested
+      return typeof data === "string" ? data : null;
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw toGitHubServiceError(error, `fetch ${path}`);
       }
-      
-      // Fetch all data in parallel
-      const [
-        repoData,
-        readme,
-        dependencies,
-        languages,
-        commits,
-        folderStructure,
-      ] = await Promise.all([
-        this.getRepoData(owner, repo),
-        this.getReadme(owner, repo),
-        this.getDependencies(owner, repo),
-        this.getLanguages(owner, repo),
-        this.getRecentCommits(owner, repo),
-        this.getFolderStructure(owner, repo),
-      ]);
-      
+      console.warn(`Could not fetch file ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compares two commits, listing the commits and files changed between them
+   */
+  async compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison> {
+    try {
+      const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${base}...${head}`,
+        per_page: 100,
+      });
+
+      const files = (data.files || []).map((file) => this.toChangedFile(file));
+
       return {
-        repoData,
-        repoContent: {
-          readme,
-          dependencies,
-          folderStructure,
-          languages,
-          commits,
-        },
+        baseSha: base,
+        headSha: head,
+        status: data.status,
+        commits: data.commits.map((commit) => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author: commit.commit.author?.name || "Unknown",
+          date: commit.commit.author?.date || "",
+        })),
+        files,
+        filesTruncated: files.length >= this.MAX_COMPARE_FILES,
+      };
+    } catch (error) {
+      console.error(`Error comparing ${base}...${head}:`, error);
+      throw toGitHubServiceError(error, `compare ${base}...${head}`);
+    }
+  }
+
+  /**
+   * Fetches a commit with the files it changed and their diffs
+   */
+  async getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails> {
+    try {
+      const { data } = await this.octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref: sha,
+        per_page: this.MAX_COMMIT_FILES,
+      });
+
+      const files = (data.files || []).map((file) => ({ ...this.toChangedFile(file), patch: file.patch }));
+      return {
+        sha: data.sha,
+        message: data.commit.message,
+        author: data.commit.author?.name || "Unknown",
+        date: data.commit.author?.date || "",
+        parents: data.parents.map((parent) => parent.sha),
+        files,
+        filesTruncated: files.length >= this.MAX_COMMIT_FILES,
       };
     } catch (error) {
-      console.error("Error analyzing repository:", error);
-      throw error;
+      console.error(`Error fetching commit ${sha}:`, error);
+      throw toGitHubServiceError(error, `fetch commit ${sha}`);
     }
   }
+
+  private toChangedFile(file: {
+    filename: string;
+    previous_filename?: string;
+    status: string;
+    additions: number;
+    deletions: number;
+  }): ChangedFile {
+    return {
+      path: file.filename,
+      previousPath: file.previous_filename,
+      // Copied and type-changed files are treated like modifications
+      status: ["added", "removed", "renamed"].includes(file.status)
+        ? (file.status as ChangedFile["status"])
+        : "modified",
+      additions: file.additions,
+      deletions: file.deletions,
+    };
+  }
 }
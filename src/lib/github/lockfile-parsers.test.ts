@@ -0,0 +1,465 @@
+import { describe, expect, it } from "vitest";
+import { Dependency, DependencyEcosystem, ResolvedPackage } from "./github-service";
+import { findDependencyPaths, mergeDependencyGraph, parseLockfile } from "./lockfile-parsers";
+
+function declare(ecosystem: DependencyEcosystem, manifestPath: string, versions: Record<string, string>): Dependency[] {
+  return Object.entries(versions).map(([name, version]) => ({ ecosystem, manifestPath, name, version, scope: "runtime" }));
+}
+
+// Packages as `id → [direct, dependencies]`
+type Graph = Record<string, [boolean, string[]]>;
+
+/**
+ * Summarizes parsed packages as a Graph, after checking that no edge points at a missing package
+ */
+function summarize(packages: ResolvedPackage[]): Graph {
+  const ids = new Set(packages.map((pkg) => pkg.id));
+  for (const pkg of packages) {
+    expect(pkg.dependencies.filter((id) => !ids.has(id)), `dangling edges of ${pkg.id}`).toEqual([]);
+  }
+  return Object.fromEntries(packages.map((pkg) => [pkg.id, [pkg.direct, pkg.dependencies]]));
+}
+
+const packageLockV1 = JSON.stringify({
+  lockfileVersion: 1,
+  dependencies: {
+    express: {
+      version: "4.18.2",
+      requires: { debug: "2.6.9" },
+      dependencies: { debug: { version: "2.6.9", requires: { ms: "2.1.2" } } },
+    },
+    debug: { version: "4.3.4", requires: { ms: "2.1.2" } },
+    ms: { version: "2.1.2" },
+  },
+});
+
+const packageLockPackages = (lockfileVersion: number) =>
+  JSON.stringify({
+    lockfileVersion,
+    packages: {
+      "": { name: "app", dependencies: { express: "^4.18.2" }, devDependencies: { vitest: "^3.0.0" } },
+      "node_modules/express": { version: "4.18.2", dependencies: { debug: "2.6.9" } },
+      "node_modules/express/node_modules/debug": { version: "2.6.9", dependencies: { ms: "2.1.2" } },
+      "node_modules/debug": { version: "4.3.4", dependencies: { ms: "^2.1.1" } },
+      "node_modules/ms": { version: "2.1.2" },
+      "node_modules/vitest": { version: "3.2.7", dev: true, dependencies: { debug: "^4.3.4" } },
+      "node_modules/ui": { resolved: "packages/ui", link: true },
+      "packages/ui": { name: "ui", version: "1.0.0", dependencies: { ms: "^2.1.2" } },
+    },
+  });
+
+const yarnClassic = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.24.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz"
+  dependencies:
+    "@babel/types" "^7.24.0"
+    debug "^4.1.0"
+
+"@babel/types@^7.24.0":
+  version "7.24.0"
+
+debug@^4.1.0:
+  version "4.3.4"
+  dependencies:
+    ms "2.1.2"
+  optionalDependencies:
+    supports-color "^8.1.1"
+
+ms@2.1.2:
+  version "2.1.2"
+`;
+
+// Older Berry lockfiles write dependency ranges without the npm: protocol of the keys
+const yarnBerry = `__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@babel/core@npm:^7.0.0":
+  version: 7.24.0
+  resolution: "@babel/core@npm:7.24.0"
+  dependencies:
+    debug: "npm:^4.1.0"
+  languageName: node
+  linkType: hard
+
+"debug@npm:^4.1.0, debug@npm:^4.3.1":
+  version: 4.3.4
+  resolution: "debug@npm:4.3.4"
+  dependencies:
+    ms: 2.1.2
+  languageName: node
+  linkType: hard
+
+"ms@npm:2.1.2":
+  version: 2.1.2
+  resolution: "ms@npm:2.1.2"
+  languageName: node
+  linkType: hard
+`;
+
+const pnpmV5 = `lockfileVersion: 5.4
+
+specifiers:
+  my-ms: npm:ms@^2.1.2
+  react: ^18.2.0
+  react-dom: ^18.2.0
+
+dependencies:
+  my-ms: /ms/2.1.2
+  react: 18.2.0
+  react-dom: 18.2.0_react@18.2.0
+
+packages:
+
+  /js-tokens/4.0.0:
+    resolution: {integrity: sha512-a}
+    dev: false
+
+  /loose-envify/1.4.0:
+    resolution: {integrity: sha512-b}
+    hasBin: true
+    dependencies:
+      js-tokens: 4.0.0
+    dev: false
+
+  /ms/2.1.2:
+    resolution: {integrity: sha512-c}
+    dev: false
+
+  /react-dom/18.2.0_react@18.2.0:
+    resolution: {integrity: sha512-d}
+    peerDependencies:
+      react: ^18.2.0
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.2.0
+    dev: false
+
+  /react/18.2.0:
+    resolution: {integrity: sha512-e}
+    dependencies:
+      loose-envify: 1.4.0
+    dev: false
+`;
+
+const pnpmV6 = `lockfileVersion: '6.0'
+
+dependencies:
+  my-ms:
+    specifier: npm:ms@^2.1.2
+    version: /ms@2.1.2
+  react-dom:
+    specifier: ^18.2.0
+    version: 18.2.0(react@18.2.0)
+
+packages:
+
+  /js-tokens@4.0.0:
+    resolution: {integrity: sha512-a}
+    dev: false
+
+  /loose-envify@1.4.0:
+    resolution: {integrity: sha512-b}
+    dependencies:
+      js-tokens: 4.0.0
+    dev: false
+
+  /ms@2.1.2:
+    resolution: {integrity: sha512-c}
+    dev: false
+
+  /react-dom@18.2.0(react@18.2.0):
+    resolution: {integrity: sha512-d}
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.2.0
+    dev: false
+
+  /react@18.2.0:
+    resolution: {integrity: sha512-e}
+    dependencies:
+      loose-envify: 1.4.0
+    dev: false
+`;
+
+const pnpmV9 = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.2.0(react@18.2.0)
+    devDependencies:
+      '@acme/tool':
+        specifier: ^1.0.0
+        version: 1.0.0
+
+  packages/ui:
+    dependencies:
+      app:
+        specifier: workspace:*
+        version: link:../..
+      my-loose-envify:
+        specifier: npm:loose-envify@^1.4.0
+        version: loose-envify@1.4.0
+
+packages:
+
+  '@acme/tool@1.0.0':
+    resolution: {integrity: sha512-f}
+
+  js-tokens@4.0.0:
+    resolution: {integrity: sha512-a}
+
+  loose-envify@1.4.0:
+    resolution: {integrity: sha512-b}
+
+  ms@2.1.2:
+    resolution: {integrity: sha512-c}
+
+  react-dom@18.2.0:
+    resolution: {integrity: sha512-d}
+    peerDependencies:
+      react: ^18.2.0
+
+  react@18.2.0:
+    resolution: {integrity: sha512-e}
+
+snapshots:
+
+  '@acme/tool@1.0.0':
+    dependencies:
+      tiny-ms: npm:ms@2.1.2
+
+  js-tokens@4.0.0: {}
+
+  loose-envify@1.4.0:
+    dependencies:
+      js-tokens: 4.0.0
+
+  ms@2.1.2: {}
+
+  react-dom@18.2.0(react@18.2.0):
+    dependencies:
+      loose-envify: 1.4.0
+      react: 18.2.0
+
+  react@18.2.0:
+    dependencies:
+      loose-envify: 1.4.0
+`;
+
+const poetryLock = `[[package]]
+name = "Requests"
+version = "2.31.0"
+
+[package.dependencies]
+charset_normalizer = ">=2,<4"
+urllib3 = ">=1.21.1,<3"
+
+[[package]]
+name = "charset-normalizer"
+version = "3.3.2"
+
+[[package]]
+name = "urllib3"
+version = "1.26.18"
+markers = "python_version < \\"3.8\\""
+
+[[package]]
+name = "urllib3"
+version = "2.2.1"
+markers = "python_version >= \\"3.8\\""
+`;
+
+const cargoLock = `version = 3
+
+[[package]]
+name = "app"
+version = "0.1.0"
+dependencies = [
+ "rand 0.8.5",
+ "serde",
+]
+
+[[package]]
+name = "rand"
+version = "0.7.3"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "rand"
+version = "0.8.5"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+dependencies = [
+ "rand_core",
+]
+
+[[package]]
+name = "rand_core"
+version = "0.6.4"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+
+[[package]]
+name = "serde"
+version = "1.0.197"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+`;
+
+const goSum = `github.com/google/uuid v1.6.0 h1:NIvaJDMOsjHA8n1jAhLSgzrAzy1Hgr+hNrb57e+94F0=
+github.com/google/uuid v1.6.0/go.mod h1:TIyPZe4MgqvfeYDBFedMoGGpEw/LqOeaOT+nhxU+yHo=
+golang.org/x/sys v0.18.0/go.mod h1:/VUhepiaJMQUp4+oa/7Zr1D23ma6VTLIYjOOTFZPUcA=
+golang.org/x/text v0.14.0 h1:ScX5w1eTa3QqT8oi6+ziP7dTV1S2+ALU0bI+0zXKWiQ=
+`;
+
+const npmDeclared = declare("npm", "package.json", { express: "^4.18.2", debug: "^4.3.4" });
+
+// Package-lock v1 to v3 share the id, direct flag and edge expectations
+const packageLockGraph: Graph = {
+  "express@4.18.2": [true, ["debug@2.6.9"]],
+  "debug@2.6.9": [false, ["ms@2.1.2"]],
+  "debug@4.3.4": [true, ["ms@2.1.2"]],
+  "ms@2.1.2": [false, []],
+};
+
+// Every pnpm version records the same install, with `my-ms` aliasing ms
+const pnpmGraph: Graph = {
+  "js-tokens@4.0.0": [false, []],
+  "loose-envify@1.4.0": [false, ["js-tokens@4.0.0"]],
+  "ms@2.1.2": [true, []],
+  "react-dom@18.2.0": [true, ["loose-envify@1.4.0", "react@18.2.0"]],
+  "react@18.2.0": [true, ["loose-envify@1.4.0"]],
+};
+
+describe("parseLockfile", () => {
+  it.each<[string, string, string, Dependency[], Graph]>([
+    ["package-lock v1", "package-lock.json", packageLockV1, npmDeclared, packageLockGraph],
+    [
+      "package-lock v2",
+      "package-lock.json",
+      packageLockPackages(2),
+      [],
+      {
+        "express@4.18.2": [true, ["debug@2.6.9"]],
+        "debug@2.6.9": [false, ["ms@2.1.2"]],
+        "debug@4.3.4": [false, ["ms@2.1.2"]],
+        "ms@2.1.2": [true, []],
+        "vitest@3.2.7": [true, ["debug@4.3.4"]],
+      },
+    ],
+    [
+      "npm-shrinkwrap v3",
+      "npm-shrinkwrap.json",
+      packageLockPackages(3),
+      [],
+      {
+        "express@4.18.2": [true, ["debug@2.6.9"]],
+        "debug@2.6.9": [false, ["ms@2.1.2"]],
+        "debug@4.3.4": [false, ["ms@2.1.2"]],
+        "ms@2.1.2": [true, []],
+        "vitest@3.2.7": [true, ["debug@4.3.4"]],
+      },
+    ],
+    [
+      "yarn classic",
+      "yarn.lock",
+      yarnClassic,
+      declare("npm", "package.json", { "@babel/core": "^7.0.0" }),
+      {
+        "@babel/core@7.24.0": [true, ["@babel/types@7.24.0", "debug@4.3.4"]],
+        "@babel/types@7.24.0": [false, []],
+        "debug@4.3.4": [false, ["ms@2.1.2"]],
+        "ms@2.1.2": [false, []],
+      },
+    ],
+    [
+      "yarn berry",
+      "yarn.lock",
+      yarnBerry,
+      declare("npm", "package.json", { "@babel/core": "^7.0.0", debug: "^4.3.1" }),
+      {
+        "@babel/core@7.24.0": [true, ["debug@4.3.4"]],
+        "debug@4.3.4": [true, ["ms@2.1.2"]],
+        "ms@2.1.2": [false, []],
+      },
+    ],
+    ["pnpm v5", "pnpm-lock.yaml", pnpmV5, [], pnpmGraph],
+    [
+      "pnpm v6",
+      "pnpm-lock.yaml",
+      pnpmV6,
+      [],
+      { ...pnpmGraph, "react@18.2.0": [false, ["loose-envify@1.4.0"]] },
+    ],
+    [
+      "pnpm v9",
+      "pnpm-lock.yaml",
+      pnpmV9,
+      [],
+      {
+        "@acme/tool@1.0.0": [true, ["ms@2.1.2"]],
+        ...pnpmGraph,
+        "loose-envify@1.4.0": [true, ["js-tokens@4.0.0"]],
+        "ms@2.1.2": [false, []],
+        "react@18.2.0": [false, ["loose-envify@1.4.0"]],
+      },
+    ],
+    [
+      "poetry",
+      "poetry.lock",
+      poetryLock,
+      declare("pypi", "pyproject.toml", { requests: "^2.31" }),
+      {
+        "requests@2.31.0": [true, ["charset-normalizer@3.3.2", "urllib3@1.26.18", "urllib3@2.2.1"]],
+        "charset-normalizer@3.3.2": [false, []],
+        "urllib3@1.26.18": [false, []],
+        "urllib3@2.2.1": [false, []],
+      },
+    ],
+    [
+      "cargo",
+      "Cargo.lock",
+      cargoLock,
+      [],
+      {
+        "rand@0.7.3": [false, []],
+        "rand@0.8.5": [true, ["rand_core@0.6.4"]],
+        "rand_core@0.6.4": [false, []],
+        "serde@1.0.197": [true, []],
+      },
+    ],
+    [
+      "go.sum",
+      "go.sum",
+      goSum,
+      declare("go", "go.mod", { "github.com/google/uuid": "v1.6.0" }),
+      {
+        "github.com/google/uuid@v1.6.0": [true, []],
+        "golang.org/x/text@v0.14.0": [false, []],
+      },
+    ],
+  ])("parses %s", (_format, path, content, declared, expected) => {
+    expect(summarize(parseLockfile(path, content, declared))).toEqual(expected);
+  });
+
+  it("ignores declared dependencies of other ecosystems and unknown files", () => {
+    const declared = declare("pypi", "requirements.txt", { debug: "^4.1.0" });
+    expect(summarize(parseLockfile("yarn.lock", yarnClassic, declared))["debug@4.3.4"][0]).toBe(false);
+    expect(parseLockfile("Gemfile.lock", "GEM\n", [])).toEqual([]);
+  });
+});
+
+describe("findDependencyPaths", () => {
+  it("follows aliased pnpm edges up to a direct dependency", () => {
+    const graph = mergeDependencyGraph(["pnpm-lock.yaml"], [parseLockfile("pnpm-lock.yaml", pnpmV9, [])]);
+
+    expect(findDependencyPaths(graph, "ms")).toEqual([["@acme/tool@1.0.0", "ms@2.1.2"]]);
+    expect(findDependencyPaths(graph, "js-tokens")).toEqual([["loose-envify@1.4.0", "js-tokens@4.0.0"]]);
+  });
+});
@@ -0,0 +1,591 @@
+import { parse as parseToml } from "smol-toml";
+import { parse as parseYaml } from "yaml";
+import {
+  Dependency,
+  DependencyEcosystem,
+  ResolvedDependencyGraph,
+  ResolvedPackage,
+} from "./github-service";
+
+type Table = Record<string, unknown>;
+
+const isTable = (value: unknown): value is Table =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+interface LockfileParser {
+  ecosystem: DependencyEcosystem;
+  matches: (fileName: string) => boolean;
+  parse: (content: string, declared: Dependency[]) => ResolvedPackage[];
+}
+
+/**
+ * Collects packages while merging duplicate entries for the same name and version
+ */
+class PackageCollector {
+  private packages = new Map<string, ResolvedPackage>();
+
+  constructor(private ecosystem: DependencyEcosystem) {}
+
+  add(name: string, version: string, direct = false): ResolvedPackage {
+    const id = `${name}@${version}`;
+    let pkg = this.packages.get(id);
+    if (!pkg) {
+      pkg = { id, name, version, ecosystem: this.ecosystem, direct, dependencies: [] };
+      this.packages.set(id, pkg);
+    }
+    pkg.direct = pkg.direct || direct;
+    return pkg;
+  }
+
+  get(id: string): ResolvedPackage | undefined {
+    return this.packages.get(id);
+  }
+
+  /**
+   * Records an edge to a package added before; edges to unknown ids are ignored
+   */
+  link(from: ResolvedPackage, toId: string): void {
+    if (from.id !== toId && this.packages.has(toId) && !from.dependencies.includes(toId)) {
+      from.dependencies.push(toId);
+    }
+  }
+
+  markDirect(id: string): void {
+    const pkg = this.packages.get(id);
+    if (pkg) pkg.direct = true;
+  }
+
+  values(): ResolvedPackage[] {
+    return Array.from(this.packages.values());
+  }
+}
+
+/**
+ * Splits an npm-style specifier such as `@scope/name@^1.0.0` into name and range
+ */
+function splitSpecifier(specifier: string): { name: string; range: string } {
+  const at = specifier.indexOf("@", 1);
+  if (at === -1) return { name: specifier, range: "" };
+  return { name: specifier.slice(0, at), range: specifier.slice(at + 1) };
+}
+
+const packageLockParser: LockfileParser = {
+  ecosystem: "npm",
+  matches: (fileName) => fileName === "package-lock.json" || fileName === "npm-shrinkwrap.json",
+  parse: (content, declared) => {
+    const lock = JSON.parse(content);
+    const collector = new PackageCollector("npm");
+
+    if (isTable(lock.packages)) {
+      // lockfileVersion 2 and 3: flat map of install paths
+      const entries = lock.packages as Record<string, Table>;
+      const nameFromPath = (path: string) => path.slice(path.lastIndexOf("node_modules/") + "node_modules/".length);
+
+      // Resolve a dependency the way Node does: nearest node_modules walking upwards
+      const resolve = (fromPath: string, name: string): string | null => {
+        let base = fromPath;
+        while (true) {
+          const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+          if (entries[candidate]) return candidate;
+          if (!base) return null;
+          const index = base.lastIndexOf("/node_modules/");
+          base = index === -1 ? "" : base.slice(0, index);
+        }
+      };
+
+      const idForPath = new Map<string, string>();
+      for (const [path, entry] of Object.entries(entries)) {
+        if (!path.includes("node_modules/") || entry.link || typeof entry.version !== "string") continue;
+        idForPath.set(path, collector.add(nameFromPath(path), entry.version).id);
+      }
+
+      for (const [path, entry] of Object.entries(entries)) {
+        const isRoot = !path.includes("node_modules/");
+        const requires = {
+          ...(isTable(entry.dependencies) ? entry.dependencies : {}),
+          ...(isTable(entry.optionalDependencies) ? entry.optionalDependencies : {}),
+          ...(isRoot && isTable(entry.devDependencies) ? entry.devDependencies : {}),
+        };
+
+        const fromId = idForPath.get(path);
+        const from = fromId ? collector.get(fromId) : undefined;
+        for (const name of Object.keys(requires)) {
+          const target = resolve(path, name);
+          const targetId = target ? idForPath.get(target) : undefined;
+          if (!targetId) continue;
+          if (isRoot) {
+            // The root project and workspace packages declare the direct dependencies
+            collector.markDirect(targetId);
+          } else if (from) {
+            collector.link(from, targetId);
+          }
+        }
+      }
+    } else if (isTable(lock.dependencies)) {
+      // lockfileVersion 1: nested dependency objects
+      const directNames = new Set(declared.map((dep) => dep.name));
+      const walk = (deps: Table, scopes: Array<Record<string, string>>) => {
+        const scope: Record<string, string> = {};
+        for (const [name, entry] of Object.entries(deps)) {
+          if (isTable(entry) && typeof entry.version === "string") {
+            scope[name] = collector.add(name, entry.version).id;
+          }
+        }
+        const visible = [scope, ...scopes];
+
+        for (const [name, entry] of Object.entries(deps)) {
+          if (!isTable(entry) || !scope[name]) continue;
+          const pkg = collector.get(scope[name])!;
+          const nested = isTable(entry.dependencies) ? entry.dependencies : {};
+          const nestedScope: Record<string, string> = {};
+          for (const [nestedName, nestedEntry] of Object.entries(nested)) {
+            if (isTable(nestedEntry) && typeof nestedEntry.version === "string") {
+              nestedScope[nestedName] = collector.add(nestedName, nestedEntry.version).id;
+            }
+          }
+          for (const required of Object.keys(isTable(entry.requires) ? entry.requires : {})) {
+            const targetId = [nestedScope, ...visible].map((s) => s[required]).find(Boolean);
+            if (targetId) collector.link(pkg, targetId);
+          }
+          if (Object.keys(nested).length > 0) {
+            walk(nested, visible);
+          }
+        }
+
+        if (scopes.length === 0) {
+          Object.keys(scope)
+            .filter((name) => directNames.has(name))
+            .forEach((name) => collector.markDirect(scope[name]));
+        }
+      };
+      walk(lock.dependencies, []);
+    }
+
+    return collector.values();
+  },
+};
+
+const yarnLockParser: LockfileParser = {
+  ecosystem: "npm",
+  matches: (fileName) => fileName === "yarn.lock",
+  parse: (content, declared) => {
+    const collector = new PackageCollector("npm");
+    const idForSpecifier = new Map<string, string>();
+    const pendingEdges: Array<{ from: ResolvedPackage; specifiers: string[] }> = [];
+
+    const register = (specifiers: string[], version: string, dependencies: Record<string, string>) => {
+      const { name } = splitSpecifier(specifiers[0]);
+      const pkg = collector.add(name, version);
+      specifiers.forEach((specifier) => idForSpecifier.set(specifier, pkg.id));
+      pendingEdges.push({
+        from: pkg,
+        specifiers: Object.entries(dependencies).map(([depName, range]) => `${depName}@${range}`),
+      });
+    };
+
+    if (content.includes("__metadata:")) {
+      // Yarn 2+ lockfiles are YAML
+      const parsed = parseYaml(content) as Table;
+      for (const [key, entry] of Object.entries(parsed)) {
+        if (key === "__metadata" || !isTable(entry) || typeof entry.version !== "string") continue;
+        const specifiers = key.split(",").map((specifier) => specifier.trim());
+        const dependencies = isTable(entry.dependencies) ? (entry.dependencies as Record<string, string>) : {};
+        register(specifiers, entry.version, dependencies);
+      }
+    } else {
+      // Yarn 1 lockfiles use a custom indentation-based format
+      let specifiers: string[] | null = null;
+      let version = "";
+      let dependencies: Record<string, string> = {};
+      let inDependencies = false;
+
+      const flush = () => {
+        if (specifiers && version) register(specifiers, version, dependencies);
+        specifiers = null;
+        version = "";
+        dependencies = {};
+        inDependencies = false;
+      };
+
+      for (const line of content.split("\n")) {
+        if (!line.trim() || line.startsWith("#")) continue;
+
+        if (!line.startsWith(" ")) {
+          flush();
+          specifiers = line
+            .replace(/:$/, "")
+            .split(",")
+            .map((specifier) => specifier.trim().replace(/^"|"$/g, ""));
+        } else if (line.startsWith("    ") && inDependencies) {
+          const match = line.trim().match(/^"?([^"\s]+)"?\s+"?([^"]+)"?$/);
+          if (match) dependencies[match[1]] = match[2];
+        } else {
+          const trimmed = line.trim();
+          inDependencies = trimmed === "dependencies:" || trimmed === "optionalDependencies:";
+          const versionMatch = trimmed.match(/^version:?\s+"?([^"]+)"?$/);
+          if (versionMatch) version = versionMatch[1];
+        }
+      }
+      flush();
+    }
+
+    const lookup = (specifier: string) => {
+      if (idForSpecifier.has(specifier)) return idForSpecifier.get(specifier);
+      // Yarn 2+ keys include the protocol, dependency ranges usually don't
+      const { name, range } = splitSpecifier(specifier);
+      return idForSpecifier.get(`${name}@npm:${range}`);
+    };
+
+    for (const { from, specifiers } of pendingEdges) {
+      for (const specifier of specifiers) {
+        const targetId = lookup(specifier);
+        if (targetId) collector.link(from, targetId);
+      }
+    }
+
+    for (const dep of declared) {
+      const targetId = lookup(`${dep.name}@${dep.version}`);
+      if (targetId) collector.markDirect(targetId);
+    }
+
+    return collector.values();
+  },
+};
+
+/**
+ * Strips peer dependency suffixes such as `1.0.0(react@18.2.0)` or `1.0.0_react@18.2.0`
+ */
+function normalizePnpmVersion(version: string): string {
+  return version.replace(/\(.*$/, "").replace(/_.*$/, "");
+}
+
+const pnpmLockParser: LockfileParser = {
+  ecosystem: "npm",
+  matches: (fileName) => fileName === "pnpm-lock.yaml",
+  parse: (content) => {
+    const lock = parseYaml(content) as Table;
+    const collector = new PackageCollector("npm");
+    const lockfileVersion = parseFloat(String(lock.lockfileVersion ?? "0"));
+
+    // Package keys look like `/name/1.0.0` (v5), `/name@1.0.0` (v6) or `name@1.0.0` (v9)
+    const parseKey = (key: string): { name: string; version: string } | null => {
+      const trimmed = key.startsWith("/") ? key.slice(1) : key;
+      if (lockfileVersion > 0 && lockfileVersion < 6) {
+        const index = trimmed.lastIndexOf("/");
+        if (index === -1) return null;
+        return { name: trimmed.slice(0, index), version: normalizePnpmVersion(trimmed.slice(index + 1)) };
+      }
+      const { name, range } = splitSpecifier(trimmed);
+      return range ? { name, version: normalizePnpmVersion(range) } : null;
+    };
+
+    // Dependencies are a version such as `1.0.0(react@18.2.0)`, or for aliases the package they
+    // point at: `npm:other@1.0.0`, `other@1.0.0` (v9), `/other@1.0.0` (v6) or `/other/1.0.0` (v5)
+    const targetOf = (name: string, value: unknown): string | null => {
+      const raw = isTable(value) ? value.version : value;
+      if (typeof raw !== "string" || raw.startsWith("link:") || raw.startsWith("file:")) return null;
+      if (/^\d/.test(raw)) return `${name}@${normalizePnpmVersion(raw)}`;
+
+      const alias = raw.startsWith("npm:") ? splitSpecifier(raw.slice("npm:".length)) : null;
+      const target = alias ? { name: alias.name, version: normalizePnpmVersion(alias.range) } : parseKey(raw);
+      return target?.version ? `${target.name}@${target.version}` : null;
+    };
+
+    // v9 moved resolved dependencies into `snapshots`
+    const entries = {
+      ...(isTable(lock.packages) ? lock.packages : {}),
+      ...(isTable(lock.snapshots) ? lock.snapshots : {}),
+    };
+    for (const key of Object.keys(entries)) {
+      const parsed = parseKey(key);
+      if (parsed) collector.add(parsed.name, parsed.version);
+    }
+
+    for (const [key, entry] of Object.entries(entries)) {
+      const parsed = parseKey(key);
+      if (!parsed || !isTable(entry)) continue;
+      const pkg = collector.add(parsed.name, parsed.version);
+      const dependencies = {
+        ...(isTable(entry.dependencies) ? entry.dependencies : {}),
+        ...(isTable(entry.optionalDependencies) ? entry.optionalDependencies : {}),
+      };
+      for (const [name, value] of Object.entries(dependencies)) {
+        const targetId = targetOf(name, value);
+        if (targetId) collector.link(pkg, targetId);
+      }
+    }
+
+    // Direct dependencies come from the importers (workspace projects) or the root
+    const importers = isTable(lock.importers) ? Object.values(lock.importers) : [lock];
+    for (const importer of importers) {
+      if (!isTable(importer)) continue;
+      for (const section of ["dependencies", "devDependencies", "optionalDependencies"]) {
+        const deps = importer[section];
+        if (!isTable(deps)) continue;
+        for (const [name, value] of Object.entries(deps)) {
+          const targetId = targetOf(name, value);
+          if (targetId) collector.markDirect(targetId);
+        }
+      }
+    }
+
+    return collector.values();
+  },
+};
+
+/**
+ * Normalises Python package names as described in PEP 503
+ */
+const normalizePythonName = (name: string) => name.toLowerCase().replace(/[-_.]+/g, "-");
+
+const poetryLockParser: LockfileParser = {
+  ecosystem: "pypi",
+  matches: (fileName) => fileName === "poetry.lock",
+  parse: (content, declared) => {
+    const lock = parseToml(content) as Table;
+    const collector = new PackageCollector("pypi");
+    const entries = Array.isArray(lock.package) ? lock.package.filter(isTable) : [];
+    // A name is locked at several versions when they are pinned under different markers
+    // (e.g. one per Python version); dependencies give only the name, so all of them are linked
+    const idsForName = new Map<string, string[]>();
+
+    for (const entry of entries) {
+      if (typeof entry.name !== "string" || typeof entry.version !== "string") continue;
+      const pkg = collector.add(normalizePythonName(entry.name), entry.version);
+      idsForName.set(pkg.name, [...(idsForName.get(pkg.name) || []), pkg.id]);
+    }
+
+    for (const entry of entries) {
+      if (typeof entry.name !== "string" || typeof entry.version !== "string") continue;
+      const pkg = collector.add(normalizePythonName(entry.name), entry.version);
+      for (const name of Object.keys(isTable(entry.dependencies) ? entry.dependencies : {})) {
+        for (const targetId of idsForName.get(normalizePythonName(name)) || []) {
+          collector.link(pkg, targetId);
+        }
+      }
+    }
+
+    for (const dep of declared) {
+      for (const targetId of idsForName.get(normalizePythonName(dep.name)) || []) {
+        collector.markDirect(targetId);
+      }
+    }
+
+    return collector.values();
+  },
+};
+
+const cargoLockParser: LockfileParser = {
+  ecosystem: "cargo",
+  matches: (fileName) => fileName === "Cargo.lock",
+  parse: (content) => {
+    const lock = parseToml(content) as Table;
+    const collector = new PackageCollector("cargo");
+    const entries = (Array.isArray(lock.package) ? lock.package.filter(isTable) : []).filter(
+      (entry) => typeof entry.name === "string" && typeof entry.version === "string"
+    );
+
+    // Packages without a source are the workspace's own crates
+    const isLocal = (entry: Table) => typeof entry.source !== "string";
+    const versionsByName = new Map<string, string[]>();
+    for (const entry of entries) {
+      const versions = versionsByName.get(entry.name as string) || [];
+      versions.push(entry.version as string);
+      versionsByName.set(entry.name as string, versions);
+      if (!isLocal(entry)) collector.add(entry.name as string, entry.version as string);
+    }
+
+    // Dependencies are written as `name`, or `name version` when several versions exist
+    const resolve = (reference: string): string | null => {
+      const [name, version] = reference.split(" ");
+      const resolved = version || versionsByName.get(name)?.[0];
+      return resolved ? `${name}@${resolved}` : null;
+    };
+
+    for (const entry of entries) {
+      const references = Array.isArray(entry.dependencies) ? entry.dependencies : [];
+      const from = isLocal(entry) ? null : collector.add(entry.name as string, entry.version as string);
+      for (const reference of references) {
+        const targetId = typeof reference === "string" ? resolve(reference) : null;
+        if (!targetId || !collector.get(targetId)) continue;
+        if (from) {
+          collector.link(from, targetId);
+        } else {
+          collector.markDirect(targetId);
+        }
+      }
+    }
+
+    return collector.values();
+  },
+};
+
+const goSumParser: LockfileParser = {
+  ecosystem: "go",
+  matches: (fileName) => fileName === "go.sum",
+  parse: (content, declared) => {
+    const collector = new PackageCollector("go");
+    const directIds = new Set(declared.map((dep) => `${dep.name}@${dep.version}`));
+
+    // go.sum records checksums only, so it yields modules but no edges.
+    // Entries that only carry a /go.mod hash were never downloaded.
+    for (const line of content.split("\n")) {
+      const [module, version] = line.trim().split(/\s+/);
+      if (!module || !version || version.endsWith("/go.mod")) continue;
+      const pkg = collector.add(module, version);
+      if (directIds.has(pkg.id)) pkg.direct = true;
+    }
+
+    return collector.values();
+  },
+};
+
+const LOCKFILE_PARSERS: LockfileParser[] = [
+  packageLockParser,
+  yarnLockParser,
+  pnpmLockParser,
+  poetryLockParser,
+  cargoLockParser,
+  goSumParser,
+];
+
+/**
+ * Checks whether a file name is a lockfile we know how to parse
+ */
+export function isLockfile(fileName: string): boolean {
+  return LOCKFILE_PARSERS.some((parser) => parser.matches(fileName));
+}
+
+/**
+ * Parses a lockfile into resolved packages
+ * @param lockfilePath Path of the lockfile within the repository
+ * @param content Raw lockfile content
+ * @param declared Dependencies declared by manifests next to the lockfile,
+ * used to mark direct dependencies when the lockfile does not record them
+ */
+export function parseLockfile(
+  lockfilePath: string,
+  content: string,
+  declared: Dependency[]
+): ResolvedPackage[] {
+  const fileName = lockfilePath.split("/").pop() || lockfilePath;
+  const parser = LOCKFILE_PARSERS.find((candidate) => candidate.matches(fileName));
+  if (!parser) return [];
+
+  try {
+    return parser.parse(
+      content,
+      declared.filter((dep) => dep.ecosystem === parser.ecosystem)
+    );
+  } catch (error) {
+    console.warn(`Could not parse ${parser.ecosystem} lockfile ${lockfilePath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Merges packages from several lockfiles into one graph
+ */
+export function mergeDependencyGraph(
+  lockfiles: string[],
+  packageLists: ResolvedPackage[][]
+): ResolvedDependencyGraph {
+  const packages = new Map<string, ResolvedPackage>();
+
+  for (const list of packageLists) {
+    for (const pkg of list) {
+      const existing = packages.get(pkg.id);
+      if (!existing) {
+        packages.set(pkg.id, { ...pkg, dependencies: [...pkg.dependencies] });
+        continue;
+      }
+      existing.direct = existing.direct || pkg.direct;
+      for (const dep of pkg.dependencies) {
+        if (!existing.dependencies.includes(dep)) existing.dependencies.push(dep);
+      }
+    }
+  }
+
+  return { lockfiles, packages: Array.from(packages.values()) };
+}
+
+/**
+ * Finds dependency chains that pull a package into the tree, starting from a
+ * direct dependency, e.g. `express@4.18.2 > body-parser@1.20.1 > qs@6.11.0`
+ * @param graph The resolved dependency graph
+ * @param name Package name to explain
+ * @param version Optional exact version to explain
+ * @param maxPaths Maximum number of chains to return
+ */
+export function findDependencyPaths(
+  graph: ResolvedDependencyGraph,
+  name: string,
+  version?: string,
+  maxPaths: number = 5
+): string[][] {
+  const dependents = new Map<string, string[]>();
+  const byId = new Map(graph.packages.map((pkg) => [pkg.id, pkg]));
+  for (const pkg of graph.packages) {
+    for (const dep of pkg.dependencies) {
+      const list = dependents.get(dep) || [];
+      list.push(pkg.id);
+      dependents.set(dep, list);
+    }
+  }
+
+  const targets = graph.packages.filter(
+    (pkg) => pkg.name === name && (!version || pkg.version === version)
+  );
+
+  // Breadth-first search upwards from the target so the shortest chains come first
+  const paths: string[][] = [];
+  const queue: string[][] = targets.map((pkg) => [pkg.id]);
+  const visited = new Set<string>(targets.map((pkg) => pkg.id));
+
+  while (queue.length > 0 && paths.length < maxPaths) {
+    const chain = queue.shift()!;
+    const head = byId.get(chain[0]);
+    if (head?.direct) {
+      paths.push(chain);
+      continue;
+    }
+    for (const parent of dependents.get(chain[0]) || []) {
+      if (visited.has(parent)) continue;
+      visited.add(parent);
+      queue.push([parent, ...chain]);
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Summarises a resolved dependency graph for prompts
+ */
+export function summarizeDependencyGraph(graph: ResolvedDependencyGraph): string {
+  if (graph.packages.length === 0) {
+    return "No lockfiles found";
+  }
+
+  const direct = graph.packages.filter((pkg) => pkg.direct).length;
+  const versionsByName = new Map<string, string[]>();
+  for (const pkg of graph.packages) {
+    const versions = versionsByName.get(pkg.name) || [];
+    versions.push(pkg.version);
+    versionsByName.set(pkg.name, versions);
+  }
+
+  const duplicated = Array.from(versionsByName.entries())
+    .filter(([, versions]) => versions.length > 1)
+    .slice(0, 10)
+    .map(([name, versions]) => `${name} (${versions.join(", ")})`);
+
+  let summary = `Resolved ${graph.packages.length} packages (${direct} direct, ${
+    graph.packages.length - direct
+  } transitive) from ${graph.lockfiles.join(", ")}`;
+  if (duplicated.length > 0) {
+    summary += `\nPackages resolved at multiple versions: ${duplicated.join("; ")}`;
+  }
+
+  return summary;
+}
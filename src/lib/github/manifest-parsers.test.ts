@@ -0,0 +1,375 @@
+import { describe, expect, it } from "vitest";
+import { Dependency } from "./github-service";
+import {
+  formatDependencies,
+  getManifestPackageName,
+  isManifestFile,
+  parseManifest,
+  toDependencyMap,
+} from "./manifest-parsers";
+
+/**
+ * Dependencies as `scope name version`, which keeps the expectations to a line each
+ */
+function summarize(dependencies: Dependency[]): string[] {
+  return dependencies.map((dep) => `${dep.scope} ${dep.name} ${dep.version}`);
+}
+
+const packageJson = JSON.stringify({
+  name: "@acme/web",
+  dependencies: { next: "15.3.2" },
+  peerDependencies: { react: "^19.0.0" },
+  optionalDependencies: { fsevents: "^2.3.3" },
+  devDependencies: { vitest: "^3.2.0", typescript: "" },
+});
+
+const requirementsTxt = `# Test tools
+-r requirements.txt
+--index-url https://pypi.org/simple
+pytest>=8.0  # runner
+requests[socks]==2.31.0; python_version > "3.8"
+git+https://github.com/acme/tool.git#egg=tool
+black
+`;
+
+const pep621Pyproject = `[build-system]
+requires = ["hatchling>=1.21"]
+
+[project]
+name = "widgets"
+dependencies = ["httpx>=0.27", "pydantic[email] @ https://example.com/pydantic.whl"]
+
+[project.optional-dependencies]
+test = ["pytest>=8"]
+server = ["uvicorn"]
+
+[dependency-groups]
+lint = ["ruff"]
+`;
+
+const poetryPyproject = `[tool.poetry]
+name = "billing"
+
+[tool.poetry.dependencies]
+python = "^3.11"
+Django = { version = "^5.0", extras = ["bcrypt"] }
+internal-lib = { path = "../internal-lib" }
+
+[tool.poetry.dev-dependencies]
+pytest = "^8.0"
+
+[tool.poetry.group.docs.dependencies]
+mkdocs = "^1.5"
+`;
+
+const pipfile = `[packages]
+flask = "*"
+requests = {version = ">=2.31", extras = ["socks"]}
+
+[dev-packages]
+pytest = "==8.0.0"
+`;
+
+const goMod = `module github.com/acme/widgets
+
+go 1.22
+
+require github.com/google/uuid v1.6.0
+
+require (
+	github.com/stretchr/testify v1.9.0 // indirect
+	golang.org/x/text v0.14.0
+)
+`;
+
+const cargoToml = `[package]
+name = "widgets"
+
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+tokio = "1"
+core = { path = "../core" }
+shared = { workspace = true }
+
+[dev-dependencies]
+criterion = "0.5"
+
+[build-dependencies]
+cc = "1.0"
+
+[target.'cfg(windows)'.dependencies]
+winapi = "0.3"
+
+[workspace.dependencies]
+anyhow = "1.0"
+`;
+
+const gemfile = `source "https://rubygems.org"
+
+gem "rails", "~> 7.1", ">= 7.1.2"
+gem "pg" # database
+
+group :development, :test do
+  gem "rspec-rails"
+  platforms :mri do
+    gem "byebug"
+  end
+end
+
+gem "puma"
+gem "rubocop", require: false, group: [:development]
+`;
+
+const pomXml = `<project>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+  </parent>
+  <groupId>com.acme</groupId>
+  <artifactId>widgets</artifactId>
+  <properties>
+    <jackson.version>2.17.0</jackson.version>
+  </properties>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+      <version>\${jackson.version}</version>
+    </dependency>
+    <!-- <dependency><artifactId>commented-out</artifactId></dependency> -->
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <scope>test</scope>
+    </dependency>
+    <dependency>
+      <groupId>jakarta.servlet</groupId>
+      <artifactId>jakarta.servlet-api</artifactId>
+      <version>6.0.0</version>
+      <scope>provided</scope>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <artifactId>maven-surefire-plugin</artifactId>
+        <version>3.2.5</version>
+      </plugin>
+    </plugins>
+  </build>
+</project>
+`;
+
+const gradleKts = `plugins { kotlin("jvm") }
+
+dependencies {
+    implementation("org.jetbrains.kotlinx:kotlinx-coroutines-core:1.8.0")
+    api("com.squareup.okhttp3:okhttp:4.12.0")
+    testImplementation("org.junit.jupiter:junit-jupiter")
+    kapt("com.google.dagger:dagger-compiler:2.51")
+    implementation(project(":core"))
+    custom("com.acme:ignored:1.0")
+}
+`;
+
+const gradleGroovy = `dependencies {
+    implementation 'com.google.guava:guava:33.0.0-jre'
+    testImplementation 'junit:junit:4.13.2'
+}
+`;
+
+const composerJson = JSON.stringify({
+  name: "acme/widgets",
+  require: { php: ">=8.2", "ext-json": "*", "laravel/framework": "^11.0" },
+  "require-dev": { "phpunit/phpunit": "^11.0" },
+});
+
+const pubspec = `name: widgets
+dependencies:
+  flutter:
+    sdk: flutter
+  http: ^1.2.0
+dev_dependencies:
+  flutter_test:
+    sdk: flutter
+  lints: ^3.0.0
+`;
+
+const csproj = `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <ItemGroup>
+    <PackageReference Include="Serilog" Version="3.1.1" />
+    <PackageReference Include="Microsoft.EntityFrameworkCore.Tools">
+      <Version>8.0.2</Version>
+      <PrivateAssets>all</PrivateAssets>
+    </PackageReference>
+    <PackageReference Include="StyleCop.Analyzers" Version="1.1.118" PrivateAssets="all" />
+  </ItemGroup>
+</Project>
+`;
+
+describe("parseManifest", () => {
+  it.each<[string, string, string[]]>([
+    [
+      "apps/web/package.json",
+      packageJson,
+      ["runtime next 15.3.2", "runtime react ^19.0.0", "runtime fsevents ^2.3.3", "dev vitest ^3.2.0", "dev typescript *"],
+    ],
+    ["requirements-dev.txt", requirementsTxt, ["dev pytest >=8.0", "dev requests ==2.31.0", "dev black *"]],
+    ["requirements.txt", "flask==3.0.2\n", ["runtime flask ==3.0.2"]],
+    [
+      "pyproject.toml",
+      pep621Pyproject,
+      [
+        "runtime httpx >=0.27",
+        "runtime pydantic https://example.com/pydantic.whl",
+        "dev pytest >=8",
+        "runtime uvicorn *",
+        "dev ruff *",
+        "build hatchling >=1.21",
+      ],
+    ],
+    [
+      "billing/pyproject.toml",
+      poetryPyproject,
+      ["runtime Django ^5.0", "runtime internal-lib path:../internal-lib", "dev pytest ^8.0", "dev mkdocs ^1.5"],
+    ],
+    ["Pipfile", pipfile, ["runtime flask *", "runtime requests >=2.31", "dev pytest ==8.0.0"]],
+    [
+      "go.mod",
+      goMod,
+      [
+        "runtime github.com/google/uuid v1.6.0",
+        "runtime github.com/stretchr/testify v1.9.0",
+        "runtime golang.org/x/text v0.14.0",
+      ],
+    ],
+    [
+      "Cargo.toml",
+      cargoToml,
+      [
+        "runtime serde 1.0",
+        "runtime tokio 1",
+        "runtime core path:../core",
+        "runtime shared workspace",
+        "dev criterion 0.5",
+        "build cc 1.0",
+        "runtime winapi 0.3",
+        "runtime anyhow 1.0",
+      ],
+    ],
+    [
+      "Gemfile",
+      gemfile,
+      [
+        "runtime rails ~> 7.1, >= 7.1.2",
+        "runtime pg *",
+        "dev rspec-rails *",
+        "dev byebug *",
+        "runtime puma *",
+        "dev rubocop *",
+      ],
+    ],
+    [
+      "pom.xml",
+      pomXml,
+      [
+        "runtime com.fasterxml.jackson.core:jackson-databind 2.17.0",
+        "dev org.junit.jupiter:junit-jupiter *",
+        "build jakarta.servlet:jakarta.servlet-api 6.0.0",
+        "build maven-surefire-plugin 3.2.5",
+      ],
+    ],
+    [
+      "app/build.gradle.kts",
+      gradleKts,
+      [
+        "runtime org.jetbrains.kotlinx:kotlinx-coroutines-core 1.8.0",
+        "runtime com.squareup.okhttp3:okhttp 4.12.0",
+        "dev org.junit.jupiter:junit-jupiter *",
+        "build com.google.dagger:dagger-compiler 2.51",
+      ],
+    ],
+    ["build.gradle", gradleGroovy, ["runtime com.google.guava:guava 33.0.0-jre", "dev junit:junit 4.13.2"]],
+    ["composer.json", composerJson, ["runtime laravel/framework ^11.0", "dev phpunit/phpunit ^11.0"]],
+    [
+      "pubspec.yaml",
+      pubspec,
+      ["runtime flutter sdk:flutter", "runtime http ^1.2.0", "dev flutter_test sdk:flutter", "dev lints ^3.0.0"],
+    ],
+    [
+      "src/Widgets.Api/Widgets.Api.csproj",
+      csproj,
+      [
+        "runtime Serilog 3.1.1",
+        "build Microsoft.EntityFrameworkCore.Tools 8.0.2",
+        "build StyleCop.Analyzers 1.1.118",
+      ],
+    ],
+  ])("parses %s", (manifestPath, content, expected) => {
+    const dependencies = parseManifest(manifestPath, content);
+
+    expect(summarize(dependencies)).toEqual(expected);
+    expect(dependencies.every((dep) => dep.manifestPath === manifestPath)).toBe(true);
+  });
+
+  it("returns no dependencies for unknown or unparseable files", () => {
+    expect(parseManifest("package.json", "{")).toEqual([]);
+    expect(parseManifest("Cargo.toml", "[dependencies")).toEqual([]);
+    expect(parseManifest("README.md", "# Widgets")).toEqual([]);
+  });
+});
+
+describe("isManifestFile", () => {
+  it.each([
+    ["package.json", true],
+    ["requirements-test.txt", true],
+    ["requirements.in", false],
+    ["Widgets.csproj", true],
+    ["build.gradle.kts", true],
+    ["settings.gradle", false],
+    ["package-lock.json", false],
+  ])("%s → %s", (fileName, expected) => {
+    expect(isManifestFile(fileName)).toBe(expected);
+  });
+});
+
+describe("getManifestPackageName", () => {
+  it.each<[string, string, string | null]>([
+    ["apps/web/package.json", packageJson, "@acme/web"],
+    ["composer.json", composerJson, "acme/widgets"],
+    ["Cargo.toml", cargoToml, "widgets"],
+    ["pyproject.toml", pep621Pyproject, "widgets"],
+    ["billing/pyproject.toml", poetryPyproject, "billing"],
+    ["go.mod", goMod, "github.com/acme/widgets"],
+    ["pubspec.yaml", pubspec, "widgets"],
+    ["pom.xml", pomXml, "widgets"],
+    ["src/Widgets.Api/Widgets.Api.csproj", csproj, "Widgets.Api"],
+    ["requirements.txt", "flask\n", null],
+    ["package.json", "{", null],
+  ])("reads the name from %s", (manifestPath, content, expected) => {
+    expect(getManifestPackageName(manifestPath, content)).toBe(expected);
+  });
+});
+
+describe("toDependencyMap and formatDependencies", () => {
+  const dependencies = [
+    ...parseManifest("package.json", JSON.stringify({ dependencies: { react: "^19.0.0" }, devDependencies: { vitest: "^3.2.0" } })),
+    ...parseManifest("apps/web/package.json", JSON.stringify({ dependencies: { react: "^18.3.0" } })),
+  ];
+
+  it("keeps the first version declared for a name", () => {
+    expect(toDependencyMap(dependencies)).toEqual({ react: "^19.0.0", vitest: "^3.2.0" });
+  });
+
+  it("groups dependencies by manifest and marks non-runtime scopes", () => {
+    expect(formatDependencies(dependencies)).toBe(
+      [
+        "- package.json (npm):",
+        "  - react: ^19.0.0",
+        "  - vitest: ^3.2.0 (dev)",
+        "- apps/web/package.json (npm):",
+        "  - react: ^18.3.0",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,550 @@
+import { parse as parseToml } from "smol-toml";
+import { parse as parseYaml } from "yaml";
+import { Dependency, DependencyEcosystem, DependencyScope } from "./github-service";
+
+interface ManifestParser {
+  ecosystem: DependencyEcosystem;
+  matches: (fileName: string) => boolean;
+  parse: (content: string, manifestPath: string) => Dependency[];
+}
+
+type Table = Record<string, unknown>;
+
+const isTable = (value: unknown): value is Table =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Dependency groups that only matter while developing or testing
+const DEV_GROUP_PATTERN = /^(dev|develop|development|test|tests|testing|lint|docs|typing|ci)$/i;
+
+/**
+ * Creates a dependency record, normalising empty version specs to "*"
+ */
+function dependency(
+  ecosystem: DependencyEcosystem,
+  manifestPath: string,
+  name: string,
+  version: string | undefined,
+  scope: DependencyScope
+): Dependency {
+  return {
+    ecosystem,
+    manifestPath,
+    name: name.trim(),
+    version: version?.trim() || "*",
+    scope,
+  };
+}
+
+/**
+ * Reads a version spec from either a plain string or a table such as
+ * `{ version = "1.0", features = [...] }`
+ */
+function versionFromValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (isTable(value)) {
+    if (typeof value.version === "string") return value.version;
+    if (typeof value.git === "string") return `git:${value.git}`;
+    if (typeof value.path === "string") return `path:${value.path}`;
+    if (value.workspace === true) return "workspace";
+    if (typeof value.sdk === "string") return `sdk:${value.sdk}`;
+  }
+  return "*";
+}
+
+/**
+ * Parses a PEP 508 requirement string such as `requests[socks]>=2.0; python_version > "3.8"`
+ */
+function parsePep508(requirement: string): { name: string; version: string } | null {
+  const withoutMarkers = requirement.split(";")[0].trim();
+  const match = withoutMarkers.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+
+  let version = match[2].trim();
+  // Direct references look like `name @ https://...`
+  if (version.startsWith("@")) {
+    version = version.slice(1).trim();
+  }
+
+  return { name: match[1], version };
+}
+
+function tableEntries(
+  ecosystem: DependencyEcosystem,
+  manifestPath: string,
+  table: unknown,
+  scope: DependencyScope,
+  skip: string[] = []
+): Dependency[] {
+  if (!isTable(table)) return [];
+  return Object.entries(table)
+    .filter(([name]) => !skip.includes(name.toLowerCase()))
+    .map(([name, value]) => dependency(ecosystem, manifestPath, name, versionFromValue(value), scope));
+}
+
+function requirementList(
+  manifestPath: string,
+  list: unknown,
+  scope: DependencyScope
+): Dependency[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((item): item is string => typeof item === "string")
+    .map(parsePep508)
+    .filter((parsed): parsed is { name: string; version: string } => parsed !== null)
+    .map((parsed) => dependency("pypi", manifestPath, parsed.name, parsed.version, scope));
+}
+
+const packageJsonParser: ManifestParser = {
+  ecosystem: "npm",
+  matches: (fileName) => fileName === "package.json",
+  parse: (content, manifestPath) => {
+    const parsed = JSON.parse(content);
+    return [
+      ...tableEntries("npm", manifestPath, parsed.dependencies, "runtime"),
+      ...tableEntries("npm", manifestPath, parsed.peerDependencies, "runtime"),
+      ...tableEntries("npm", manifestPath, parsed.optionalDependencies, "runtime"),
+      ...tableEntries("npm", manifestPath, parsed.devDependencies, "dev"),
+    ];
+  },
+};
+
+const requirementsTxtParser: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (fileName) => /^requirements([-_.][\w-]+)?\.txt$/i.test(fileName),
+  parse: (content, manifestPath) => {
+    const scope: DependencyScope = /(dev|test|lint|docs)/i.test(manifestPath.split("/").pop() || "")
+      ? "dev"
+      : "runtime";
+    const dependencies: Dependency[] = [];
+
+    content.split("\n").forEach((line) => {
+      const trimmedLine = line.split(" #")[0].trim();
+      // Skip comments, options (-r, -e, --index-url) and direct URLs
+      if (!trimmedLine || trimmedLine.startsWith("#") || trimmedLine.startsWith("-") || trimmedLine.includes("://")) {
+        return;
+      }
+      const parsed = parsePep508(trimmedLine);
+      if (parsed) {
+        dependencies.push(dependency("pypi", manifestPath, parsed.name, parsed.version, scope));
+      }
+    });
+
+    return dependencies;
+  },
+};
+
+const pyprojectParser: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (fileName) => fileName === "pyproject.toml",
+  parse: (content, manifestPath) => {
+    const parsed = parseToml(content) as Table;
+    const dependencies: Dependency[] = [];
+
+    // PEP 621 project metadata
+    const project = isTable(parsed.project) ? parsed.project : {};
+    dependencies.push(...requirementList(manifestPath, project.dependencies, "runtime"));
+    if (isTable(project["optional-dependencies"])) {
+      for (const [group, list] of Object.entries(project["optional-dependencies"])) {
+        dependencies.push(
+          ...requirementList(manifestPath, list, DEV_GROUP_PATTERN.test(group) ? "dev" : "runtime")
+        );
+      }
+    }
+
+    // PEP 735 dependency groups
+    if (isTable(parsed["dependency-groups"])) {
+      for (const list of Object.values(parsed["dependency-groups"])) {
+        dependencies.push(...requirementList(manifestPath, list, "dev"));
+      }
+    }
+
+    // Build system requirements
+    if (isTable(parsed["build-system"])) {
+      dependencies.push(...requirementList(manifestPath, parsed["build-system"].requires, "build"));
+    }
+
+    // Poetry
+    const tool = isTable(parsed.tool) ? parsed.tool : {};
+    const poetry = isTable(tool.poetry) ? tool.poetry : null;
+    if (poetry) {
+      dependencies.push(...tableEntries("pypi", manifestPath, poetry.dependencies, "runtime", ["python"]));
+      dependencies.push(...tableEntries("pypi", manifestPath, poetry["dev-dependencies"], "dev"));
+      if (isTable(poetry.group)) {
+        for (const [group, definition] of Object.entries(poetry.group)) {
+          if (isTable(definition)) {
+            dependencies.push(
+              ...tableEntries("pypi", manifestPath, definition.dependencies, group === "main" ? "runtime" : "dev")
+            );
+          }
+        }
+      }
+    }
+
+    return dependencies;
+  },
+};
+
+const pipfileParser: ManifestParser = {
+  ecosystem: "pypi",
+  matches: (fileName) => fileName === "Pipfile",
+  parse: (content, manifestPath) => {
+    const parsed = parseToml(content) as Table;
+    return [
+      ...tableEntries("pypi", manifestPath, parsed.packages, "runtime"),
+      ...tableEntries("pypi", manifestPath, parsed["dev-packages"], "dev"),
+    ];
+  },
+};
+
+const goModParser: ManifestParser = {
+  ecosystem: "go",
+  matches: (fileName) => fileName === "go.mod",
+  parse: (content, manifestPath) => {
+    const dependencies: Dependency[] = [];
+    let inRequireBlock = false;
+
+    content.split("\n").forEach((line) => {
+      const trimmedLine = line.split("//")[0].trim();
+      if (trimmedLine.startsWith("require (")) {
+        inRequireBlock = true;
+        return;
+      }
+      if (inRequireBlock && trimmedLine === ")") {
+        inRequireBlock = false;
+        return;
+      }
+
+      const requirement = inRequireBlock
+        ? trimmedLine
+        : trimmedLine.startsWith("require ")
+          ? trimmedLine.slice("require ".length).trim()
+          : "";
+      const [name, version] = requirement.split(/\s+/);
+      if (name && version) {
+        dependencies.push(dependency("go", manifestPath, name, version, "runtime"));
+      }
+    });
+
+    return dependencies;
+  },
+};
+
+const cargoTomlParser: ManifestParser = {
+  ecosystem: "cargo",
+  matches: (fileName) => fileName === "Cargo.toml",
+  parse: (content, manifestPath) => {
+    const parsed = parseToml(content) as Table;
+    const fromTables = (tables: Table) => [
+      ...tableEntries("cargo", manifestPath, tables.dependencies, "runtime"),
+      ...tableEntries("cargo", manifestPath, tables["dev-dependencies"], "dev"),
+      ...tableEntries("cargo", manifestPath, tables["build-dependencies"], "build"),
+    ];
+
+    const dependencies = fromTables(parsed);
+
+    // Platform-specific dependencies live under [target.'cfg(...)'.dependencies]
+    if (isTable(parsed.target)) {
+      for (const target of Object.values(parsed.target)) {
+        if (isTable(target)) dependencies.push(...fromTables(target));
+      }
+    }
+
+    // Shared versions declared for a workspace
+    if (isTable(parsed.workspace)) {
+      dependencies.push(...tableEntries("cargo", manifestPath, parsed.workspace.dependencies, "runtime"));
+    }
+
+    return dependencies;
+  },
+};
+
+const gemfileParser: ManifestParser = {
+  ecosystem: "rubygems",
+  matches: (fileName) => fileName === "Gemfile",
+  parse: (content, manifestPath) => {
+    const dependencies: Dependency[] = [];
+    const groupStack: boolean[] = [];
+
+    content.split("\n").forEach((line) => {
+      const trimmedLine = line.split("#")[0].trim();
+
+      const groupMatch = trimmedLine.match(/^group\s+(.+?)\s+do$/);
+      if (groupMatch) {
+        groupStack.push(/:(development|test)\b|["'](development|test)["']/.test(groupMatch[1]));
+        return;
+      }
+      if (/^(platforms?|source|install_if|git|path)\b.*\bdo$/.test(trimmedLine)) {
+        // Other block types inherit the enclosing group
+        groupStack.push(groupStack[groupStack.length - 1] || false);
+        return;
+      }
+      if (trimmedLine === "end") {
+        groupStack.pop();
+        return;
+      }
+
+      const gemMatch = trimmedLine.match(/^gem\s+["']([^"']+)["'](.*)$/);
+      if (!gemMatch) return;
+
+      const versions = Array.from(gemMatch[2].matchAll(/,\s*["']([~<>=!\d][^"']*)["']/g)).map((m) => m[1]);
+      const inDevGroup =
+        groupStack.some(Boolean) || /group:\s*\[?[^\]]*:(development|test)\b/.test(gemMatch[2]);
+      dependencies.push(
+        dependency("rubygems", manifestPath, gemMatch[1], versions.join(", "), inDevGroup ? "dev" : "runtime")
+      );
+    });
+
+    return dependencies;
+  },
+};
+
+/**
+ * Returns the text of the first matching XML element within a fragment
+ */
+function xmlValue(fragment: string, tag: string): string | undefined {
+  const match = fragment.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : undefined;
+}
+
+const pomXmlParser: ManifestParser = {
+  ecosystem: "maven",
+  matches: (fileName) => fileName === "pom.xml",
+  parse: (content, manifestPath) => {
+    const withoutComments = content.replace(/<!--[\s\S]*?-->/g, "");
+
+    // Resolve ${property} references from the <properties> block
+    const properties: Record<string, string> = {};
+    const propertiesBlock = withoutComments.match(/<properties>([\s\S]*?)<\/properties>/);
+    if (propertiesBlock) {
+      for (const match of propertiesBlock[1].matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+        properties[match[1]] = match[2];
+      }
+    }
+    const resolve = (value: string | undefined) =>
+      value?.replace(/\$\{([^}]+)\}/g, (ref, key) => properties[key] ?? ref);
+
+    const dependencies: Dependency[] = [];
+    for (const match of withoutComments.matchAll(/<(dependency|plugin)>([\s\S]*?)<\/\1>/g)) {
+      const groupId = xmlValue(match[2], "groupId");
+      const artifactId = xmlValue(match[2], "artifactId");
+      if (!artifactId) continue;
+
+      const mavenScope = xmlValue(match[2], "scope");
+      const scope: DependencyScope =
+        match[1] === "plugin" || mavenScope === "provided"
+          ? "build"
+          : mavenScope === "test"
+            ? "dev"
+            : "runtime";
+
+      dependencies.push(
+        dependency(
+          "maven",
+          manifestPath,
+          groupId ? `${groupId}:${artifactId}` : artifactId,
+          resolve(xmlValue(match[2], "version")),
+          scope
+        )
+      );
+    }
+
+    return dependencies;
+  },
+};
+
+const GRADLE_SCOPES: Record<string, DependencyScope> = {
+  implementation: "runtime",
+  api: "runtime",
+  compile: "runtime",
+  runtimeOnly: "runtime",
+  compileOnly: "build",
+  annotationProcessor: "build",
+  kapt: "build",
+  ksp: "build",
+  classpath: "build",
+  testImplementation: "dev",
+  testCompileOnly: "dev",
+  testRuntimeOnly: "dev",
+  androidTestImplementation: "dev",
+  debugImplementation: "dev",
+};
+
+const gradleParser: ManifestParser = {
+  ecosystem: "gradle",
+  matches: (fileName) => fileName === "build.gradle" || fileName === "build.gradle.kts",
+  parse: (content, manifestPath) => {
+    const dependencies: Dependency[] = [];
+    const pattern = /^\s*(\w+)\s*\(?\s*["']([^"':]+):([^"':]+)(?::([^"']+))?["']/gm;
+
+    for (const match of content.matchAll(pattern)) {
+      const scope = GRADLE_SCOPES[match[1]];
+      if (!scope) continue;
+      dependencies.push(dependency("gradle", manifestPath, `${match[2]}:${match[3]}`, match[4], scope));
+    }
+
+    return dependencies;
+  },
+};
+
+const composerJsonParser: ManifestParser = {
+  ecosystem: "composer",
+  matches: (fileName) => fileName === "composer.json",
+  parse: (content, manifestPath) => {
+    const parsed = JSON.parse(content);
+    // Platform requirements (php, ext-*) are not packages
+    const isPackage = (dep: Dependency) => dep.name.includes("/");
+    return [
+      ...tableEntries("composer", manifestPath, parsed.require, "runtime"),
+      ...tableEntries("composer", manifestPath, parsed["require-dev"], "dev"),
+    ].filter(isPackage);
+  },
+};
+
+const pubspecParser: ManifestParser = {
+  ecosystem: "pub",
+  matches: (fileName) => fileName === "pubspec.yaml",
+  parse: (content, manifestPath) => {
+    const parsed = parseYaml(content) as Table | null;
+    if (!parsed) return [];
+    return [
+      ...tableEntries("pub", manifestPath, parsed.dependencies, "runtime"),
+      ...tableEntries("pub", manifestPath, parsed.dev_dependencies, "dev"),
+    ];
+  },
+};
+
+const csprojParser: ManifestParser = {
+  ecosystem: "nuget",
+  matches: (fileName) => fileName.endsWith(".csproj"),
+  parse: (content, manifestPath) => {
+    const dependencies: Dependency[] = [];
+    const pattern = /<PackageReference\s+([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g;
+
+    for (const match of content.matchAll(pattern)) {
+      const attributes = match[1];
+      const name = attributes.match(/Include="([^"]+)"/)?.[1];
+      if (!name) continue;
+
+      const version = attributes.match(/Version="([^"]+)"/)?.[1] ?? xmlValue(match[2] || "", "Version");
+      const privateAssets = /PrivateAssets="all"/i.test(attributes) || /<PrivateAssets>all</i.test(match[2] || "");
+      dependencies.push(dependency("nuget", manifestPath, name, version, privateAssets ? "build" : "runtime"));
+    }
+
+    return dependencies;
+  },
+};
+
+const MANIFEST_PARSERS: ManifestParser[] = [
+  packageJsonParser,
+  requirementsTxtParser,
+  pyprojectParser,
+  pipfileParser,
+  goModParser,
+  cargoTomlParser,
+  gemfileParser,
+  pomXmlParser,
+  gradleParser,
+  composerJsonParser,
+  pubspecParser,
+  csprojParser,
+];
+
+/**
+ * Checks whether a file name is a dependency manifest we know how to parse
+ */
+export function isManifestFile(fileName: string): boolean {
+  return MANIFEST_PARSERS.some((parser) => parser.matches(fileName));
+}
+
+/**
+ * Parses a dependency manifest, returning an empty list if it cannot be parsed
+ * @param manifestPath Path of the manifest within the repository
+ * @param content Raw manifest content
+ */
+export function parseManifest(manifestPath: string, content: string): Dependency[] {
+  const fileName = manifestPath.split("/").pop() || manifestPath;
+  const parser = MANIFEST_PARSERS.find((candidate) => candidate.matches(fileName));
+  if (!parser) return [];
+
+  try {
+    return parser.parse(content, manifestPath);
+  } catch (error) {
+    console.warn(`Could not parse ${parser.ecosystem} manifest ${manifestPath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Flattens structured dependencies into a name to version map
+ */
+export function toDependencyMap(dependencies: Dependency[]): { [key: string]: string } {
+  const map: { [key: string]: string } = {};
+  for (const dep of dependencies) {
+    if (!(dep.name in map)) {
+      map[dep.name] = dep.version;
+    }
+  }
+  return map;
+}
+
+/**
+ * Renders dependencies grouped by manifest for prompts
+ */
+export function formatDependencies(dependencies: Dependency[]): string {
+  const byManifest = new Map<string, Dependency[]>();
+  for (const dep of dependencies) {
+    const list = byManifest.get(dep.manifestPath) || [];
+    list.push(dep);
+    byManifest.set(dep.manifestPath, list);
+  }
+
+  return Array.from(byManifest.entries())
+    .map(([manifestPath, deps]) => {
+      const lines = deps.map(
+        (dep) => `  - ${dep.name}: ${dep.version}${dep.scope !== "runtime" ? ` (${dep.scope})` : ""}`
+      );
+      return `- ${manifestPath} (${deps[0].ecosystem}):\n${lines.join("\n")}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Reads the package or module name a manifest declares, if any
+ * @param manifestPath Path of the manifest within the repository
+ * @param content Raw manifest content
+ */
+export function getManifestPackageName(manifestPath: string, content: string): string | null {
+  const fileName = manifestPath.split("/").pop() || manifestPath;
+
+  try {
+    if (fileName === "package.json" || fileName === "composer.json") {
+      const name = JSON.parse(content).name;
+      return typeof name === "string" ? name : null;
+    }
+    if (fileName === "Cargo.toml" || fileName === "pyproject.toml") {
+      const parsed = parseToml(content) as Table;
+      const sections = [parsed.package, parsed.project, isTable(parsed.tool) ? parsed.tool.poetry : undefined];
+      const section = sections.find((candidate) => isTable(candidate) && typeof candidate.name === "string");
+      return isTable(section) ? (section.name as string) : null;
+    }
+    if (fileName === "go.mod") {
+      return content.match(/^module\s+(\S+)/m)?.[1] ?? null;
+    }
+    if (fileName === "pubspec.yaml") {
+      const parsed = parseYaml(content) as Table | null;
+      return parsed && typeof parsed.name === "string" ? parsed.name : null;
+    }
+    if (fileName === "pom.xml") {
+      // The project's own artifactId comes before any dependency declarations
+      const header = content.replace(/<parent>[\s\S]*?<\/parent>/, "").split(/<dependencies>|<build>/)[0];
+      return xmlValue(header, "artifactId") ?? null;
+    }
+    if (fileName.endsWith(".csproj")) {
+      return fileName.replace(/\.csproj$/, "");
+    }
+  } catch (error) {
+    console.warn(`Could not read package name from ${manifestPath}:`, error);
+  }
+
+  return null;
+}
@@ -0,0 +1,54 @@
+import { Octokit } from "octokit";
+import { describe, expect, it, vi } from "vitest";
+import { GitHubResponseCache } from "./response-cache";
+
+/**
+ * A GitHub API that answers each token with its own body under the same ETag,
+ * and 304 to any conditional request with a matching ETag
+ */
+function createApi() {
+  const requests: Array<{ authorization?: string; ifNoneMatch?: string }> = [];
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const headers = new Headers(init.headers);
+    const authorization = headers.get("authorization") || undefined;
+    const ifNoneMatch = headers.get("if-none-match") || undefined;
+    requests.push({ authorization, ifNoneMatch });
+
+    if (ifNoneMatch === '"v1"') {
+      return new Response(null, { status: 304, headers: { etag: '"v1"' } });
+    }
+    return new Response(JSON.stringify({ private: true, viewer: authorization }), {
+      status: 200,
+      headers: { "content-type": "application/json", etag: '"v1"' },
+    });
+  });
+  return { fetch, requests };
+}
+
+function createClient(cache: GitHubResponseCache, fetch: unknown, token: string) {
+  const octokit = new Octokit({ auth: token, request: { fetch }, retry: { enabled: false }, throttle: { enabled: false } });
+  cache.attach(octokit, token);
+  return octokit;
+}
+
+describe("GitHubResponseCache", () => {
+  it("never answers one token's request from another token's entry", async () => {
+    const cache = new GitHubResponseCache();
+    const { fetch, requests } = createApi();
+    const alice = createClient(cache, fetch, "alice-token");
+    const bob = createClient(cache, fetch, "bob-token");
+
+    const first = await alice.request("GET /repos/{owner}/{repo}", { owner: "acme", repo: "cache-isolation" });
+    const other = await bob.request("GET /repos/{owner}/{repo}", { owner: "acme", repo: "cache-isolation" });
+    const again = await alice.request("GET /repos/{owner}/{repo}", { owner: "acme", repo: "cache-isolation" });
+
+    // Bob's request is not conditional on Alice's ETag, and gets his own body
+    expect(requests[1].ifNoneMatch).toBeUndefined();
+    expect(other.data).toEqual({ private: true, viewer: "token bob-token" });
+
+    // Alice's repeated request is answered from her own entry
+    expect(requests[2].ifNoneMatch).toBe('"v1"');
+    expect(again.data).toEqual(first.data);
+    expect(again.data).toEqual({ private: true, viewer: "token alice-token" });
+  });
+});
@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import type { Octokit } from "octokit";
+
+type RequestOptions = Required<Parameters<Octokit["request"]["endpoint"]["parse"]>[0]>;
+type RequestResult = Awaited<ReturnType<Octokit["request"]>>;
+
+interface CachedResponse {
+  etag: string;
+  response: RequestResult;
+  size: number; // Approximate memory used by the response, in bytes
+}
+
+/**
+ * Caches GitHub GET responses by ETag. Repeated requests send If-None-Match,
+ * and a 304 Not Modified reply (which does not count against the rate limit)
+ * is answered from the cache. Entries are kept per token, since the same URL
+ * returns private data and permissions that differ between users.
+ */
+export class GitHubResponseCache {
+  private responses: Map<string, CachedResponse>;
+  private stats: { hits: number; misses: number };
+  private readonly MAX_ENTRIES = 5000; // Least recently used responses are dropped beyond this
+  private readonly MAX_TOTAL_SIZE = 64 * 1024 * 1024; // Approximate memory budget for all responses
+  private readonly MAX_RESPONSE_SIZE = 2 * 1024 * 1024; // Larger responses are not cached
+
+  constructor() {
+    // Share the cache between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__GITHUB_RESPONSE_CACHE__) {
+      globalStore.__GITHUB_RESPONSE_CACHE__ = {
+        responses: new Map<string, CachedResponse>(),
+        stats: { hits: 0, misses: 0 },
+      };
+    }
+    const shared = globalStore.__GITHUB_RESPONSE_CACHE__ as {
+      responses: Map<string, CachedResponse>;
+      stats: { hits: number; misses: number };
+    };
+    this.responses = shared.responses;
+    this.stats = shared.stats;
+  }
+
+  /**
+   * Adds conditional requests to an Octokit instance
+   * @param token The token the instance authenticates with, if any
+   */
+  attach(octokit: Octokit, token?: string): void {
+    octokit.hook.wrap("request", (request, options) => this.request(octokit, token, request, options));
+  }
+
+  getStats(): { hits: number; misses: number; entries: number } {
+    return { ...this.stats, entries: this.responses.size };
+  }
+
+  private async request(
+    octokit: Octokit,
+    token: string | undefined,
+    request: (options: RequestOptions) => RequestResult | Promise<RequestResult>,
+    options: RequestOptions
+  ): Promise<RequestResult> {
+    if (options.method !== "GET") {
+      return request(options);
+    }
+
+    // The same URL returns different bodies for different media types and identities;
+    // a request may also carry its own authorization instead of the instance's token
+    const endpoint = octokit.request.endpoint.parse(options);
+    const authorization = (endpoint.headers as Record<string, string | undefined>).authorization || token || "";
+    const identity = authorization ? createHash("sha256").update(authorization).digest("hex").substring(0, 16) : "anonymous";
+    const key = `${identity} ${endpoint.url} ${endpoint.headers.accept || ""}`;
+    const cached = this.responses.get(key);
+    if (cached) {
+      options.headers = { ...options.headers, "if-none-match": cached.etag };
+    }
+
+    try {
+      const response = await request(options);
+      this.stats.misses++;
+      this.store(key, response);
+      return response;
+    } catch (error) {
+      if (cached && (error as { status?: number }).status === 304) {
+        this.stats.hits++;
+        // Move to the end of the map so it is evicted last
+        this.responses.delete(key);
+        this.responses.set(key, cached);
+        return cached.response;
+      }
+      throw error;
+    }
+  }
+
+  private store(key: string, response: RequestResult): void {
+    const etag = response.headers.etag;
+    if (!etag) {
+      return;
+    }
+
+    let size = 0;
+    try {
+      // JavaScript strings use two bytes per character
+      size = (typeof response.data === "string" ? response.data : JSON.stringify(response.data) || "").length * 2;
+    } catch {
+      return;
+    }
+    if (size > this.MAX_RESPONSE_SIZE) {
+      return;
+    }
+
+    this.responses.delete(key);
+    this.responses.set(key, { etag, response, size });
+
+    // Maps iterate in insertion order, so the first entries are the least recently used
+    let totalSize = Array.from(this.responses.values()).reduce((total, entry) => total + entry.size, 0);
+    for (const [oldestKey, entry] of this.responses) {
+      if (this.responses.size <= this.MAX_ENTRIES && totalSize <= this.MAX_TOTAL_SIZE) break;
+      this.responses.delete(oldestKey);
+      totalSize -= entry.size;
+    }
+  }
+}
+
+// Create a singleton instance
+export const githubResponseCache = new GitHubResponseCache();
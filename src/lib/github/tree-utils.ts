@@ -0,0 +1,51 @@
+import { TreeNode } from "./github-service";
+
+/**
+ * Flattens a nested folder structure into a list of nodes (depth-first)
+ */
+export function flattenTree(nodes: TreeNode[]): TreeNode[] {
+  const result: TreeNode[] = [];
+
+  const walk = (items: TreeNode[]) => {
+    for (const item of items) {
+      result.push(item);
+      if (item.children && item.children.length > 0) {
+        walk(item.children);
+      }
+    }
+  };
+
+  walk(nodes);
+  return result;
+}
+
+/**
+ * Renders a nested folder structure as an indented listing for prompts
+ * @param nodes The nested folder structure
+ * @param maxLines Maximum number of lines to render before eliding the rest
+ */
+export function formatTree(nodes: TreeNode[], maxLines: number = 400): string {
+  const lines: string[] = [];
+  let elided = 0;
+
+  const walk = (items: TreeNode[], indent: string) => {
+    for (const item of items) {
+      if (lines.length >= maxLines) {
+        elided++;
+      } else {
+        lines.push(`${indent}${item.name}${item.type === "dir" ? "/" : ""}`);
+      }
+      if (item.children && item.children.length > 0) {
+        walk(item.children, indent + "  ");
+      }
+    }
+  };
+
+  walk(nodes, "");
+
+  if (elided > 0) {
+    lines.push(`... (${elided} more entries not shown)`);
+  }
+
+  return lines.join("\n");
+}
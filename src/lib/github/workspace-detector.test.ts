@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import { TreeNode, WorkspaceInfo } from "./github-service";
+import { parseManifest } from "./manifest-parsers";
+import { detectWorkspace, formatWorkspace, generateWorkspaceDiagram, isWorkspaceFile } from "./workspace-detector";
+
+/**
+ * Builds the nested tree, the manifests' dependencies and a file reader for a set of files
+ */
+function createRepository(files: Record<string, string>) {
+  const tree: TreeNode[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    const parts = path.split("/");
+    let level = tree;
+    parts.forEach((name, index) => {
+      const isFile = index === parts.length - 1;
+      let node = level.find((candidate) => candidate.name === name);
+      if (!node) {
+        node = isFile
+          ? { name, path, type: "file", size: content.length }
+          : { name, path: parts.slice(0, index + 1).join("/"), type: "dir", size: 0, children: [] };
+        level.push(node);
+      }
+      level = node.children || [];
+    });
+  }
+
+  return {
+    tree,
+    dependencies: Object.entries(files).flatMap(([path, content]) => parseManifest(path, content)),
+    readFile: async (path: string) => files[path] ?? null,
+  };
+}
+
+const pnpmTurborepo = {
+  "package.json": JSON.stringify({ name: "acme", private: true }),
+  "pnpm-workspace.yaml": "packages:\n  - apps/*\n  - packages/*\n  - '!packages/legacy'\n",
+  "turbo.json": "{}",
+  "apps/web/package.json": JSON.stringify({ name: "web", dependencies: { "@acme/ui": "workspace:*", next: "15.3.2" } }),
+  "apps/web/src/page.tsx": "export default function Page() {}\n",
+  "packages/ui/package.json": JSON.stringify({ name: "@acme/ui", dependencies: { react: "^19.0.0" } }),
+  "packages/ui/src/button.tsx": "export function Button() {}\n",
+  "packages/legacy/package.json": JSON.stringify({ name: "legacy" }),
+};
+
+describe("detectWorkspace", () => {
+  it.each<[string, Record<string, string>, WorkspaceInfo | null]>([
+    [
+      "pnpm workspaces with Turborepo",
+      pnpmTurborepo,
+      {
+        tools: ["pnpm", "turborepo"],
+        packages: [
+          { name: "web", path: "apps/web", language: "TypeScript", dependencies: ["next"], internalDependencies: ["@acme/ui"] },
+          { name: "@acme/ui", path: "packages/ui", language: "TypeScript", dependencies: ["react"], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "yarn workspaces managed by Lerna",
+      {
+        "package.json": JSON.stringify({ workspaces: { packages: ["packages/*"] } }),
+        "yarn.lock": "",
+        "lerna.json": JSON.stringify({ useWorkspaces: true }),
+        "packages/a/package.json": JSON.stringify({ name: "a", dependencies: { b: "^1.0.0", lodash: "^4.17.21" } }),
+        "packages/a/index.js": "module.exports = {};\n",
+        "packages/b/package.json": JSON.stringify({ name: "b" }),
+        "packages/b/index.js": "module.exports = {};\n",
+      },
+      {
+        tools: ["yarn", "lerna"],
+        packages: [
+          { name: "a", path: "packages/a", language: "JavaScript", dependencies: ["lodash"], internalDependencies: ["b"] },
+          { name: "b", path: "packages/b", language: "JavaScript", dependencies: [], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "Nx projects",
+      {
+        "nx.json": "{}",
+        "apps/api/project.json": JSON.stringify({ name: "api" }),
+        "apps/api/src/main.ts": "bootstrap();\n",
+        "libs/data/project.json": JSON.stringify({ name: "data" }),
+      },
+      {
+        tools: ["nx"],
+        packages: [
+          { name: "api", path: "apps/api", language: "TypeScript", dependencies: [], internalDependencies: [] },
+          { name: "data", path: "libs/data", language: "", dependencies: [], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "a Cargo workspace",
+      {
+        "Cargo.toml": '[workspace]\nmembers = ["crates/*"]\nexclude = ["crates/experimental"]\n',
+        "crates/core/Cargo.toml": '[package]\nname = "widgets-core"\n',
+        "crates/core/src/lib.rs": "pub fn run() {}\n",
+        "crates/cli/Cargo.toml":
+          '[package]\nname = "widgets-cli"\n\n[dependencies]\nwidgets-core = { path = "../core" }\nclap = "4"\n',
+        "crates/cli/src/main.rs": "fn main() {}\n",
+        "crates/experimental/Cargo.toml": '[package]\nname = "experimental"\n',
+      },
+      {
+        tools: ["cargo"],
+        packages: [
+          { name: "widgets-cli", path: "crates/cli", language: "Rust", dependencies: ["clap"], internalDependencies: ["widgets-core"] },
+          { name: "widgets-core", path: "crates/core", language: "Rust", dependencies: [], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "a go.work workspace",
+      {
+        "go.work": "go 1.22\n\nuse (\n\t./api\n\t./worker\n)\n",
+        "api/go.mod": "module github.com/acme/api\n\ngo 1.22\n",
+        "worker/go.mod":
+          "module github.com/acme/worker\n\ngo 1.22\n\nrequire (\n\tgithub.com/acme/api v0.0.0\n\tgithub.com/google/uuid v1.6.0\n)\n",
+        "worker/main.go": "package main\n",
+        "tools/go.mod": "module github.com/acme/tools\n",
+      },
+      {
+        tools: ["go"],
+        packages: [
+          { name: "github.com/acme/api", path: "api", language: "", dependencies: [], internalDependencies: [] },
+          {
+            name: "github.com/acme/worker",
+            path: "worker",
+            language: "Go",
+            dependencies: ["github.com/google/uuid"],
+            internalDependencies: ["github.com/acme/api"],
+          },
+        ],
+      },
+    ],
+    [
+      "several Go modules without a go.work",
+      {
+        "api/go.mod": "module github.com/acme/api\n",
+        "worker/go.mod": "module github.com/acme/worker\n",
+      },
+      {
+        tools: ["go"],
+        packages: [
+          { name: "github.com/acme/api", path: "api", language: "", dependencies: [], internalDependencies: [] },
+          { name: "github.com/acme/worker", path: "worker", language: "", dependencies: [], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "a Gradle multi-project build",
+      {
+        "settings.gradle.kts": 'rootProject.name = "widgets"\ninclude(":app", ":libs:core")\n',
+        "app/build.gradle.kts":
+          'dependencies {\n    implementation(project(":libs:core"))\n    implementation("com.squareup.okhttp3:okhttp:4.12.0")\n}\n',
+        "libs/core/build.gradle.kts": "dependencies {}\n",
+      },
+      {
+        tools: ["gradle"],
+        packages: [
+          {
+            name: ":app",
+            path: "app",
+            language: "Kotlin",
+            dependencies: ["com.squareup.okhttp3:okhttp"],
+            internalDependencies: [":libs:core"],
+          },
+          { name: ":libs:core", path: "libs/core", language: "Kotlin", dependencies: [], internalDependencies: [] },
+        ],
+      },
+    ],
+    [
+      "a single package",
+      {
+        "package.json": JSON.stringify({ name: "widgets", dependencies: { react: "^19.0.0" } }),
+        "src/index.ts": "export {};\n",
+      },
+      null,
+    ],
+  ])("detects %s", async (_layout, files, expected) => {
+    const { tree, dependencies, readFile } = createRepository(files);
+    expect(await detectWorkspace(tree, "", dependencies, readFile)).toEqual(expected);
+  });
+
+  it("keeps repository paths when the analysis is scoped to a subdirectory", async () => {
+    const files = Object.fromEntries(Object.entries(pnpmTurborepo).map(([path, content]) => [`frontend/${path}`, content]));
+    const { tree, dependencies, readFile } = createRepository(files);
+    const scoped = tree.find((node) => node.name === "frontend")!.children!;
+
+    const workspace = await detectWorkspace(scoped, "frontend", dependencies, readFile);
+
+    expect(workspace?.packages.map((pkg) => [pkg.path, pkg.dependencies, pkg.internalDependencies])).toEqual([
+      ["frontend/apps/web", ["next"], ["@acme/ui"]],
+      ["frontend/packages/ui", ["react"], []],
+    ]);
+  });
+});
+
+describe("isWorkspaceFile", () => {
+  it.each([
+    ["pnpm-workspace.yaml", true],
+    ["project.json", true],
+    ["go.mod", true],
+    ["settings.gradle.kts", true],
+    ["tsconfig.json", false],
+  ])("%s → %s", (fileName, expected) => {
+    expect(isWorkspaceFile(fileName)).toBe(expected);
+  });
+});
+
+describe("generateWorkspaceDiagram and formatWorkspace", () => {
+  it("renders the internal dependencies between packages", async () => {
+    const { tree, dependencies, readFile } = createRepository(pnpmTurborepo);
+    const workspace = (await detectWorkspace(tree, "", dependencies, readFile))!;
+
+    expect(generateWorkspaceDiagram(workspace)).toBe(
+      ["graph LR", '    P0["web<br/>apps/web"]', '    P1["@acme/ui<br/>packages/ui"]', "    P0 --> P1"].join("\n")
+    );
+    expect(formatWorkspace(workspace)).toBe(
+      [
+        "Workspace tools: pnpm, turborepo",
+        "- web (apps/web, TypeScript): 1 external dependencies; depends on workspace packages: @acme/ui",
+        "- @acme/ui (packages/ui, TypeScript): 1 external dependencies; depends on workspace packages: none",
+      ].join("\n")
+    );
+  });
+});
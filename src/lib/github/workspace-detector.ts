@@ -0,0 +1,334 @@
+import { parse as parseToml } from "smol-toml";
+import { parse as parseYaml } from "yaml";
+import {
+  Dependency,
+  TreeNode,
+  WorkspaceInfo,
+  WorkspacePackage,
+  WorkspaceTool,
+} from "./github-service";
+import { inferLanguage } from "./file-selector";
+import { getManifestPackageName, isManifestFile } from "./manifest-parsers";
+import { flattenTree } from "./tree-utils";
+
+type Table = Record<string, unknown>;
+
+const isTable = (value: unknown): value is Table =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+// Root files that describe a workspace layout
+const WORKSPACE_CONFIG_FILES = [
+  "package.json",
+  "pnpm-workspace.yaml",
+  "lerna.json",
+  "nx.json",
+  "turbo.json",
+  "Cargo.toml",
+  "go.work",
+  "settings.gradle",
+  "settings.gradle.kts",
+];
+
+const MAX_DIAGRAM_PACKAGES = 40; // Keep the Mermaid graph readable
+
+/**
+ * Whether a change to this file can change the detected workspace
+ */
+export function isWorkspaceFile(fileName: string): boolean {
+  return WORKSPACE_CONFIG_FILES.includes(fileName) || fileName === "project.json" || fileName === "go.mod";
+}
+
+/**
+ * Converts a workspace glob such as `packages/*` or `apps/**` into a regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const normalized = glob.replace(/^\.\//, "").replace(/\/+$/, "");
+  const pattern = normalized
+    .split("**")
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]")
+    )
+    .join(".*");
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Matches workspace globs (with `!` exclusions) against directories that contain a marker file
+ */
+function matchDirectories(patterns: string[], directories: string[]): string[] {
+  const includes = patterns.filter((pattern) => !pattern.startsWith("!")).map(globToRegExp);
+  const excludes = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => globToRegExp(pattern.slice(1)));
+
+  return directories.filter(
+    (dir) => includes.some((regex) => regex.test(dir)) && !excludes.some((regex) => regex.test(dir))
+  );
+}
+
+/**
+ * Reads the module paths listed by `use` directives in a go.work file
+ */
+function parseGoWork(content: string): string[] {
+  const paths: string[] = [];
+  let inUseBlock = false;
+
+  for (const line of content.split("\n")) {
+    const trimmedLine = line.split("//")[0].trim();
+    if (trimmedLine.startsWith("use (")) {
+      inUseBlock = true;
+    } else if (inUseBlock && trimmedLine === ")") {
+      inUseBlock = false;
+    } else if (inUseBlock && trimmedLine) {
+      paths.push(trimmedLine);
+    } else if (trimmedLine.startsWith("use ")) {
+      paths.push(trimmedLine.slice("use ".length).trim());
+    }
+  }
+
+  return paths.map((path) => path.replace(/^\.\/?/, "").replace(/\/+$/, ""));
+}
+
+/**
+ * Reads the project paths included by a Gradle settings file, e.g. `include(":app", ":libs:core")`
+ */
+function parseGradleSettings(content: string): string[] {
+  const projects: string[] = [];
+
+  for (const match of content.matchAll(/^\s*include\s*\(?([^)\n]*)\)?/gm)) {
+    for (const project of match[1].matchAll(/["']:?([^"']+)["']/g)) {
+      projects.push(project[1].replace(/:/g, "/"));
+    }
+  }
+
+  return projects;
+}
+
+/**
+ * Detects monorepo workspace layouts and builds a per-package inventory
+ * @param tree The (possibly scoped) nested folder structure
+ * @param basePath Directory the tree is rooted at ("" for the repository root)
+ * @param dependencies Dependencies parsed from the manifests in the tree
+ * @param readFile Reads a file's text by repository path
+ */
+export async function detectWorkspace(
+  tree: TreeNode[],
+  basePath: string,
+  dependencies: Dependency[],
+  readFile: (path: string) => Promise<string | null>
+): Promise<WorkspaceInfo | null> {
+  const prefix = basePath ? `${basePath}/` : "";
+  const relative = (path: string) => path.slice(prefix.length);
+
+  // Read the root configuration files that exist
+  const rootFiles = tree.filter(
+    (node) => node.type === "file" && WORKSPACE_CONFIG_FILES.includes(node.name)
+  );
+  const configs: Record<string, string> = {};
+  await Promise.all(
+    rootFiles.map(async (node) => {
+      const content = await readFile(node.path);
+      if (content !== null) configs[node.name] = content;
+    })
+  );
+
+  // Directories (relative to the base) that contain each kind of marker file
+  const allNodes = flattenTree(tree);
+  const directoriesWith = (fileName: string) =>
+    allNodes
+      .filter((node) => node.type === "file" && node.name === fileName && node.path.includes("/", prefix.length))
+      .map((node) => relative(node.path.slice(0, node.path.lastIndexOf("/"))));
+
+  const tools: WorkspaceTool[] = [];
+  const packageDirs = new Set<string>();
+  const addPackages = (tool: WorkspaceTool, dirs: string[]) => {
+    if (dirs.length === 0) return;
+    if (!tools.includes(tool)) tools.push(tool);
+    dirs.forEach((dir) => packageDirs.add(dir));
+  };
+
+  try {
+    // npm / yarn workspaces in package.json
+    const packageJson = configs["package.json"] ? JSON.parse(configs["package.json"]) : {};
+    const workspaces = Array.isArray(packageJson.workspaces)
+      ? toStringList(packageJson.workspaces)
+      : toStringList(packageJson.workspaces?.packages);
+    if (workspaces.length > 0) {
+      const tool: WorkspaceTool = tree.some((node) => node.name === "yarn.lock") ? "yarn" : "npm";
+      addPackages(tool, matchDirectories(workspaces, directoriesWith("package.json")));
+    }
+
+    // pnpm workspaces
+    if (configs["pnpm-workspace.yaml"]) {
+      const pnpm = parseYaml(configs["pnpm-workspace.yaml"]) as Table | null;
+      addPackages("pnpm", matchDirectories(toStringList(pnpm?.packages), directoriesWith("package.json")));
+    }
+
+    // Lerna (defaults to packages/*)
+    if (configs["lerna.json"]) {
+      const lerna = JSON.parse(configs["lerna.json"]);
+      const patterns = toStringList(lerna.packages);
+      addPackages(
+        "lerna",
+        patterns.length > 0 || !lerna.useWorkspaces
+          ? matchDirectories(patterns.length > 0 ? patterns : ["packages/*"], directoriesWith("package.json"))
+          : workspaces.length > 0
+            ? matchDirectories(workspaces, directoriesWith("package.json"))
+            : []
+      );
+    }
+
+    // Nx projects are marked by project.json files
+    if (configs["nx.json"]) {
+      const projectDirs = directoriesWith("project.json");
+      if (!tools.includes("nx")) tools.push("nx");
+      projectDirs.forEach((dir) => packageDirs.add(dir));
+    }
+
+    // Turborepo relies on the package manager's workspaces
+    if (configs["turbo.json"] && !tools.includes("turborepo")) {
+      tools.push("turborepo");
+    }
+
+    // Cargo workspaces
+    if (configs["Cargo.toml"]) {
+      const cargo = parseToml(configs["Cargo.toml"]) as Table;
+      if (isTable(cargo.workspace)) {
+        const members = toStringList(cargo.workspace.members);
+        const excludes = toStringList(cargo.workspace.exclude).map((pattern) => `!${pattern}`);
+        addPackages("cargo", matchDirectories([...members, ...excludes], directoriesWith("Cargo.toml")));
+      }
+    }
+
+    // Go workspaces, or several go.mod files without a go.work
+    if (configs["go.work"]) {
+      addPackages("go", parseGoWork(configs["go.work"]).filter(Boolean));
+    } else {
+      const modules = directoriesWith("go.mod");
+      if (modules.length > 1) addPackages("go", modules);
+    }
+
+    // Gradle multi-project builds
+    const gradleSettings = configs["settings.gradle"] || configs["settings.gradle.kts"];
+    if (gradleSettings) {
+      addPackages("gradle", parseGradleSettings(gradleSettings));
+    }
+  } catch (error) {
+    console.warn("Error detecting workspace layout:", error);
+  }
+
+  if (packageDirs.size === 0) {
+    return null;
+  }
+
+  // Build the per-package inventory
+  const directoryNodes = new Map(
+    allNodes.filter((node) => node.type === "dir").map((node) => [relative(node.path), node])
+  );
+
+  const packages: WorkspacePackage[] = await Promise.all(
+    Array.from(packageDirs)
+      .sort()
+      .map(async (dir) => {
+        const node = directoryNodes.get(dir);
+        const children = node?.children || [];
+        const manifests = children.filter(
+          (child) => child.type === "file" && (isManifestFile(child.name) || child.name === "project.json")
+        );
+
+        let name: string | null = null;
+        for (const manifest of manifests) {
+          const content = await readFile(manifest.path);
+          name = content ? getManifestPackageName(manifest.path, content) : null;
+          if (!name && content && manifest.name === "project.json") {
+            try {
+              name = JSON.parse(content).name ?? null;
+            } catch {
+              name = null;
+            }
+          }
+          if (name) break;
+        }
+
+        const packagePath = prefix + dir;
+        const gradleProject = tools.includes("gradle") ? `:${dir.replace(/\//g, ":")}` : null;
+
+        return {
+          name: name || gradleProject || dir,
+          path: packagePath,
+          language: inferLanguage(children),
+          dependencies: dependencies
+            .filter((dep) => dep.manifestPath.startsWith(`${packagePath}/`) &&
+              !dep.manifestPath.slice(packagePath.length + 1).includes("/"))
+            .map((dep) => dep.name),
+          internalDependencies: [],
+        };
+      })
+  );
+
+  // Internal edges: dependencies that name another workspace package
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+  for (const pkg of packages) {
+    const internal = new Set(pkg.dependencies.filter((dep) => dep !== pkg.name && byName.has(dep)));
+
+    // Gradle projects reference each other with project(":core")
+    if (tools.includes("gradle")) {
+      const buildFile = (directoryNodes.get(relative(pkg.path))?.children || []).find((child) =>
+        child.name === "build.gradle" || child.name === "build.gradle.kts"
+      );
+      const content = buildFile ? await readFile(buildFile.path) : null;
+      for (const match of content?.matchAll(/project\(\s*(?:path:\s*)?["'](:[^"']+)["']/g) || []) {
+        if (byName.has(match[1]) && match[1] !== pkg.name) internal.add(match[1]);
+      }
+    }
+
+    pkg.internalDependencies = Array.from(internal);
+    pkg.dependencies = pkg.dependencies.filter((dep) => !internal.has(dep));
+  }
+
+  console.log(`Detected ${tools.join(", ")} workspace with ${packages.length} packages`);
+  return { tools, packages };
+}
+
+/**
+ * Generates a Mermaid graph of the internal dependencies between workspace packages
+ */
+export function generateWorkspaceDiagram(workspace: WorkspaceInfo): string {
+  const packages = workspace.packages.slice(0, MAX_DIAGRAM_PACKAGES);
+  const ids = new Map(packages.map((pkg, index) => [pkg.name, `P${index}`]));
+  const label = (text: string) => text.replace(/"/g, "'");
+
+  const lines = ["graph LR"];
+  for (const pkg of packages) {
+    lines.push(`    ${ids.get(pkg.name)}["${label(pkg.name)}<br/>${label(pkg.path)}"]`);
+  }
+  for (const pkg of packages) {
+    for (const dep of pkg.internalDependencies) {
+      if (ids.has(dep)) {
+        lines.push(`    ${ids.get(pkg.name)} --> ${ids.get(dep)}`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the workspace package inventory for prompts
+ */
+export function formatWorkspace(workspace: WorkspaceInfo): string {
+  const lines = [`Workspace tools: ${workspace.tools.join(", ")}`];
+  for (const pkg of workspace.packages) {
+    const internal = pkg.internalDependencies.length > 0 ? pkg.internalDependencies.join(", ") : "none";
+    lines.push(
+      `- ${pkg.name} (${pkg.path}${pkg.language ? `, ${pkg.language}` : ""}): ${pkg.dependencies.length} external dependencies; depends on workspace packages: ${internal}`
+    );
+  }
+  return lines.join("\n");
+}
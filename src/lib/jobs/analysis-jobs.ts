@@ -0,0 +1,215 @@
+import { randomUUID } from "crypto";
+import {
+  AnalysisProgressCallback,
+  AnalysisStageName,
+  RepoAnalysisData,
+} from "../github/github-service";
+import { AIAnalysisResult } from "../gemini/gemini-service";
+import { AnalysisChangeDigest } from "../github/change-digest";
+import { GitHubErrorKind, GitHubServiceError } from "../github/github-errors";
+
+export type AnalysisJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface AnalysisStage {
+  name: AnalysisStageName;
+  label: string;
+  status: "pending" | "running" | "done" | "failed" | "cancelled";
+  startedAt?: number;
+  finishedAt?: number;
+  durationMs?: number;
+  counts?: Record<string, number>;
+}
+
+export interface AnalysisJobResult extends RepoAnalysisData {
+  aiAnalysis: AIAnalysisResult;
+  sessionId: string; // Chat session holding the analysis context
+  cachedAt?: number; // Set when the analysis was served from the cache
+  changeDigest?: AnalysisChangeDigest; // Set when a previous analysis was updated incrementally
+}
+
+export interface AnalysisJob {
+  id: string;
+  url: string;
+  ref?: string;
+  status: AnalysisJobStatus;
+  stages: AnalysisStage[];
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+  errorKind?: GitHubErrorKind; // Set when the job failed because of a GitHub error
+  resetAt?: number; // When a GitHub rate limit resets
+  result?: AnalysisJobResult;
+}
+
+export type AnalysisJobRunner = (
+  onProgress: AnalysisProgressCallback,
+  signal: AbortSignal
+) => Promise<AnalysisJobResult>;
+
+// Stages in the order they are shown to the user
+const STAGE_LABELS: Record<AnalysisStageName, string> = {
+  validation: "Validating repository",
+  metadata: "Fetching repository metadata",
+  tree: "Reading the file tree",
+  manifests: "Parsing dependency manifests",
+  files: "Fetching key source files",
+  llm: "Generating AI analysis",
+  diagram: "Generating diagrams",
+};
+
+/**
+ * Keeps track of repository analyses running in the background
+ */
+export class AnalysisJobManager {
+  private jobs: Map<string, AnalysisJob>;
+  private controllers: Map<string, AbortController>;
+  private readonly JOB_TTL = 60 * 60 * 1000; // Keep finished jobs for an hour so clients can resume
+  private readonly MAX_JOBS = 100; // Oldest finished jobs are dropped beyond this
+
+  constructor() {
+    // Share jobs between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__ANALYSIS_JOBS__) {
+      globalStore.__ANALYSIS_JOBS__ = {
+        jobs: new Map<string, AnalysisJob>(),
+        controllers: new Map<string, AbortController>(),
+      };
+    }
+    const shared = globalStore.__ANALYSIS_JOBS__ as {
+      jobs: Map<string, AnalysisJob>;
+      controllers: Map<string, AbortController>;
+    };
+    this.jobs = shared.jobs;
+    this.controllers = shared.controllers;
+  }
+
+  /**
+   * Starts a job in the background and returns it immediately
+   */
+  createJob(url: string, ref: string | undefined, run: AnalysisJobRunner): AnalysisJob {
+    this.pruneJobs();
+
+    const now = Date.now();
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      url,
+      ref,
+      status: "running",
+      stages: this.getStageNames().map((name) => ({
+        name,
+        label: STAGE_LABELS[name],
+        status: "pending",
+      })),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    console.log(`Started analysis job ${job.id} for ${url}`);
+
+    run((event) => this.updateStage(job, event.stage, event.status, event.counts), controller.signal)
+      .then((result) => {
+        if (job.status !== "running") return;
+        job.status = "completed";
+        job.result = result;
+        job.updatedAt = Date.now();
+        console.log(`Analysis job ${job.id} completed in ${job.updatedAt - job.createdAt}ms`);
+      })
+      .catch((error) => {
+        if (job.status !== "running") return;
+        job.status = "failed";
+        job.error = (error as Error).message || "Analysis failed";
+        if (error instanceof GitHubServiceError) {
+          job.errorKind = error.kind;
+          job.resetAt = error.resetAt;
+        }
+        job.updatedAt = Date.now();
+        job.stages
+          .filter((stage) => stage.status === "running")
+          .forEach((stage) => this.finishStage(stage, "failed"));
+        console.error(`Analysis job ${job.id} failed:`, error);
+      })
+      .finally(() => {
+        this.controllers.delete(job.id);
+      });
+
+    return job;
+  }
+
+  getStageNames(): AnalysisStageName[] {
+    return Object.keys(STAGE_LABELS) as AnalysisStageName[];
+  }
+
+  getJob(id: string): AnalysisJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Cancels a running job; returns false if it was not running
+   */
+  cancelJob(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") {
+      return false;
+    }
+
+    job.status = "cancelled";
+    job.error = "Analysis cancelled";
+    job.updatedAt = Date.now();
+    job.stages
+      .filter((stage) => stage.status === "running")
+      .forEach((stage) => this.finishStage(stage, "cancelled"));
+    this.controllers.get(id)?.abort();
+    console.log(`Cancelled analysis job ${id}`);
+    return true;
+  }
+
+  private updateStage(
+    job: AnalysisJob,
+    name: AnalysisStageName,
+    status: "running" | "done",
+    counts?: Record<string, number>
+  ): void {
+    const stage = job.stages.find((candidate) => candidate.name === name);
+    if (!stage || job.status !== "running") return;
+
+    if (status === "running") {
+      stage.status = "running";
+      stage.startedAt = Date.now();
+    } else {
+      stage.counts = counts;
+      this.finishStage(stage, "done");
+      console.log(`Job ${job.id}: ${name} finished in ${stage.durationMs}ms`, counts || "");
+    }
+    job.updatedAt = Date.now();
+  }
+
+  private finishStage(stage: AnalysisStage, status: AnalysisStage["status"]): void {
+    stage.status = status;
+    stage.finishedAt = Date.now();
+    stage.durationMs = stage.finishedAt - (stage.startedAt ?? stage.finishedAt);
+  }
+
+  /**
+   * Drops expired finished jobs, and the oldest finished ones beyond MAX_JOBS
+   */
+  private pruneJobs(): void {
+    const now = Date.now();
+    const finished = Array.from(this.jobs.values())
+      .filter((job) => job.status !== "running")
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+
+    let excess = this.jobs.size - this.MAX_JOBS + 1;
+    for (const job of finished) {
+      if (now - job.updatedAt > this.JOB_TTL || excess > 0) {
+        this.jobs.delete(job.id);
+        excess--;
+      }
+    }
+  }
+}
+
+// Create a singleton instance
+export const analysisJobs = new AnalysisJobManager();
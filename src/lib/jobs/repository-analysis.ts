@@ -0,0 +1,176 @@
+import {
+  AIAnalysisResult,
+  ANALYSIS_PROMPT_VERSION,
+  GeminiService,
+} from "../gemini/gemini-service";
+import { MCPServer } from "../gemini/mcp-server";
+import { mcpSessions } from "../gemini/mcp-sessions";
+import { AnalysisCacheKey, analysisCache } from "../cache/analysis-cache";
+import { AnalysisChangeDigest, buildChangeDigest } from "../github/change-digest";
+import { createLLMProvider } from "../llm";
+import { createRepositoryProvider, RepositoryHost } from "../repository/repository-hosts";
+import { AnalysisJobRunner, analysisJobs } from "./analysis-jobs";
+
+export interface AnalysisTarget {
+  owner: string;
+  repo: string;
+  ref?: string; // Ref from the URL
+  path?: string; // Subdirectory from the URL
+}
+
+export interface AnalysisOptions {
+  ref?: string; // Overrides the ref from the URL
+  force?: boolean; // Analyze again even if a cached analysis exists
+  githubToken?: string; // The connected user's token (GitHub hosts only)
+}
+
+/**
+ * Creates the job that analyzes a repository: served from the analysis cache when
+ * possible, updated incrementally from an analysis of an earlier commit, or analyzed
+ * from scratch. The result holds a new chat session with the analysis context.
+ */
+export function createAnalysisRunner(
+  host: RepositoryHost,
+  repoInfo: AnalysisTarget,
+  { ref, force, githubToken }: AnalysisOptions = {}
+): AnalysisJobRunner {
+  return async (onProgress, signal) => {
+    console.log(`Analyzing repository: ${repoInfo.owner}/${repoInfo.repo}`);
+    
+    const repositoryProvider = createRepositoryProvider(host, githubToken);
+    const provider = createLLMProvider();
+    const mcpServer = new MCPServer();
+    
+    // Analyses of the same commit, scope, model and prompt are reused unless a refresh is forced
+    const resolvedRef = await repositoryProvider.resolveRef(
+      repoInfo.owner,
+      repoInfo.repo,
+      ref || repoInfo.ref,
+      repoInfo.path
+    );
+    const scopePath = await repositoryProvider.resolveScope(
+      repoInfo.owner,
+      repoInfo.repo,
+      resolvedRef.path,
+      resolvedRef.sha
+    );
+    const cacheKey: AnalysisCacheKey = {
+      host: host.host,
+      owner: repoInfo.owner,
+      repo: repoInfo.repo,
+      sha: resolvedRef.sha,
+      path: scopePath,
+      model: `${provider.name}/${provider.model}`,
+      promptVersion: ANALYSIS_PROMPT_VERSION,
+    };
+    const cached = force === true ? null : analysisCache.get(cacheKey);
+    
+    if (cached) {
+      // Every stage is already done
+      analysisJobs.getStageNames().forEach((stage) => {
+        onProgress({ stage, status: "running" });
+        onProgress({ stage, status: "done" });
+      });
+      mcpServer.initialize(cached.repoAnalysisData, cached.aiAnalysis);
+      
+      return {
+        sessionId: await mcpSessions.create(mcpServer),
+        repoData: cached.repoAnalysisData.repoData,
+        repoContent: cached.repoAnalysisData.repoContent,
+        aiAnalysis: cached.aiAnalysis,
+        cachedAt: cached.cachedAt,
+      };
+    }
+    
+    // Update an analysis of an earlier commit when only part of the repository changed
+    const previous = force === true ? null : analysisCache.findPrevious(cacheKey);
+    const comparison = previous
+      ? await repositoryProvider
+          .compareCommits(repoInfo.owner, repoInfo.repo, previous.sha, resolvedRef.sha)
+          .catch(() => null)
+      : null;
+    const canUpdate = previous && comparison?.status === "ahead" && !comparison.filesTruncated;
+    if (previous && !canUpdate) {
+      console.log(
+        `Cannot update the analysis of ${previous.sha} (${comparison?.status || "comparison failed"}), analyzing from scratch`
+      );
+    }
+    
+    // Analyze repository at the requested ref (or the default branch)
+    const repoAnalysisData = await repositoryProvider.analyzeRepository(
+      repoInfo.owner,
+      repoInfo.repo,
+      ref || repoInfo.ref,
+      repoInfo.path,
+      onProgress,
+      signal,
+      canUpdate
+        ? {
+            data: previous.repoAnalysisData,
+            changedPaths: new Set(
+              comparison.files.flatMap((file) =>
+                file.previousPath ? [file.path, file.previousPath] : [file.path]
+              )
+            ),
+          }
+        : undefined
+    );
+    
+    console.log("Repository data fetched successfully");
+    
+    // Generate AI analysis into a fresh chat session context
+    const geminiService = new GeminiService(mcpServer, provider);
+    let aiAnalysis: AIAnalysisResult;
+    let changeDigest: AnalysisChangeDigest | undefined;
+    if (canUpdate) {
+      changeDigest = buildChangeDigest(
+        comparison,
+        previous.repoAnalysisData,
+        repoAnalysisData,
+        previous.cachedAt,
+        scopePath
+      );
+      const { added, modified, removed, renamed } = changeDigest.files;
+      if (added.length + modified.length + removed.length + renamed.length === 0) {
+        // Nothing changed within the analyzed scope, so the previous analysis still holds
+        console.log(`No changes in scope since ${previous.sha}, reusing the previous analysis`);
+        (["llm", "diagram"] as const).forEach((stage) => {
+          onProgress({ stage, status: "running" });
+          onProgress({ stage, status: "done" });
+        });
+        aiAnalysis = previous.aiAnalysis;
+        mcpServer.initialize(repoAnalysisData, aiAnalysis);
+      } else {
+        console.log(`Updating the analysis of ${previous.sha} for ${comparison.commits.length} new commits...`);
+        const update = await geminiService.updateAnalysis(
+          repoAnalysisData,
+          previous.aiAnalysis,
+          changeDigest,
+          onProgress,
+          signal
+        );
+        aiAnalysis = update.aiAnalysis;
+        changeDigest.updatedSections = update.updatedSections;
+      }
+    } else {
+      console.log("Sending data to the LLM provider for analysis...");
+      aiAnalysis = await geminiService.analyzeRepository(repoAnalysisData, onProgress, signal);
+    }
+    
+    console.log("AI analysis completed successfully");
+    console.log("AI Summary:", aiAnalysis.summary);
+    analysisCache.set(cacheKey, repoAnalysisData, aiAnalysis);
+    
+    // Clients send the session ID with chat requests about this analysis
+    const sessionId = await mcpSessions.create(mcpServer);
+    
+    // Combine all data for the job result
+    return {
+      sessionId,
+      repoData: repoAnalysisData.repoData,
+      repoContent: repoAnalysisData.repoContent,
+      aiAnalysis,
+      changeDigest,
+    };
+  };
+}
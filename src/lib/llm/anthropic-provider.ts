@@ -0,0 +1,210 @@
+import {
+  ChatMessage,
+  GenerateOptions,
+  LLMProvider,
+  ToolChatOptions,
+  ToolConversationMessage,
+  ToolDefinition,
+  ToolStreamEvent,
+} from "./types";
+import { ensureOk, readServerSentEvents } from "./stream-utils";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic Messages API backend
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private readonly API_VERSION = "2023-06-01"; // Messages API version header
+  private readonly DEFAULT_MAX_TOKENS = 4096; // The API requires an explicit output limit
+
+  constructor(
+    readonly model: string,
+    private readonly apiKey: string,
+    private readonly baseUrl: string
+  ) {}
+
+  private async request(
+    messages: AnthropicMessage[],
+    options: GenerateOptions,
+    stream: boolean,
+    extraBody: Record<string, unknown> = {}
+  ): Promise<Response> {
+    // The conversation must start with a user turn
+    const conversation = [...messages];
+    while (conversation.length > 0 && conversation[0].role === "assistant") {
+      conversation.shift();
+    }
+
+    // There is no JSON mode, so the schema is stated in the system prompt
+    const system = options.jsonSchema
+      ? `${options.system ? `${options.system}\n\n` : ""}Respond with a single JSON object that conforms to this JSON schema and nothing else:\n${JSON.stringify(options.jsonSchema)}`
+      : options.system;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": this.API_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system,
+        messages: conversation,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens || this.DEFAULT_MAX_TOKENS,
+        ...extraBody,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    await ensureOk(response, "Anthropic");
+    return response;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.chat([{ role: "user", content: prompt }], options);
+  }
+
+  async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    const response = await this.request(toAnthropicMessages(messages), options, false);
+    const data = await response.json();
+    return (data.content || [])
+      .filter((block: { type: string }) => block.type === "text")
+      .map((block: { text: string }) => block.text)
+      .join("");
+  }
+
+  async *stream(messages: ChatMessage[], options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request(toAnthropicMessages(messages), options, true);
+
+    for await (const data of readServerSentEvents(response)) {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          yield event.delta.text;
+        } else if (event.type === "error") {
+          throw new Error(`Anthropic stream error: ${event.error?.message || "unknown error"}`);
+        }
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          console.warn("Skipping malformed stream chunk:", error);
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async *streamWithTools(
+    messages: ToolConversationMessage[],
+    tools: ToolDefinition[],
+    options: ToolChatOptions = {}
+  ): AsyncIterable<ToolStreamEvent> {
+    const response = await this.request(toAnthropicMessages(messages), options, true, {
+      tools: tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+      tool_choice: { type: options.toolChoice || "auto" },
+    });
+
+    // tool_use blocks start with the call's name; its input follows as pieces of JSON
+    const calls = new Map<number, { id: string; name: string; input: string }>();
+    for await (const data of readServerSentEvents(response)) {
+      let event;
+      try {
+        event = JSON.parse(data);
+      } catch (error) {
+        console.warn("Skipping malformed stream chunk:", error);
+        continue;
+      }
+
+      if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+        calls.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: "" });
+      } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        yield { type: "token", content: event.delta.text };
+      } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+        const call = calls.get(event.index);
+        if (call) {
+          call.input += event.delta.partial_json || "";
+        }
+      } else if (event.type === "error") {
+        throw new Error(`Anthropic stream error: ${event.error?.message || "unknown error"}`);
+      }
+    }
+
+    if (calls.size > 0) {
+      yield {
+        type: "toolCalls",
+        toolCalls: Array.from(calls.values()).map((call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: parseInput(call.input),
+        })),
+      };
+    }
+  }
+}
+
+/**
+ * Parses a tool call's streamed input; calls without arguments stream none
+ */
+function parseInput(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.warn("Ignoring malformed tool call input:", error);
+    return {};
+  }
+}
+
+/**
+ * Converts a conversation to Anthropic messages. Tool calls become tool_use blocks,
+ * and the results of a turn's calls are sent together in the following user message.
+ */
+function toAnthropicMessages(messages: ToolConversationMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  messages.forEach((message) => {
+    if (message.role === "tool") {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      const previous = result[result.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    } else if ("toolCalls" in message) {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          })),
+        ],
+      });
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  });
+
+  return result;
+}
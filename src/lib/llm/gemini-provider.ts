@@ -0,0 +1,178 @@
+import {
+  Content,
+  FunctionCallingMode,
+  FunctionDeclarationSchema,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  ResponseSchema,
+} from "@google/generative-ai";
+import {
+  ChatMessage,
+  GenerateOptions,
+  LLMProvider,
+  ToolCall,
+  ToolChatOptions,
+  ToolConversationMessage,
+  ToolDefinition,
+  ToolStreamEvent,
+} from "./types";
+
+/**
+ * Google Gemini backend
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini" as const;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(readonly model: string, apiKey: string) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  private getModel(options: GenerateOptions): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      systemInstruction: options.system,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxTokens,
+        // Gemini accepts the OpenAPI subset of JSON schema used by our callers
+        ...(options.jsonSchema
+          ? {
+              responseMimeType: "application/json",
+              responseSchema: options.jsonSchema as unknown as ResponseSchema,
+            }
+          : {}),
+      },
+    });
+  }
+
+  /**
+   * Splits messages into Gemini history and the message to send.
+   * Gemini uses "model" for assistant turns and requires history to start with a user turn.
+   */
+  private toGeminiChat(messages: ChatMessage[]): { history: Content[]; message: string } {
+    const contents: Content[] = messages.map((msg) => ({
+      role: msg.role === "user" ? "user" : "model",
+      parts: [{ text: msg.content }],
+    }));
+
+    while (contents.length > 0 && contents[0].role === "model") {
+      contents.shift();
+    }
+
+    const last = contents.pop();
+    if (!last || last.role !== "user") {
+      throw new Error("The last message must come from the user");
+    }
+
+    return { history: contents, message: last.parts[0].text || "" };
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const result = await this.getModel(options).generateContent(prompt, { signal: options.signal });
+    return result.response.text();
+  }
+
+  async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    const { history, message } = this.toGeminiChat(messages);
+    const chat = this.getModel(options).startChat({ history });
+    const result = await chat.sendMessage(message, { signal: options.signal });
+    return result.response.text();
+  }
+
+  async *stream(messages: ChatMessage[], options: GenerateOptions = {}): AsyncIterable<string> {
+    const { history, message } = this.toGeminiChat(messages);
+    const chat = this.getModel(options).startChat({ history });
+    const result = await chat.sendMessageStream(message, { signal: options.signal });
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  async *streamWithTools(
+    messages: ToolConversationMessage[],
+    tools: ToolDefinition[],
+    options: ToolChatOptions = {}
+  ): AsyncIterable<ToolStreamEvent> {
+    const result = await this.getModel(options).generateContentStream(
+      {
+        contents: this.toGeminiContents(messages),
+        tools: [
+          {
+            functionDeclarations: tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+            })),
+          },
+        ],
+        toolConfig: {
+          functionCallingConfig: {
+            mode: options.toolChoice === "none" ? FunctionCallingMode.NONE : FunctionCallingMode.AUTO,
+          },
+        },
+      },
+      { signal: options.signal }
+    );
+
+    // Function calls arrive whole, in the chunks after or between the text
+    const toolCalls: ToolCall[] = [];
+    for await (const chunk of result.stream) {
+      for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+        if (part.text) {
+          yield { type: "token", content: part.text };
+        } else if (part.functionCall) {
+          // Gemini function calls have no IDs; results are matched by order
+          toolCalls.push({
+            id: `call_${toolCalls.length}`,
+            name: part.functionCall.name,
+            arguments: part.functionCall.args as Record<string, unknown>,
+          });
+        }
+      }
+    }
+
+    if (toolCalls.length > 0) {
+      yield { type: "toolCalls", toolCalls };
+    }
+  }
+
+  /**
+   * Converts a tool-calling conversation to Gemini contents. Tool results are sent
+   * as function responses, grouped into one turn per round of calls.
+   */
+  private toGeminiContents(messages: ToolConversationMessage[]): Content[] {
+    const contents: Content[] = [];
+
+    messages.forEach((message) => {
+      if (message.role === "tool") {
+        const part = { functionResponse: { name: message.name, response: { content: message.content } } };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === "function") {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: "function", parts: [part] });
+        }
+      } else if ("toolCalls" in message) {
+        contents.push({
+          role: "model",
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...message.toolCalls.map((call) => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        });
+      } else {
+        contents.push({ role: message.role === "user" ? "user" : "model", parts: [{ text: message.content }] });
+      }
+    });
+
+    while (contents.length > 0 && contents[0].role === "model") {
+      contents.shift();
+    }
+    return contents;
+  }
+}
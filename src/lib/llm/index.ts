@@ -0,0 +1,76 @@
+import { AnthropicProvider } from "./anthropic-provider";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { LLMProvider, LLMProviderConfig, LLMProviderName } from "./types";
+
+export type {
+  ChatMessage,
+  Citation,
+  GenerateOptions,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+  ToolCall,
+  ToolChatOptions,
+  ToolConversationMessage,
+  ToolDefinition,
+  ToolStep,
+  ToolStreamEvent,
+} from "./types";
+
+// Model used when LLM_MODEL is not set
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: "gemini-1.5-flash",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+};
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+
+/**
+ * Reads the provider configuration from the environment.
+ *
+ * LLM_PROVIDER selects the backend ("gemini", "openai" or "anthropic", defaults to "gemini"),
+ * LLM_MODEL overrides the model, and LLM_BASE_URL points the OpenAI-compatible or
+ * Anthropic backend at another host, such as a local Ollama, llama.cpp or vLLM server.
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMProviderConfig {
+  const provider = (env.LLM_PROVIDER || "gemini").toLowerCase();
+  if (provider !== "gemini" && provider !== "openai" && provider !== "anthropic") {
+    throw new Error(`Unsupported LLM_PROVIDER "${provider}". Use gemini, openai or anthropic.`);
+  }
+
+  const apiKeys: Record<LLMProviderName, string | undefined> = {
+    gemini: env.GEMINI_API_KEY,
+    openai: env.OPENAI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY,
+  };
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey: env.LLM_API_KEY || apiKeys[provider],
+    baseUrl: env.LLM_BASE_URL,
+  };
+}
+
+/**
+ * Creates the language model backend described by the config (or the environment)
+ */
+export function createLLMProvider(config: LLMProviderConfig = getLLMConfig()): LLMProvider {
+  console.log(`Using ${config.provider} model ${config.model}${config.baseUrl ? ` at ${config.baseUrl}` : ""}`);
+
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIProvider(config.model, config.baseUrl || OPENAI_BASE_URL, config.apiKey);
+    case "anthropic":
+      if (!config.apiKey) {
+        throw new Error("ANTHROPIC_API_KEY is required for the anthropic provider");
+      }
+      return new AnthropicProvider(config.model, config.apiKey, config.baseUrl || ANTHROPIC_BASE_URL);
+    case "gemini":
+    default:
+      return new GeminiProvider(config.model, config.apiKey || "");
+  }
+}
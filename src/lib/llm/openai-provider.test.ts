@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OpenAIProvider } from "./openai-provider";
+import { ToolStreamEvent } from "./types";
+
+function sseResponse(chunks: unknown[]): Response {
+  const body = [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join("");
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+describe("OpenAIProvider.streamWithTools", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("yields text as it arrives and assembles tool calls sent in pieces", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { choices: [{ delta: { content: "Let me " } }] },
+          { choices: [{ delta: { content: "check." } }] },
+          {
+            choices: [
+              { delta: { tool_calls: [{ index: 0, id: "call_a", function: { name: "read_file", arguments: '{"pa' } }] } },
+            ],
+          },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"src/a.ts"}' } }] } }] },
+        ])
+      )
+    );
+
+    const provider = new OpenAIProvider("gpt-4o", "http://localhost:11434/v1");
+    const events: ToolStreamEvent[] = [];
+    for await (const event of provider.streamWithTools([{ role: "user", content: "Read a.ts" }], [])) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { type: "token", content: "Let me " },
+      { type: "token", content: "check." },
+      { type: "toolCalls", toolCalls: [{ id: "call_a", name: "read_file", arguments: { path: "src/a.ts" } }] },
+    ]);
+  });
+});
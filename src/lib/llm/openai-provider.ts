@@ -0,0 +1,181 @@
+import {
+  ChatMessage,
+  GenerateOptions,
+  LLMProvider,
+  ToolChatOptions,
+  ToolConversationMessage,
+  ToolDefinition,
+  ToolStreamEvent,
+} from "./types";
+import { ensureOk, readServerSentEvents } from "./stream-utils";
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string }; // Arguments are a JSON string
+}
+
+interface OpenAIStreamDelta {
+  content?: string | null;
+  tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+}
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Backend for the OpenAI chat completions API and compatible servers
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+
+  constructor(
+    readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string
+  ) {}
+
+  private async request(
+    messages: OpenAIMessage[],
+    options: GenerateOptions,
+    stream: boolean,
+    extraBody: Record<string, unknown> = {}
+  ): Promise<Response> {
+    const body: OpenAIMessage[] = options.system
+      ? [{ role: "system", content: options.system }, ...messages]
+      : [...messages];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Local servers usually run without authentication
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: body,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(options.jsonSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: "response", schema: options.jsonSchema },
+              },
+            }
+          : {}),
+        ...extraBody,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    await ensureOk(response, "OpenAI-compatible");
+    return response;
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.chat([{ role: "user", content: prompt }], options);
+  }
+
+  async chat(messages: ChatMessage[], options: GenerateOptions = {}): Promise<string> {
+    const response = await this.request(messages.map(toOpenAIMessage), options, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  async *stream(messages: ChatMessage[], options: GenerateOptions = {}): AsyncIterable<string> {
+    const response = await this.request(messages.map(toOpenAIMessage), options, true);
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === "[DONE]") break;
+      try {
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      } catch (error) {
+        console.warn("Skipping malformed stream chunk:", error);
+      }
+    }
+  }
+
+  async *streamWithTools(
+    messages: ToolConversationMessage[],
+    tools: ToolDefinition[],
+    options: ToolChatOptions = {}
+  ): AsyncIterable<ToolStreamEvent> {
+    const response = await this.request(messages.map(toOpenAIMessage), options, true, {
+      tools: tools.map((tool) => ({ type: "function", function: tool })),
+      tool_choice: options.toolChoice || "auto",
+    });
+
+    // Tool calls arrive in pieces, keyed by their index in the response
+    const calls: Array<{ id?: string; name: string; arguments: string }> = [];
+    for await (const data of readServerSentEvents(response)) {
+      if (data === "[DONE]") break;
+      let delta: OpenAIStreamDelta | undefined;
+      try {
+        delta = JSON.parse(data).choices?.[0]?.delta;
+      } catch (error) {
+        console.warn("Skipping malformed stream chunk:", error);
+        continue;
+      }
+
+      if (delta?.content) {
+        yield { type: "token", content: delta.content };
+      }
+      for (const [position, part] of (delta?.tool_calls || []).entries()) {
+        const index = part.index ?? position;
+        const call = (calls[index] ||= { name: "", arguments: "" });
+        call.id = call.id || part.id;
+        call.name += part.function?.name || "";
+        call.arguments += part.function?.arguments || "";
+      }
+    }
+
+    const toolCalls = calls.filter(Boolean).map((call, index) => ({
+      // Some compatible servers leave out call IDs
+      id: call.id || `call_${index}`,
+      name: call.name,
+      arguments: parseArguments(call.arguments),
+    }));
+    if (toolCalls.length > 0) {
+      yield { type: "toolCalls", toolCalls };
+    }
+  }
+}
+
+function toOpenAIMessage(message: ToolConversationMessage): OpenAIMessage {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if ("toolCalls" in message) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function parseArguments(json: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.warn("Ignoring malformed tool call arguments:", error);
+    return {};
+  }
+}
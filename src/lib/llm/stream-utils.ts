@@ -0,0 +1,50 @@
+/**
+ * Reads a server-sent events response body, yielding the data payload of each event
+ */
+export async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice("data:".length).trimStart())
+          .join("\n");
+        if (data) {
+          yield data;
+        }
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Throws an error with the response body when an HTTP request to a model API failed
+ */
+export async function ensureOk(response: Response, provider: string): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`${provider} request failed with status ${response.status}: ${body.substring(0, 500)}`);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Context window of a model and the part of it kept free for the response
+ */
+export interface ModelLimits {
+  contextWindow: number; // Tokens of prompt and response together
+  maxOutputTokens: number; // Tokens reserved for the response
+}
+
+// Limits by model name prefix; the first match wins, so more specific prefixes come first
+const MODEL_LIMITS: Array<[string, ModelLimits]> = [
+  ["gpt-4.1", { contextWindow: 1047576, maxOutputTokens: 8192 }],
+  ["gpt-4o", { contextWindow: 128000, maxOutputTokens: 8192 }],
+  ["gpt-4-turbo", { contextWindow: 128000, maxOutputTokens: 4096 }],
+  ["gpt-4", { contextWindow: 8192, maxOutputTokens: 2048 }],
+  ["gpt-3.5-turbo", { contextWindow: 16385, maxOutputTokens: 2048 }],
+  ["o1", { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ["o3", { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ["o4", { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ["claude", { contextWindow: 200000, maxOutputTokens: 4096 }],
+  ["gemini-1.5-pro", { contextWindow: 2097152, maxOutputTokens: 8192 }],
+  ["gemini", { contextWindow: 1048576, maxOutputTokens: 8192 }],
+  ["llama3.1", { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ["llama3.2", { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ["llama3.3", { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ["llama3", { contextWindow: 8192, maxOutputTokens: 2048 }],
+  ["qwen2.5", { contextWindow: 32768, maxOutputTokens: 4096 }],
+  ["mistral", { contextWindow: 32768, maxOutputTokens: 4096 }],
+  ["gemma", { contextWindow: 8192, maxOutputTokens: 2048 }],
+];
+
+// Unknown models are mostly local ones, which often run with small context windows
+const DEFAULT_LIMITS: ModelLimits = { contextWindow: 8192, maxOutputTokens: 2048 };
+
+// Characters per token; about 4 for English and fewer for code, so this errs on the safe side
+const CHARS_PER_TOKEN = 3.5;
+
+/**
+ * Returns a model's limits. LLM_CONTEXT_WINDOW overrides the context window,
+ * e.g. for a local server configured with a larger or smaller one.
+ */
+export function getModelLimits(model: string, env: NodeJS.ProcessEnv = process.env): ModelLimits {
+  // Match "gpt-4o" in "openai/gpt-4o" and "llama3.1" in "llama3.1:8b"
+  const name = model.toLowerCase().split("/").pop() || "";
+  const limits = MODEL_LIMITS.find(([prefix]) => name.startsWith(prefix))?.[1] || DEFAULT_LIMITS;
+
+  const contextWindow = Number(env.LLM_CONTEXT_WINDOW);
+  if (contextWindow > 0) {
+    return { contextWindow, maxOutputTokens: Math.min(limits.maxOutputTokens, Math.floor(contextWindow / 4)) };
+  }
+  return limits;
+}
+
+/**
+ * Estimates the number of tokens in a text without a model-specific tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Allocates a model's context window across the parts of a prompt. Parts that
+ * must be sent whole are counted first; the rest get what is left, in order of
+ * priority, and anything cut to fit is recorded for the log.
+ */
+export class TokenBudget {
+  readonly limits: ModelLimits;
+  private readonly total: number;
+  private remaining: number;
+  private readonly used: Array<[string, number]> = [];
+  private readonly dropped: string[] = [];
+
+  /**
+   * @param reservedTokens Tokens kept free besides the response, e.g. for tool results
+   */
+  constructor(
+    private readonly model: string,
+    reservedTokens: number = 0,
+    limits: ModelLimits = getModelLimits(model)
+  ) {
+    this.limits = limits;
+    this.total = Math.max(0, limits.contextWindow - limits.maxOutputTokens - reservedTokens);
+    this.remaining = this.total;
+  }
+
+  /**
+   * Tokens still available for the prompt
+   */
+  get available(): number {
+    return this.remaining;
+  }
+
+  /**
+   * Tokens for a part that gets a fraction of what is still available
+   */
+  share(fraction: number): number {
+    return Math.floor(this.remaining * fraction);
+  }
+
+  /**
+   * Counts a part that is sent whole, such as the instructions or the question
+   */
+  require(label: string, text: string): void {
+    this.spend(label, estimateTokens(text));
+  }
+
+  /**
+   * Keeps as much of a text as fits, cutting at a line break
+   */
+  fitText(label: string, text: string, maxTokens: number = this.remaining): string {
+    const limit = Math.min(maxTokens, this.remaining);
+    if (estimateTokens(text) <= limit) {
+      this.spend(label, estimateTokens(text));
+      return text;
+    }
+
+    const cut = text.substring(0, Math.floor(limit * CHARS_PER_TOKEN));
+    const lineBreak = cut.lastIndexOf("\n");
+    const kept = lineBreak > cut.length / 2 ? cut.substring(0, lineBreak) : cut;
+    this.spend(label, estimateTokens(kept));
+    this.dropped.push(`${label}: ${text.length - kept.length} of ${text.length} characters`);
+    return kept;
+  }
+
+  /**
+   * Keeps items in order until the next one does not fit
+   * @param toText The text an item adds to the prompt
+   */
+  fitItems<T>(label: string, items: T[], toText: (item: T) => string, maxTokens: number = this.remaining): T[] {
+    let limit = Math.min(maxTokens, this.remaining);
+    let tokens = 0;
+    const kept: T[] = [];
+
+    for (const item of items) {
+      const itemTokens = estimateTokens(toText(item));
+      if (itemTokens > limit) break;
+      kept.push(item);
+      tokens += itemTokens;
+      limit -= itemTokens;
+    }
+
+    this.spend(label, tokens);
+    if (kept.length < items.length) {
+      this.dropped.push(`${label}: ${items.length - kept.length} of ${items.length}`);
+    }
+    return kept;
+  }
+
+  /**
+   * Logs how the context window was used and what had to be left out
+   */
+  log(): void {
+    const parts = this.used.map(([label, tokens]) => `${label} ${tokens}`).join(", ");
+    console.log(
+      `Prompt for ${this.model || "the model"} uses about ${this.total - this.remaining} of ${this.total} tokens (${parts})`
+    );
+    if (this.dropped.length > 0) {
+      console.log(`Dropped to fit the context window: ${this.dropped.join("; ")}`);
+    }
+  }
+
+  private spend(label: string, tokens: number): void {
+    this.remaining = Math.max(0, this.remaining - tokens);
+    const entry = this.used.find(([name]) => name === label);
+    if (entry) {
+      entry[1] += tokens;
+    } else {
+      this.used.push([label, tokens]);
+    }
+  }
+}
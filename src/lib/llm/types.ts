@@ -0,0 +1,113 @@
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  steps?: ToolStep[]; // Tools the assistant used while answering, shown with the answer
+  citations?: Citation[]; // Code the answer cites, shown as links below it
+}
+
+/**
+ * Lines of a repository file an answer cites as evidence
+ */
+export interface Citation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  ref: string; // Commit the lines are read at, normally the analyzed SHA
+  url?: string; // Link to the lines on the repository's host; absent for local repositories
+  verified: boolean; // The path exists in the analyzed tree and the lines are within the file
+  note?: string; // Why a citation could not be verified
+}
+
+/**
+ * A tool call made while answering a chat message, as shown to the user
+ */
+export interface ToolStep {
+  name: string;
+  arguments: Record<string, unknown>;
+  output: string; // Shortened for display
+  isError?: boolean;
+}
+
+/**
+ * A function the model may call, described by a JSON schema of its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Turns of a tool-calling conversation: chat messages, assistant turns that
+ * call tools, and the results of those calls
+ */
+export type ToolConversationMessage =
+  | ChatMessage
+  | { role: "assistant"; content: string; toolCalls: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export interface ToolChatOptions extends GenerateOptions {
+  toolChoice?: "auto" | "none"; // "none" makes the model answer without calling tools
+}
+
+/**
+ * Output of a tool-calling response: text as it is generated, then the tool calls
+ * the model made, which arrive once complete and are absent when it answered
+ */
+export type ToolStreamEvent = { type: "token"; content: string } | { type: "toolCalls"; toolCalls: ToolCall[] };
+
+export interface GenerateOptions {
+  system?: string; // System instructions sent separately from the conversation
+  temperature?: number;
+  maxTokens?: number;
+  jsonSchema?: Record<string, unknown>; // Constrain the response to JSON matching this schema
+  signal?: AbortSignal;
+}
+
+export type LLMProviderName = "gemini" | "openai" | "anthropic";
+
+/**
+ * Common interface implemented by every language model backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+
+  /**
+   * Generates a completion for a single prompt
+   */
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+
+  /**
+   * Continues a conversation; the last message must come from the user
+   */
+  chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string>;
+
+  /**
+   * Continues a conversation, yielding the response text as it is generated
+   */
+  stream(messages: ChatMessage[], options?: GenerateOptions): AsyncIterable<string>;
+
+  /**
+   * Continues a conversation in which the model may call the given tools instead of answering,
+   * yielding the response text as it is generated and then any tool calls
+   */
+  streamWithTools(
+    messages: ToolConversationMessage[],
+    tools: ToolDefinition[],
+    options?: ToolChatOptions
+  ): AsyncIterable<ToolStreamEvent>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
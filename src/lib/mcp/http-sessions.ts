@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto";
+import { RepositoryMcpServer } from "./repository-mcp-server";
+
+interface McpHttpSession {
+  server: RepositoryMcpServer;
+  protocolVersion: string;
+  lastAccessedAt: number;
+}
+
+/**
+ * Holds the MCP server of each Streamable HTTP client, keyed by the Mcp-Session-Id
+ * header. Analyses themselves live in the analysis sessions, so dropping an idle
+ * connection only forgets which repository it analyzed last.
+ */
+export class McpHttpSessionManager {
+  private sessions: Map<string, McpHttpSession>;
+  private readonly SESSION_TTL = 60 * 60 * 1000; // Forget clients idle for an hour
+  private readonly MAX_SESSIONS = 100; // Least recently used clients are forgotten beyond this
+
+  constructor() {
+    // Share sessions between route bundles, which may each load their own copy of this module
+    const globalStore = global as Record<string, unknown>;
+    if (!globalStore.__MCP_HTTP_SESSIONS__) {
+      globalStore.__MCP_HTTP_SESSIONS__ = new Map<string, McpHttpSession>();
+    }
+    this.sessions = globalStore.__MCP_HTTP_SESSIONS__ as Map<string, McpHttpSession>;
+  }
+
+  /**
+   * Starts a session for a client that sent initialize and returns its ID
+   */
+  create(server: RepositoryMcpServer, protocolVersion: string): string {
+    this.evict();
+
+    const sessionId = randomUUID();
+    this.sessions.set(sessionId, { server, protocolVersion, lastAccessedAt: Date.now() });
+    console.log(`Started MCP HTTP session ${sessionId} (protocol ${protocolVersion})`);
+    return sessionId;
+  }
+
+  /**
+   * Returns a client's session, or null if it never existed or has expired
+   */
+  get(sessionId: string): McpHttpSession | null {
+    this.evict();
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    session.lastAccessedAt = Date.now();
+    return session;
+  }
+
+  /**
+   * Ends a session; returns false if it did not exist
+   */
+  delete(sessionId: string): boolean {
+    const deleted = this.sessions.delete(sessionId);
+    if (deleted) {
+      console.log(`Ended MCP HTTP session ${sessionId}`);
+    }
+    return deleted;
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, sessionId) => {
+      if (now - session.lastAccessedAt > this.SESSION_TTL) {
+        this.sessions.delete(sessionId);
+        console.log(`Expired idle MCP HTTP session ${sessionId}`);
+      }
+    });
+
+    const byLastAccess = Array.from(this.sessions.entries()).sort(
+      ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt
+    );
+    for (const [sessionId] of byLastAccess) {
+      if (this.sessions.size < this.MAX_SESSIONS) break;
+      this.sessions.delete(sessionId);
+      console.log(`Dropped MCP HTTP session ${sessionId} to stay within the session limit`);
+    }
+  }
+}
+
+// Create a singleton instance
+export const mcpHttpSessions = new McpHttpSessionManager();
@@ -0,0 +1,47 @@
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId; // Notifications have no ID
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId | null; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId | null; error: { code: number; message: string; data?: unknown } };
+
+// Standard JSON-RPC error codes, and the one MCP adds for unknown resources
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+export const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * An error returned to the client as a JSON-RPC error response
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    Boolean(message) &&
+    typeof message === "object" &&
+    (message as JsonRpcRequest).jsonrpc === "2.0" &&
+    typeof (message as JsonRpcRequest).method === "string"
+  );
+}
+
+export function errorResponse(id: JsonRpcId | null, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
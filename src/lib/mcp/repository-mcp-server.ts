@@ -0,0 +1,472 @@
+import { formatTree } from "../github/tree-utils";
+import { GeminiService } from "../gemini/gemini-service";
+import { MCPServer } from "../gemini/mcp-server";
+import { mcpSessions } from "../gemini/mcp-sessions";
+import { createRepositoryTools } from "../agent/repository-tools";
+import { extractCitations } from "../agent/citations";
+import { analysisJobs } from "../jobs/analysis-jobs";
+import { createAnalysisRunner } from "../jobs/repository-analysis";
+import { getRepositoryHost } from "../repository/repository-hosts";
+import { ChatMessage, ToolDefinition } from "../llm";
+import { extractRepoInfo, isValidRepositoryUrl } from "../utils";
+import {
+  errorResponse,
+  INTERNAL_ERROR,
+  INVALID_PARAMS,
+  INVALID_REQUEST,
+  isJsonRpcRequest,
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  METHOD_NOT_FOUND,
+  RESOURCE_NOT_FOUND,
+} from "./json-rpc";
+
+// Newest first; clients asking for another version are offered the newest
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const SERVER_INFO = { name: "gitrepos", version: "0.1.0" };
+const RESOURCE_PREFIX = "gitrepos://analyses/";
+const TREE_LINES = 2000; // Lines of the folder structure in the tree resource
+
+interface ToolContent {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+interface ResourceDescription {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+const ANALYSIS_ID_PROPERTY = {
+  type: "string",
+  description: "ID returned by analyze_repo; defaults to the repository analyzed last in this session",
+};
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "analyze_repo",
+    description:
+      "Analyzes a GitHub, GitLab, Bitbucket or local git repository: metadata, file tree, dependencies, key source files and an AI summary. Returns an analysis ID for the other tools and resources. Unchanged commits are served from the cache.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Repository URL, optionally pointing at a branch, tag, commit or subdirectory" },
+        ref: { type: "string", description: "Branch, tag or commit to analyze instead of the one in the URL" },
+        force: { type: "boolean", description: "Analyze again even if a cached analysis exists" },
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "search",
+    description: "Searches an analyzed repository's file paths and key source files for identifiers, keywords or file names.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Identifiers, keywords or a file name" },
+        analysis_id: ANALYSIS_ID_PROPERTY,
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "read_file",
+    description: "Reads a file of an analyzed repository at the analyzed commit, with line numbers.",
+    parameters: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path relative to the repository root" },
+        range: { type: "string", description: 'Lines to read, e.g. "120-180"' },
+        analysis_id: ANALYSIS_ID_PROPERTY,
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "ask",
+    description:
+      "Answers a question about an analyzed repository. The answering model reads the relevant code itself, so questions can be specific.",
+    parameters: {
+      type: "object",
+      properties: {
+        question: { type: "string" },
+        analysis_id: ANALYSIS_ID_PROPERTY,
+      },
+      required: ["question"],
+    },
+  },
+];
+
+/**
+ * Model Context Protocol server exposing repository analyses to external agents and IDEs:
+ * tools to analyze, search, read and ask about repositories, and each analysis as resources
+ * (README, tree, report, analysis JSON and files). One instance serves one client connection;
+ * the transports (stdio and Streamable HTTP) pass it JSON-RPC messages.
+ */
+export class RepositoryMcpServer {
+  private analyses: string[] = []; // Analysis IDs used in this connection, most recent last
+  private pending = new Map<JsonRpcId, AbortController>(); // Running requests, for cancellation
+
+  /**
+   * @param notify Sends a notification to the client, for progress while analyzing; transports without a stream to the client leave it out
+   */
+  constructor(private readonly notify?: (notification: JsonRpcRequest) => void) {}
+
+  /**
+   * Handles a JSON-RPC message, returning the response, or null for notifications and responses
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      // Responses to requests we never send are ignored
+      const isResponse = Boolean(message) && typeof message === "object" && "id" in (message as object);
+      return isResponse ? null : errorResponse(null, INVALID_REQUEST, "Invalid JSON-RPC message");
+    }
+
+    if (message.id === undefined || message.id === null) {
+      this.handleNotification(message);
+      return null;
+    }
+
+    const controller = new AbortController();
+    this.pending.set(message.id, controller);
+    try {
+      const result = await this.dispatch(message, controller.signal);
+      return { jsonrpc: "2.0", id: message.id, result };
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return errorResponse(message.id, error.code, error.message, error.data);
+      }
+      console.error(`MCP request ${message.method} failed:`, error);
+      return errorResponse(message.id, INTERNAL_ERROR, (error as Error).message || "Internal error");
+    } finally {
+      this.pending.delete(message.id);
+    }
+  }
+
+  private handleNotification(message: JsonRpcRequest): void {
+    if (message.method === "notifications/cancelled") {
+      const requestId = message.params?.requestId as JsonRpcId | undefined;
+      if (requestId !== undefined) {
+        console.log(`MCP client cancelled request ${requestId}`);
+        this.pending.get(requestId)?.abort();
+      }
+    }
+    // notifications/initialized and others need no action
+  }
+
+  private dispatch(message: JsonRpcRequest, signal: AbortSignal): Promise<unknown> {
+    const params = message.params || {};
+
+    switch (message.method) {
+      case "initialize":
+        return Promise.resolve(this.initialize(params));
+      case "ping":
+        return Promise.resolve({});
+      case "tools/list":
+        return Promise.resolve({
+          tools: TOOLS.map((tool) => ({ name: tool.name, description: tool.description, inputSchema: tool.parameters })),
+        });
+      case "tools/call":
+        return this.callTool(params, signal);
+      case "resources/list":
+        return this.listResources();
+      case "resources/templates/list":
+        return Promise.resolve({ resourceTemplates: this.listResourceTemplates() });
+      case "resources/read":
+        return this.readResource(params);
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = params.protocolVersion as string;
+    const clientName = (params.clientInfo as { name?: string } | undefined)?.name || "unknown client";
+    console.log(`MCP client ${clientName} connected (protocol ${requested})`);
+
+    return {
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: false, listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+      instructions:
+        "Call analyze_repo with a repository URL first. Its analysis ID selects the repository for search, read_file and ask, and for the gitrepos://analyses/<id>/... resources (readme, tree, report, analysis, files/<path>).",
+    };
+  }
+
+  private async callTool(params: Record<string, unknown>, signal: AbortSignal): Promise<ToolContent> {
+    const name = params.name;
+    const args = (params.arguments || {}) as Record<string, unknown>;
+    if (typeof name !== "string" || !TOOLS.some((tool) => tool.name === name)) {
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+    const progressToken = (params._meta as { progressToken?: string | number } | undefined)?.progressToken;
+
+    try {
+      switch (name) {
+        case "analyze_repo":
+          return textContent(await this.analyzeRepo(args, signal, progressToken));
+        case "search":
+          return await this.runRepositoryTool(args, "search_code", { query: requireString(args, "query") });
+        case "read_file":
+          return await this.runRepositoryTool(args, "read_file", {
+            path: requireString(args, "path"),
+            range: optionalString(args, "range"),
+          });
+        default:
+          return textContent(await this.ask(args));
+      }
+    } catch (error) {
+      // Tool failures are reported to the model rather than as protocol errors
+      console.error(`MCP tool ${name} failed:`, error);
+      return { ...textContent((error as Error).message || "Tool failed"), isError: true };
+    }
+  }
+
+  private async analyzeRepo(
+    args: Record<string, unknown>,
+    signal: AbortSignal,
+    progressToken?: string | number
+  ): Promise<string> {
+    const url = requireString(args, "url");
+    if (!isValidRepositoryUrl(url)) {
+      throw new Error(
+        "Invalid repository URL format. Use a GitHub, GitLab or Bitbucket repository URL, or a file:// URL of a local repository."
+      );
+    }
+
+    const urlHost = extractRepoInfo(url)?.host || "";
+    const host = getRepositoryHost(urlHost);
+    if (!host) {
+      throw new Error(
+        urlHost === "local"
+          ? "Local repositories are disabled. Set LOCAL_REPOSITORY_ROOTS to allow them."
+          : `Host ${urlHost} is not configured. Add it to GITHUB_ENTERPRISE_HOSTS or GITLAB_HOSTS.`
+      );
+    }
+
+    const repoInfo = extractRepoInfo(url, host.type);
+    if (!repoInfo) {
+      throw new Error("Could not extract repository information from URL.");
+    }
+
+    // Report each finished stage when the client asked for progress and can receive it
+    const stageCount = analysisJobs.getStageNames().length;
+    let finishedStages = 0;
+    const run = createAnalysisRunner(host, repoInfo, {
+      ref: optionalString(args, "ref") || undefined,
+      force: args.force === true,
+    });
+    const result = await run((event) => {
+      if (event.status !== "done" || progressToken === undefined || !this.notify) return;
+      finishedStages++;
+      this.notify({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken, progress: finishedStages, total: stageCount, message: `Finished ${event.stage}` },
+      });
+    }, signal);
+
+    this.useAnalysis(result.sessionId);
+    const { repoData, aiAnalysis } = result;
+    const uri = `${RESOURCE_PREFIX}${result.sessionId}`;
+
+    return `Analyzed ${repoData.fullName} at ${repoData.ref} (${repoData.sha})${repoData.path ? `, scoped to ${repoData.path}` : ""}${
+      result.cachedAt ? `, served from the cache of ${new Date(result.cachedAt).toISOString()}` : ""
+    }.
+Analysis ID: ${result.sessionId}
+
+Summary: ${aiAnalysis.summary}
+Technology stack: ${aiAnalysis.technologyStack.join(", ")}
+
+Resources: ${uri}/readme, ${uri}/tree, ${uri}/report, ${uri}/analysis and ${uri}/files/<path>`;
+  }
+
+  private async runRepositoryTool(
+    args: Record<string, unknown>,
+    name: string,
+    toolArguments: Record<string, unknown>
+  ): Promise<ToolContent> {
+    const server = await this.getAnalysis(optionalString(args, "analysis_id"));
+    const tools = createRepositoryTools(server);
+    if (!tools) {
+      throw new Error("The repository's host is no longer configured on this server.");
+    }
+
+    const { output, isError } = await tools.execute({ id: name, name, arguments: toolArguments });
+    return { ...textContent(output), ...(isError ? { isError } : {}) };
+  }
+
+  private async ask(args: Record<string, unknown>): Promise<string> {
+    const question = requireString(args, "question");
+    const server = await this.getAnalysis(optionalString(args, "analysis_id"));
+    const messages: ChatMessage[] = [{ role: "user", content: question }];
+
+    // Answer with the repository tools when the host is reachable, otherwise from the analysis alone
+    const geminiService = new GeminiService(server);
+    const tools = createRepositoryTools(server);
+    const answer: ChatMessage = tools
+      ? await geminiService.chatWithTools(messages, tools)
+      : { role: "assistant", content: await geminiService.chat(messages) };
+
+    const consulted = (answer.steps || []).map(
+      (step) => `- ${step.name}(${Object.values(step.arguments).map(String).join(", ")})`
+    );
+    const sources = extractCitations(answer.content, server, [
+      ...geminiService.sources,
+      ...(tools?.sources || []),
+    ]).map(
+      (citation) =>
+        `- ${citation.path}:${citation.startLine}${citation.endLine > citation.startLine ? `-${citation.endLine}` : ""}${citation.url ? ` ${citation.url}` : ""}${
+          citation.verified ? "" : ` (unverified: ${citation.note})`
+        }`
+    );
+    return [
+      answer.content,
+      consulted.length > 0 ? `Tools used:\n${consulted.join("\n")}` : "",
+      sources.length > 0 ? `Sources:\n${sources.join("\n")}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  /**
+   * Loads an analysis by ID, or the one used last in this connection
+   */
+  private async getAnalysis(analysisId: string): Promise<MCPServer> {
+    const id = analysisId || this.analyses[this.analyses.length - 1];
+    if (!id) {
+      throw new Error("No repository has been analyzed yet. Call analyze_repo first, or pass an analysis_id.");
+    }
+
+    const server = await mcpSessions.get(id);
+    if (!server?.hasContext()) {
+      throw new Error(`Analysis ${id} not found. Analyze the repository again.`);
+    }
+    this.useAnalysis(id);
+    return server;
+  }
+
+  private useAnalysis(id: string): void {
+    this.analyses = [...this.analyses.filter((candidate) => candidate !== id), id];
+  }
+
+  private async listResources(): Promise<{ resources: ResourceDescription[] }> {
+    const resources: ResourceDescription[] = [];
+
+    for (const id of this.analyses) {
+      const analysis = (await mcpSessions.get(id))?.getContext()?.analysisData;
+      if (!analysis) continue;
+
+      const name = analysis.repoData.fullName;
+      const uri = `${RESOURCE_PREFIX}${id}`;
+      resources.push(
+        { uri: `${uri}/readme`, name: `${name} README`, mimeType: "text/markdown" },
+        { uri: `${uri}/tree`, name: `${name} file tree`, mimeType: "text/plain" },
+        { uri: `${uri}/report`, name: `${name} analysis report`, mimeType: "text/markdown" },
+        {
+          uri: `${uri}/analysis`,
+          name: `${name} analysis`,
+          description: "Repository metadata and the AI analysis as JSON",
+          mimeType: "application/json",
+        },
+        ...(analysis.repoContent.files || []).map((file) => ({
+          uri: `${uri}/files/${file.path}`,
+          name: `${name}: ${file.path}`,
+          description: `Key source file (${file.reasons.join(", ")})`,
+          mimeType: "text/plain",
+        }))
+      );
+    }
+
+    return { resources };
+  }
+
+  private listResourceTemplates() {
+    const uri = `${RESOURCE_PREFIX}{analysisId}`;
+    return [
+      { uriTemplate: `${uri}/readme`, name: "README", mimeType: "text/markdown" },
+      { uriTemplate: `${uri}/tree`, name: "File tree", mimeType: "text/plain" },
+      { uriTemplate: `${uri}/report`, name: "Analysis report", mimeType: "text/markdown" },
+      { uriTemplate: `${uri}/analysis`, name: "Analysis JSON", mimeType: "application/json" },
+      { uriTemplate: `${uri}/files/{+path}`, name: "File at the analyzed commit", mimeType: "text/plain" },
+    ];
+  }
+
+  private async readResource(params: Record<string, unknown>) {
+    const uri = params.uri;
+    const match = typeof uri === "string" ? uri.match(/^gitrepos:\/\/analyses\/([^/]+)\/(readme|tree|report|analysis|files\/(.+))$/) : null;
+    if (!match) {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, "Resource not found", { uri });
+    }
+    const [, id, kind, filePath] = match;
+
+    const server = await mcpSessions.get(id);
+    const context = server?.getContext();
+    const analysis = context?.analysisData;
+    if (!server || !analysis) {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, `Analysis ${id} not found`, { uri });
+    }
+
+    const contents = (mimeType: string, text: string) => ({ contents: [{ uri, mimeType, text }] });
+    switch (kind) {
+      case "readme":
+        return contents("text/markdown", analysis.repoContent.readme || "");
+      case "tree":
+        return contents("text/plain", formatTree(analysis.repoContent.folderStructure, TREE_LINES));
+      case "report":
+        // Sessions stored before the report was kept with them generate it again
+        return contents(
+          "text/markdown",
+          analysis.report || server.generateRepositoryAnalysis(analysis, analysis.aiAnalysis)
+        );
+      case "analysis":
+        return contents(
+          "application/json",
+          JSON.stringify(
+            {
+              repository: analysis.repoData,
+              aiAnalysis: analysis.aiAnalysis,
+              setupInstructions: analysis.setupInstructions,
+              dependencies: analysis.repoContent.dependencyDetails || analysis.repoContent.dependencies,
+            },
+            null,
+            2
+          )
+        );
+      default: {
+        const path = decodeURIComponent(filePath);
+        // Files fetched during analysis are served without another request to the host
+        const fetched = analysis.repoContent.files?.find((file) => file.path === path);
+        const text = fetched ? fetched.content : await createRepositoryTools(server)?.getFileText(path);
+        if (text === null || text === undefined) {
+          throw new JsonRpcError(RESOURCE_NOT_FOUND, `File ${path} not found`, { uri });
+        }
+        return contents("text/plain", text);
+      }
+    }
+  }
+}
+
+function textContent(text: string): ToolContent {
+  return { content: [{ type: "text", text }] };
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`Missing argument "${key}"`);
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string {
+  return typeof args[key] === "string" ? (args[key] as string) : "";
+}
@@ -0,0 +1,64 @@
+/**
+ * stdio transport of the MCP server, for clients that launch it as a subprocess:
+ * newline-delimited JSON-RPC messages on stdin, responses and notifications on stdout.
+ * Run with `npm run mcp` from the repository root, which loads the same .env files as the app.
+ */
+import { createInterface } from "readline";
+import { loadEnvConfig } from "@next/env";
+
+// stdout carries only protocol messages, so all logging goes to stderr
+console.log = console.error;
+console.info = console.error;
+console.warn = console.error;
+
+loadEnvConfig(process.cwd());
+
+function send(message: unknown): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+async function main(): Promise<void> {
+  // Imported after the environment is loaded, since modules read it when they load
+  const { RepositoryMcpServer } = await import("./repository-mcp-server");
+  const { errorResponse, PARSE_ERROR } = await import("./json-rpc");
+
+  const server = new RepositoryMcpServer(send);
+  const pending = new Set<Promise<void>>();
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+
+  lines.on("line", (line) => {
+    if (!line.trim()) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send(errorResponse(null, PARSE_ERROR, "Parse error"));
+      return;
+    }
+
+    // Requests run concurrently, so a long analysis does not hold up pings or cancellations
+    const messages = Array.isArray(message) ? message : [message];
+    const handled = Promise.all(messages.map((item) => server.handle(item))).then((responses) => {
+      const results = responses.filter((response) => response !== null);
+      if (results.length > 0) {
+        send(Array.isArray(message) ? results : results[0]);
+      }
+    });
+    pending.add(handled);
+    handled.finally(() => pending.delete(handled));
+  });
+
+  // The client closing stdin ends the session; answer what is still running, then exit
+  lines.on("close", async () => {
+    await Promise.allSettled(pending);
+    process.exit(0);
+  });
+
+  console.error("gitrepos MCP server listening on stdio");
+}
+
+main().catch((error) => {
+  console.error("MCP server failed to start:", error);
+  process.exit(1);
+});
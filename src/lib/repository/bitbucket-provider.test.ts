@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { flattenTree } from "../github/tree-utils";
+import { BitbucketProvider } from "./bitbucket-provider";
+
+vi.mock("./rest-client", async () => {
+  const { createRecordedRestClient } = await import("./fixtures/recorded-rest-client");
+  const recordings = (await import("./fixtures/bitbucket.json")).default;
+  return { RestClient: createRecordedRestClient(recordings) };
+});
+
+const SHA = "e4a1c9d27b3f5068a9e2d1c4b7f60a3e5d8c2b19";
+
+describe("BitbucketProvider", () => {
+  it("analyzes a repository from recorded API responses", async () => {
+    const { repoData, repoContent } = await new BitbucketProvider().analyzeRepository("acme", "billing-service");
+
+    expect(repoData).toEqual({
+      name: "billing-service",
+      fullName: "acme/billing-service",
+      description: "Invoicing and payments API",
+      url: "https://bitbucket.org/acme/billing-service",
+      homepage: "",
+      language: "python",
+      stargazersCount: 0,
+      forksCount: 3,
+      openIssuesCount: 0,
+      defaultBranch: "main",
+      ref: "main",
+      sha: SHA,
+      path: "",
+      createdAt: "2023-05-04T10:22:41.118394+00:00",
+      updatedAt: "2026-10-02T13:45:09.502217+00:00",
+      pushedAt: "2026-10-02T13:45:09.502217+00:00",
+      size: 34,
+      topics: [],
+      visibility: "private",
+      owner: {
+        login: "acme",
+        avatarUrl: "https://bitbucket.org/account/acme/avatar/",
+        url: "https://bitbucket.org/acme/",
+      },
+    });
+
+    expect(repoContent.readme).toMatch(/^# Billing service\n/);
+    expect(repoContent.dependencies).toEqual({ fastapi: ">=0.110", stripe: "==9.4.0", pytest: ">=8.0" });
+    expect(repoContent.dependencyGraph).toEqual({ lockfiles: [], packages: [] });
+    expect(repoContent.languages).toEqual({ python: 34816 });
+    // Authors without a linked account fall back to the raw author without the email address
+    expect(repoContent.commits).toEqual([
+      { sha: SHA, message: "Send invoices in euros\n", author: "Priya Raman", date: "2026-10-02T13:44:58+00:00" },
+      {
+        sha: "0b9d8e7f6a5c4b3d2e1f0a9b8c7d6e5f4a3b2c1d",
+        message: "Create invoices through Stripe\n",
+        author: "Tomasz Nowak",
+        date: "2026-09-21T07:03:12+00:00",
+      },
+    ]);
+
+    // The listing spans two pages
+    expect(repoContent.folderStructureTruncated).toBe(false);
+    expect(flattenTree(repoContent.folderStructure).map((node) => `${node.type} ${node.path} ${node.size}`)).toEqual([
+      "dir app 0",
+      "file app/__init__.py 0",
+      "file app/billing.py 270",
+      "file app/main.py 206",
+      "file README.md 96",
+      "file pyproject.toml 193",
+    ]);
+
+    // The empty __init__.py is fetched as a candidate but not kept
+    expect(repoContent.files.map(({ path, reasons }) => ({ path, reasons }))).toEqual([
+      { path: "app/main.py", reasons: ["entry point", "large python file"] },
+      { path: "pyproject.toml", reasons: ["config file"] },
+      { path: "app/billing.py", reasons: ["large python file"] },
+    ]);
+    expect(repoContent.files[2].content).toContain("stripe.Invoice.create(customer=customer_id)");
+  });
+});
@@ -0,0 +1,476 @@
+import type {
+  ChangedFile,
+  CommitComparison,
+  CommitDetails,
+  RepoData,
+  RepoTree,
+  ResolvedRef,
+  TreeNode,
+} from "../github/github-service";
+import { GitHubServiceError, isNotFoundError, toGitHubServiceError } from "../github/github-errors";
+import { splitDiffByFile } from "./diff-utils";
+import { BaseRepositoryProvider, FlatTreeEntry, RepoCommit } from "./repository-provider";
+import { RestClient } from "./rest-client";
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  website: string | null;
+  language: string;
+  size: number; // Bytes
+  is_private: boolean;
+  created_on: string;
+  updated_on: string;
+  mainbranch?: { name: string };
+  links: { html: { href: string } };
+  owner: {
+    display_name: string;
+    username?: string;
+    links: { avatar: { href: string }; html: { href: string } };
+  };
+}
+
+interface BitbucketSourceEntry {
+  path: string;
+  type: "commit_directory" | "commit_file" | "commit_link";
+  size?: number;
+}
+
+interface BitbucketCommit {
+  hash: string;
+  message: string;
+  date: string;
+  parents?: Array<{ hash: string }>;
+  author: {
+    raw: string; // e.g. "Jane Doe <jane@example.com>"
+    user?: { display_name: string };
+  };
+}
+
+interface BitbucketDiffStat {
+  status: string; // "added", "removed", "modified", "renamed" or a conflict status
+  lines_added: number;
+  lines_removed: number;
+  old: { path: string } | null;
+  new: { path: string } | null;
+}
+
+/**
+ * Bitbucket Cloud provider using the REST API 2.0.
+ * The owner is the workspace and the repository is its slug.
+ */
+export class BitbucketProvider extends BaseRepositoryProvider {
+  private client: RestClient;
+  private repositoryCache = new Map<string, Promise<BitbucketRepository>>(); // Repository details are used by several calls
+  private readonly PAGE_SIZE = 100; // Maximum page size for source listings
+  private readonly MAX_COMPARE_FILES = 500; // Changed files listed in a comparison (one diffstat page)
+
+  /**
+   * @param token App password when a username is given, otherwise an access token
+   * @param username Bitbucket username the app password belongs to
+   */
+  constructor(token?: string, username?: string, baseUrl: string = "https://api.bitbucket.org/2.0") {
+    super();
+    const authorization = !token
+      ? undefined
+      : username
+        ? `Basic ${Buffer.from(`${username}:${token}`).toString("base64")}`
+        : `Bearer ${token}`;
+    this.client = new RestClient(
+      baseUrl.replace(/\/+$/, ""),
+      authorization ? { Authorization: authorization } : {},
+      "Bitbucket"
+    );
+  }
+
+  /**
+   * Validates if a repository (and optionally a ref) exists and is accessible.
+   * Returns false if it does not exist; other failures throw a GitHubServiceError.
+   */
+  async validateRepo(owner: string, repo: string, ref?: string): Promise<boolean> {
+    try {
+      await this.getRepository(owner, repo);
+      if (ref) {
+        await this.resolveRef(owner, repo, ref);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error validating repository:", error);
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw toGitHubServiceError(error, `access ${owner}/${repo}`, "Bitbucket");
+    }
+  }
+
+  /**
+   * Resolves a branch, tag or commit SHA to a commit SHA, trying progressively
+   * longer candidates for refs that contain slashes (see GitHubService.resolveRef)
+   */
+  async resolveRef(owner: string, repo: string, ref?: string, path: string = ""): Promise<ResolvedRef> {
+    const name = ref || (await this.getDefaultBranch(owner, repo));
+    const segments = path.split("/").filter(Boolean);
+    const repository = this.repositoryPath(owner, repo);
+
+    for (let i = 0; i <= segments.length; i++) {
+      const candidate = [name, ...segments.slice(0, i)].join("/");
+      const lookups = [
+        `${repository}/refs/branches/${encodeURIComponent(candidate)}`,
+        `${repository}/refs/tags/${encodeURIComponent(candidate)}`,
+        ...(/^[0-9a-f]{7,40}$/i.test(candidate) ? [`${repository}/commit/${candidate}`] : []),
+      ];
+
+      for (const lookup of lookups) {
+        try {
+          const data = await this.client.getJson<{ hash?: string; target?: { hash: string } }>(
+            lookup,
+            `resolve ${candidate}`
+          );
+
+          return {
+            ref: candidate,
+            sha: data.target?.hash || data.hash || "",
+            path: segments.slice(i).join("/"),
+          };
+        } catch (error) {
+          if (!isNotFoundError(error)) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    console.error(`Error resolving ref ${name}: no matching branch, tag or commit`);
+    throw new GitHubServiceError(`Branch, tag or commit "${name}" not found`, "not_found", 404);
+  }
+
+  /**
+   * Turns the path from a /src/ URL into a directory scope.
+   * Paths to files are replaced by the file's directory.
+   */
+  async resolveScope(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    const trimmedPath = path.replace(/^\/+|\/+$/g, "");
+    if (!trimmedPath) {
+      return "";
+    }
+
+    try {
+      const entry = await this.client.getJson<BitbucketSourceEntry>(
+        `${await this.sourcePath(owner, repo, ref, trimmedPath)}?format=meta`,
+        `resolve ${trimmedPath}`
+      );
+
+      if (entry.type === "commit_directory") {
+        return trimmedPath;
+      }
+
+      return trimmedPath.includes("/") ? trimmedPath.slice(0, trimmedPath.lastIndexOf("/")) : "";
+    } catch (error) {
+      console.error(`Error resolving path ${trimmedPath}:`, error);
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      throw new GitHubServiceError(`Path "${trimmedPath}" not found`, "not_found", 404);
+    }
+  }
+
+  /**
+   * Fetches basic repository data. Bitbucket has no stars and only counts
+   * issues when the issue tracker is enabled, so both are reported as 0.
+   */
+  async getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData> {
+    const [repository, forks] = await Promise.all([
+      this.getRepository(owner, repo),
+      this.client
+        .getJson<{ size?: number }>(`${this.repositoryPath(owner, repo)}/forks?pagelen=1`, "count forks")
+        .catch(() => ({ size: 0 })),
+    ]);
+    const defaultBranch = repository.mainbranch?.name || "";
+
+    return {
+      name: repository.name,
+      fullName: repository.full_name,
+      description: repository.description || "",
+      url: repository.links.html.href,
+      homepage: repository.website || "",
+      language: repository.language || "",
+      stargazersCount: 0,
+      forksCount: forks.size || 0,
+      openIssuesCount: 0,
+      defaultBranch,
+      ref: resolvedRef?.ref || defaultBranch,
+      sha: resolvedRef?.sha || "",
+      path: resolvedRef?.path || "",
+      createdAt: repository.created_on,
+      updatedAt: repository.updated_on,
+      pushedAt: repository.updated_on,
+      // Kilobytes, like GitHub
+      size: Math.round(repository.size / 1024),
+      topics: [],
+      visibility: repository.is_private ? "private" : "public",
+      owner: {
+        login: repository.owner.username || owner,
+        avatarUrl: repository.owner.links.avatar.href,
+        url: repository.owner.links.html.href,
+      },
+    };
+  }
+
+  /**
+   * Bitbucket only records the repository's main language, which is credited with its whole size
+   */
+  async getLanguages(owner: string, repo: string): Promise<{ [key: string]: number }> {
+    const repository = await this.getRepository(owner, repo);
+    return repository.language ? { [repository.language]: repository.size } : {};
+  }
+
+  /**
+   * Fetches recent commits reachable from a ref, optionally touching a path
+   */
+  async getRecentCommits(owner: string, repo: string, ref?: string, count: number = 10, path?: string): Promise<RepoCommit[]> {
+    const params = new URLSearchParams({ pagelen: String(count) });
+    if (path) params.set("path", path);
+    const revision = ref || (await this.getDefaultBranch(owner, repo));
+
+    try {
+      const page = await this.client.getJson<BitbucketPage<BitbucketCommit>>(
+        `${this.repositoryPath(owner, repo)}/commits/${encodeURIComponent(revision)}?${params}`,
+        "fetch recent commits"
+      );
+      return page.values.slice(0, count).map((commit) => this.toCommit(commit));
+    } catch (error) {
+      // Empty repositories have no commits
+      if (isNotFoundError(error)) {
+        return [];
+      }
+      console.error("Error fetching commits:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the full folder structure using recursive source listings
+   * @param path Optional subdirectory to fetch; node paths stay relative to the repository root
+   */
+  async getFolderStructure(owner: string, repo: string, ref?: string, path: string = ""): Promise<RepoTree> {
+    const prefix = path ? `${path}/` : "";
+    const { items, truncated } = await this.listSource(owner, repo, path, ref, this.MAX_TREE_DEPTH);
+
+    // Listed paths are relative to the repository root; parents must come before children
+    const entries: FlatTreeEntry[] = items
+      .map((item) => ({
+        path: item.path.slice(prefix.length),
+        type: this.toNodeType(item),
+        size: item.size || 0,
+      }))
+      .sort((a, b) => a.path.split("/").length - b.path.split("/").length);
+
+    return this.buildFolderStructure(entries, prefix, truncated, `${owner}/${repo}`);
+  }
+
+  /**
+   * Lists a single directory without recursing into it
+   */
+  async getDirectoryListing(owner: string, repo: string, path: string = "", ref?: string): Promise<TreeNode[]> {
+    const { items } = await this.listSource(owner, repo, path, ref, 1);
+
+    return items.map((item) => ({
+      name: item.path.split("/").pop() || item.path,
+      path: item.path,
+      type: this.toNodeType(item),
+      size: item.size || 0,
+    }));
+  }
+
+  /**
+   * Fetches a file's raw text through the source API
+   */
+  protected async fetchFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+    try {
+      return await this.client.getText(await this.sourcePath(owner, repo, ref, path), `fetch ${path}`);
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      console.warn(`Could not fetch file ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compares two commits, listing the commits and files changed between them
+   */
+  async compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison> {
+    try {
+      const repository = this.repositoryPath(owner, repo);
+      // Bitbucket ranges are written newer..older
+      const [diffStats, commits, mergeBase] = await Promise.all([
+        this.client.getJson<BitbucketPage<BitbucketDiffStat>>(
+          `${repository}/diffstat/${head}..${base}?pagelen=${this.MAX_COMPARE_FILES}`,
+          `compare ${base}...${head}`
+        ),
+        this.client.getJson<BitbucketPage<BitbucketCommit>>(
+          `${repository}/commits/${head}?exclude=${base}&pagelen=${this.PAGE_SIZE}`,
+          `list the commits between ${base} and ${head}`
+        ),
+        this.client.getJson<{ hash: string }>(
+          `${repository}/merge-base/${head}..${base}`,
+          `find the merge base of ${base} and ${head}`
+        ),
+      ]);
+
+      const files = diffStats.values.map((stat) => this.toChangedFile(stat));
+
+      return {
+        baseSha: base,
+        headSha: head,
+        status:
+          base === head
+            ? "identical"
+            : head.startsWith(mergeBase.hash) || mergeBase.hash.startsWith(head)
+              ? "behind"
+              : base.startsWith(mergeBase.hash) || mergeBase.hash.startsWith(base)
+                ? "ahead"
+                : "diverged",
+        commits: commits.values.map((commit) => this.toCommit(commit)),
+        files,
+        filesTruncated: Boolean(diffStats.next),
+      };
+    } catch (error) {
+      console.error(`Error comparing ${base}...${head}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a commit with the files it changed and their diffs against its first parent
+   */
+  async getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails> {
+    try {
+      const repository = this.repositoryPath(owner, repo);
+      const [commit, diffStats, diff] = await Promise.all([
+        this.client.getJson<BitbucketCommit>(`${repository}/commit/${encodeURIComponent(sha)}`, `fetch commit ${sha}`),
+        this.client.getJson<BitbucketPage<BitbucketDiffStat>>(
+          `${repository}/diffstat/${encodeURIComponent(sha)}?pagelen=${this.MAX_COMPARE_FILES}`,
+          `list the files changed by ${sha}`
+        ),
+        this.client.getText(`${repository}/diff/${encodeURIComponent(sha)}`, `fetch the diff of ${sha}`),
+      ]);
+
+      const patches = splitDiffByFile(diff);
+      return {
+        ...this.toCommit(commit),
+        parents: (commit.parents || []).map((parent) => parent.hash),
+        files: diffStats.values.map((stat) => {
+          const file = this.toChangedFile(stat);
+          return { ...file, patch: patches.get(file.path) };
+        }),
+        filesTruncated: Boolean(diffStats.next),
+      };
+    } catch (error) {
+      console.error(`Error fetching commit ${sha}:`, error);
+      throw error;
+    }
+  }
+
+  private repositoryPath(owner: string, repo: string): string {
+    return `/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Source API path of a file or directory at a commit; defaults to the main branch
+   */
+  private async sourcePath(owner: string, repo: string, ref: string | undefined, path: string): Promise<string> {
+    const revision = ref || (await this.getDefaultBranch(owner, repo));
+    const encodedPath = path.split("/").filter(Boolean).map(encodeURIComponent).join("/");
+    return `${this.repositoryPath(owner, repo)}/src/${encodeURIComponent(revision)}/${encodedPath}`;
+  }
+
+  private getRepository(owner: string, repo: string): Promise<BitbucketRepository> {
+    const key = `${owner}/${repo}`;
+    let pending = this.repositoryCache.get(key);
+    if (!pending) {
+      pending = this.client.getJson<BitbucketRepository>(this.repositoryPath(owner, repo), `access ${owner}/${repo}`);
+      this.repositoryCache.set(key, pending);
+      pending.catch(() => this.repositoryCache.delete(key));
+    }
+    return pending;
+  }
+
+  private async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const repository = await this.getRepository(owner, repo);
+    return repository.mainbranch?.name || "HEAD";
+  }
+
+  /**
+   * Lists a directory down to a depth, following pages until the tree entry limit is reached.
+   * Missing directories and empty repositories list as empty.
+   */
+  private async listSource(
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string | undefined,
+    maxDepth: number
+  ): Promise<{ items: BitbucketSourceEntry[]; truncated: boolean }> {
+    const items: BitbucketSourceEntry[] = [];
+
+    try {
+      // The trailing slash asks for a directory listing
+      let next: string | undefined =
+        `${(await this.sourcePath(owner, repo, ref, path)).replace(/\/?$/, "/")}?pagelen=${this.PAGE_SIZE}&max_depth=${maxDepth}`;
+      while (next) {
+        const page: BitbucketPage<BitbucketSourceEntry> = await this.client.getJson(
+          next,
+          `list ${path || "the root directory"}`
+        );
+        items.push(...page.values);
+        next = page.next;
+
+        if (items.length >= this.MAX_TREE_ENTRIES) {
+          return { items, truncated: Boolean(next) };
+        }
+      }
+      return { items, truncated: false };
+    } catch (error) {
+      console.error(`Error listing directory ${path || "/"}:`, error);
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      return { items: [], truncated: false };
+    }
+  }
+
+  private toNodeType(entry: BitbucketSourceEntry): TreeNode["type"] {
+    return entry.type === "commit_directory" ? "dir" : entry.type === "commit_link" ? "submodule" : "file";
+  }
+
+  private toChangedFile(stat: BitbucketDiffStat): ChangedFile {
+    return {
+      path: stat.new?.path || stat.old?.path || "",
+      previousPath: stat.status === "renamed" ? stat.old?.path : undefined,
+      // Conflict statuses are treated like modifications
+      status: ["added", "removed", "renamed"].includes(stat.status)
+        ? (stat.status as ChangedFile["status"])
+        : "modified",
+      additions: stat.lines_added,
+      deletions: stat.lines_removed,
+    };
+  }
+
+  private toCommit(commit: BitbucketCommit): RepoCommit {
+    return {
+      sha: commit.hash,
+      message: commit.message,
+      // The raw author includes the email address
+      author: commit.author.user?.display_name || commit.author.raw.replace(/\s*<[^>]*>$/, "") || "Unknown",
+      date: commit.date || "",
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Splits a multi-file git diff into the diff of each file, keyed by the file's
+ * path after the change (its old path for deletions, which git also writes as b/)
+ */
+export function splitDiffByFile(diff: string): Map<string, string> {
+  const patches = new Map<string, string>();
+
+  diff
+    .split(/^(?=diff --git )/m)
+    .filter((section) => section.startsWith("diff --git "))
+    .forEach((section) => {
+      // Unquoted headers are "diff --git a/<old> b/<new>"; quoted ones escape special characters
+      const header = section.split("\n", 1)[0];
+      const match = header.match(/ "?b\/(.+?)"?$/);
+      if (match) {
+        patches.set(match[1], section.replace(/\n$/, ""));
+      }
+    });
+
+  return patches;
+}
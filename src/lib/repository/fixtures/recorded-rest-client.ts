@@ -0,0 +1,48 @@
+import { toGitHubServiceError } from "../../github/github-errors";
+
+/**
+ * A response recorded from a repository API. String bodies are sent as text, anything else as JSON.
+ */
+export interface RecordedResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Creates a stand-in for RestClient that answers from recorded responses, keyed by the
+ * request path relative to the API base URL. Failed responses throw like RestClient does;
+ * requests without a recording throw a plain error, so a test cannot pass by accident.
+ */
+export function createRecordedRestClient(recordings: Record<string, RecordedResponse>) {
+  return class RecordedRestClient {
+    constructor(
+      private readonly baseUrl: string,
+      _headers: Record<string, string>,
+      private readonly service: string
+    ) {}
+
+    async get(path: string, action: string): Promise<Response> {
+      const key = path.startsWith(this.baseUrl) ? path.slice(this.baseUrl.length) : path;
+      const recording = recordings[key];
+      if (!recording) {
+        throw new Error(`No recorded ${this.service} response for ${key}`);
+      }
+
+      const { status = 200, headers = {}, body } = recording;
+      const text = typeof body === "string" ? body : JSON.stringify(body);
+      if (status >= 400) {
+        throw toGitHubServiceError({ status, message: text, response: { headers } }, action, this.service);
+      }
+      return new Response(text, { status, headers });
+    }
+
+    async getJson<T>(path: string, action: string): Promise<T> {
+      return (await (await this.get(path, action)).json()) as T;
+    }
+
+    async getText(path: string, action: string): Promise<string> {
+      return (await this.get(path, action)).text();
+    }
+  };
+}
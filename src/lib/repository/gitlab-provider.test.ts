@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { flattenTree } from "../github/tree-utils";
+import { GitLabProvider } from "./gitlab-provider";
+
+vi.mock("./rest-client", async () => {
+  const { createRecordedRestClient } = await import("./fixtures/recorded-rest-client");
+  const recordings = (await import("./fixtures/gitlab.json")).default;
+  return { RestClient: createRecordedRestClient(recordings) };
+});
+
+const SHA = "9c1e5f2b7a3d4e6f8091a2b3c4d5e6f708192a3b";
+
+describe("GitLabProvider", () => {
+  it("analyzes a project from recorded API responses", async () => {
+    const { repoData, repoContent } = await new GitLabProvider().analyzeRepository("acme", "widgets");
+
+    expect(repoData).toEqual({
+      name: "widgets",
+      fullName: "acme/widgets",
+      description: "Reusable UI widgets for Acme dashboards",
+      url: "https://gitlab.com/acme/widgets",
+      homepage: "",
+      language: "TypeScript",
+      stargazersCount: 42,
+      forksCount: 7,
+      openIssuesCount: 3,
+      defaultBranch: "main",
+      ref: "main",
+      sha: SHA,
+      path: "",
+      createdAt: "2024-02-11T09:15:32.000Z",
+      updatedAt: "2026-09-30T17:02:11.000Z",
+      pushedAt: "2026-09-30T17:02:11.000Z",
+      size: 20,
+      topics: ["ui", "react"],
+      visibility: "public",
+      owner: {
+        login: "acme",
+        avatarUrl: "https://gitlab.com/uploads/-/system/group/avatar/913/acme.png",
+        url: "https://gitlab.com/groups/acme",
+      },
+    });
+
+    expect(repoContent.readme).toMatch(/^# Widgets\n/);
+    expect(repoContent.dependencies).toEqual({ react: "^18.3.1", typescript: "^5.4.5" });
+    expect(repoContent.dependencyGraph).toEqual({ lockfiles: [], packages: [] });
+    // Percentages scaled by the 20 KiB repository size
+    expect(repoContent.languages).toEqual({ TypeScript: 18944, JavaScript: 1536 });
+    expect(repoContent.commits).toEqual([
+      { sha: SHA, message: "Add refresh interval option\n", author: "Dana Whitfield", date: "2026-09-30T16:58:40.000+00:00" },
+      {
+        sha: "5b7d0c9e1f2a3b4c5d6e7f8091a2b3c4d5e6f708",
+        message: "Initial widget API\n",
+        author: "Lee Okafor",
+        date: "2026-09-12T08:20:05.000+00:00",
+      },
+    ]);
+
+    expect(repoContent.folderStructureTruncated).toBe(false);
+    expect(flattenTree(repoContent.folderStructure).map((node) => `${node.type} ${node.path}`)).toEqual([
+      "dir src",
+      "file src/index.ts",
+      "file src/widget.ts",
+      "file README.md",
+      "file package.json",
+    ]);
+
+    // The tree API lists no sizes, so files are sized once fetched
+    expect(repoContent.files.map(({ path, size, reasons }) => ({ path, size, reasons }))).toEqual([
+      { path: "src/index.ts", size: 88, reasons: ["entry point", "large TypeScript file"] },
+      { path: "package.json", size: 247, reasons: ["config file"] },
+      { path: "src/widget.ts", size: 211, reasons: ["large TypeScript file"] },
+    ]);
+    expect(repoContent.files[0].content).toContain('export { createWidget } from "./widget";');
+  });
+});
@@ -0,0 +1,454 @@
+import type {
+  ChangedFile,
+  CommitComparison,
+  CommitDetails,
+  RepoData,
+  RepoTree,
+  ResolvedRef,
+  TreeNode,
+} from "../github/github-service";
+import { GitHubServiceError, isNotFoundError, toGitHubServiceError } from "../github/github-errors";
+import { BaseRepositoryProvider, FlatTreeEntry, RepoCommit } from "./repository-provider";
+import { RestClient } from "./rest-client";
+
+interface GitLabProject {
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  web_url: string;
+  default_branch?: string;
+  star_count: number;
+  forks_count: number;
+  open_issues_count?: number; // Missing when issues are disabled
+  created_at: string;
+  last_activity_at: string;
+  topics?: string[];
+  visibility?: string;
+  namespace: {
+    full_path: string;
+    avatar_url: string | null;
+    web_url: string;
+  };
+  statistics?: {
+    repository_size: number; // Bytes; only returned to members with at least Reporter access
+  };
+}
+
+interface GitLabTreeItem {
+  name: string;
+  path: string;
+  type: "tree" | "blob" | "commit";
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+  parent_ids?: string[]; // Only returned for single commits
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabComparison {
+  commits: GitLabCommit[];
+  diffs: GitLabDiff[];
+  compare_timeout?: boolean;
+}
+
+/**
+ * GitLab (gitlab.com or self-hosted) provider using the REST API v4.
+ * Owners may be nested groups, e.g. "group/subgroup".
+ */
+export class GitLabProvider extends BaseRepositoryProvider {
+  private client: RestClient;
+  private projectCache = new Map<string, Promise<GitLabProject>>(); // Project details are used by several calls
+  private readonly PAGE_SIZE = 100; // Maximum page size GitLab allows
+  private readonly MAX_COMPARE_FILES = 1000; // GitLab's default limit on files listed in a comparison
+  private readonly NOMINAL_LANGUAGE_TOTAL = 100 * 1024; // Total used to scale language percentages without repository statistics
+
+  /**
+   * @param token Personal, group or project access token; requests are anonymous without one
+   * @param baseUrl REST API URL, e.g. https://gitlab.example.com/api/v4
+   */
+  constructor(token?: string, baseUrl: string = "https://gitlab.com/api/v4") {
+    super();
+    this.client = new RestClient(
+      baseUrl.replace(/\/+$/, ""),
+      token ? { Authorization: `Bearer ${token}` } : {},
+      "GitLab"
+    );
+  }
+
+  /**
+   * Validates if a project (and optionally a ref) exists and is accessible.
+   * Returns false if it does not exist; other failures throw a GitHubServiceError.
+   */
+  async validateRepo(owner: string, repo: string, ref?: string): Promise<boolean> {
+    try {
+      await this.getProject(owner, repo);
+      if (ref) {
+        await this.resolveRef(owner, repo, ref);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error validating repository:", error);
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw toGitHubServiceError(error, `access ${owner}/${repo}`, "GitLab");
+    }
+  }
+
+  /**
+   * Resolves a branch, tag or commit SHA to a commit SHA, trying progressively
+   * longer candidates for refs that contain slashes (see GitHubService.resolveRef)
+   */
+  async resolveRef(owner: string, repo: string, ref?: string, path: string = ""): Promise<ResolvedRef> {
+    const name = ref || (await this.getProject(owner, repo)).default_branch || "HEAD";
+    const segments = path.split("/").filter(Boolean);
+
+    for (let i = 0; i <= segments.length; i++) {
+      const candidate = [name, ...segments.slice(0, i)].join("/");
+      try {
+        const commit = await this.client.getJson<GitLabCommit>(
+          `${this.projectPath(owner, repo)}/repository/commits/${encodeURIComponent(candidate)}`,
+          `resolve ${candidate}`
+        );
+
+        return {
+          ref: candidate,
+          sha: commit.id,
+          path: segments.slice(i).join("/"),
+        };
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+        if (i === segments.length) {
+          console.error(`Error resolving ref ${name}:`, error);
+        }
+      }
+    }
+
+    throw new GitHubServiceError(`Branch, tag or commit "${name}" not found`, "not_found", 404);
+  }
+
+  /**
+   * Turns the path from a /-/tree/ or /-/blob/ URL into a directory scope.
+   * Blob URLs point at a file, so the file's directory is used instead.
+   */
+  async resolveScope(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    const trimmedPath = path.replace(/^\/+|\/+$/g, "");
+    if (!trimmedPath) {
+      return "";
+    }
+
+    const parent = trimmedPath.includes("/") ? trimmedPath.slice(0, trimmedPath.lastIndexOf("/")) : "";
+    const name = trimmedPath.slice(parent ? parent.length + 1 : 0);
+    const entry = (await this.listTree(owner, repo, parent, ref, false)).items.find((item) => item.name === name);
+
+    if (!entry) {
+      throw new GitHubServiceError(`Path "${trimmedPath}" not found`, "not_found", 404);
+    }
+
+    return entry.type === "tree" ? trimmedPath : parent;
+  }
+
+  /**
+   * Fetches basic project data
+   * @param resolvedRef The ref being analyzed; defaults to the default branch
+   */
+  async getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData> {
+    const [project, languages] = await Promise.all([
+      this.getProject(owner, repo),
+      this.getLanguages(owner, repo),
+    ]);
+    const defaultBranch = project.default_branch || "";
+    const primaryLanguage = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    return {
+      name: project.name,
+      fullName: project.path_with_namespace,
+      description: project.description || "",
+      url: project.web_url,
+      homepage: "",
+      language: primaryLanguage || "",
+      stargazersCount: project.star_count,
+      forksCount: project.forks_count,
+      openIssuesCount: project.open_issues_count || 0,
+      defaultBranch,
+      ref: resolvedRef?.ref || defaultBranch,
+      sha: resolvedRef?.sha || "",
+      path: resolvedRef?.path || "",
+      createdAt: project.created_at,
+      updatedAt: project.last_activity_at,
+      pushedAt: project.last_activity_at,
+      // Kilobytes, like GitHub
+      size: Math.round((project.statistics?.repository_size || 0) / 1024),
+      topics: project.topics || [],
+      visibility: project.visibility || "",
+      owner: {
+        login: project.namespace.full_path,
+        avatarUrl: project.namespace.avatar_url || "",
+        url: project.namespace.web_url,
+      },
+    };
+  }
+
+  /**
+   * Fetches project languages. GitLab reports percentages, which are turned
+   * into approximate byte counts using the repository size when it is known.
+   */
+  async getLanguages(owner: string, repo: string): Promise<{ [key: string]: number }> {
+    const [percentages, project] = await Promise.all([
+      this.client.getJson<Record<string, number>>(
+        `${this.projectPath(owner, repo)}/languages`,
+        "fetch languages"
+      ),
+      this.getProject(owner, repo),
+    ]);
+    const total = project.statistics?.repository_size || this.NOMINAL_LANGUAGE_TOTAL;
+
+    return Object.fromEntries(
+      Object.entries(percentages).map(([language, percentage]) => [
+        language,
+        Math.round((percentage / 100) * total),
+      ])
+    );
+  }
+
+  /**
+   * Fetches recent commits reachable from a ref, optionally touching a path
+   */
+  async getRecentCommits(owner: string, repo: string, ref?: string, count: number = 10, path?: string): Promise<RepoCommit[]> {
+    const params = new URLSearchParams({ per_page: String(count) });
+    if (ref) params.set("ref_name", ref);
+    if (path) params.set("path", path);
+
+    try {
+      const commits = await this.client.getJson<GitLabCommit[]>(
+        `${this.projectPath(owner, repo)}/repository/commits?${params}`,
+        "fetch recent commits"
+      );
+      return commits.map((commit) => this.toCommit(commit));
+    } catch (error) {
+      // Empty repositories have no commits
+      if (isNotFoundError(error)) {
+        return [];
+      }
+      console.error("Error fetching commits:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the full folder structure using the recursive repository tree API
+   * @param path Optional subdirectory to fetch; node paths stay relative to the repository root
+   */
+  async getFolderStructure(owner: string, repo: string, ref: string = "HEAD", path: string = ""): Promise<RepoTree> {
+    const prefix = path ? `${path}/` : "";
+    const { items, truncated } = await this.listTree(owner, repo, path, ref, true);
+
+    // Listed paths are relative to the repository root; parents must come before children
+    const entries: FlatTreeEntry[] = items
+      .map((item) => ({
+        path: item.path.slice(prefix.length),
+        type: item.type === "tree" ? ("dir" as const) : item.type === "commit" ? ("submodule" as const) : ("file" as const),
+        // The tree API does not report sizes
+        size: 0,
+      }))
+      .sort((a, b) => a.path.split("/").length - b.path.split("/").length);
+
+    return this.buildFolderStructure(entries, prefix, truncated, `${owner}/${repo}`);
+  }
+
+  /**
+   * Lists a single directory without recursing into it
+   */
+  async getDirectoryListing(owner: string, repo: string, path: string = "", ref?: string): Promise<TreeNode[]> {
+    const { items } = await this.listTree(owner, repo, path, ref, false);
+
+    return items.map((item) => ({
+      name: item.name,
+      path: item.path,
+      type: item.type === "tree" ? "dir" : item.type === "commit" ? "submodule" : "file",
+      size: 0,
+    }));
+  }
+
+  /**
+   * Fetches a file's raw text through the repository files API
+   */
+  protected async fetchFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+    try {
+      return await this.client.getText(
+        `${this.projectPath(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref || "HEAD")}`,
+        `fetch ${path}`
+      );
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      console.warn(`Could not fetch file ${path}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compares two commits, listing the commits and files changed between them
+   */
+  async compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison> {
+    try {
+      const project = this.projectPath(owner, repo);
+      const [comparison, mergeBase] = await Promise.all([
+        this.client.getJson<GitLabComparison>(
+          `${project}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}&straight=false`,
+          `compare ${base}...${head}`
+        ),
+        this.client.getJson<GitLabCommit>(
+          `${project}/repository/merge_base?refs[]=${encodeURIComponent(base)}&refs[]=${encodeURIComponent(head)}`,
+          `find the merge base of ${base} and ${head}`
+        ),
+      ]);
+
+      const files = comparison.diffs.map((diff) => this.toChangedFile(diff));
+
+      return {
+        baseSha: base,
+        headSha: head,
+        status:
+          base === head
+            ? "identical"
+            : mergeBase.id === base
+              ? "ahead"
+              : mergeBase.id === head
+                ? "behind"
+                : "diverged",
+        commits: comparison.commits.map((commit) => this.toCommit(commit)),
+        files,
+        filesTruncated: comparison.compare_timeout === true || files.length >= this.MAX_COMPARE_FILES,
+      };
+    } catch (error) {
+      console.error(`Error comparing ${base}...${head}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a commit with the files it changed and their diffs
+   */
+  async getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails> {
+    try {
+      const commitPath = `${this.projectPath(owner, repo)}/repository/commits/${encodeURIComponent(sha)}`;
+      const [commit, diffs] = await Promise.all([
+        this.client.getJson<GitLabCommit>(commitPath, `fetch commit ${sha}`),
+        this.client.getJson<GitLabDiff[]>(`${commitPath}/diff?per_page=${this.PAGE_SIZE}`, `fetch the diff of ${sha}`),
+      ]);
+
+      return {
+        ...this.toCommit(commit),
+        parents: commit.parent_ids || [],
+        files: diffs.map((diff) => ({ ...this.toChangedFile(diff), patch: diff.diff })),
+        filesTruncated: diffs.length >= this.PAGE_SIZE,
+      };
+    } catch (error) {
+      console.error(`Error fetching commit ${sha}:`, error);
+      throw error;
+    }
+  }
+
+  private projectPath(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private getProject(owner: string, repo: string): Promise<GitLabProject> {
+    const key = `${owner}/${repo}`;
+    let pending = this.projectCache.get(key);
+    if (!pending) {
+      pending = this.client.getJson<GitLabProject>(
+        `${this.projectPath(owner, repo)}?statistics=true`,
+        `access ${owner}/${repo}`
+      );
+      this.projectCache.set(key, pending);
+      pending.catch(() => this.projectCache.delete(key));
+    }
+    return pending;
+  }
+
+  /**
+   * Lists a directory page by page, stopping once the tree entry limit is reached.
+   * Missing directories and empty repositories list as empty.
+   */
+  private async listTree(
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string | undefined,
+    recursive: boolean
+  ): Promise<{ items: GitLabTreeItem[]; truncated: boolean }> {
+    const items: GitLabTreeItem[] = [];
+    const params = new URLSearchParams({ per_page: String(this.PAGE_SIZE), recursive: String(recursive) });
+    if (path) params.set("path", path);
+    if (ref) params.set("ref", ref);
+
+    try {
+      for (let page = "1"; page; ) {
+        params.set("page", page);
+        const response = await this.client.get(
+          `${this.projectPath(owner, repo)}/repository/tree?${params}`,
+          `list ${path || "the root directory"}`
+        );
+        items.push(...((await response.json()) as GitLabTreeItem[]));
+        page = response.headers.get("x-next-page") || "";
+
+        if (items.length >= this.MAX_TREE_ENTRIES) {
+          return { items, truncated: Boolean(page) };
+        }
+      }
+      return { items, truncated: false };
+    } catch (error) {
+      console.error(`Error listing directory ${path || "/"}:`, error);
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      return { items: [], truncated: false };
+    }
+  }
+
+  /**
+   * GitLab diffs carry no line counts, so they are counted from the diff text
+   */
+  private toChangedFile(diff: GitLabDiff): ChangedFile {
+    const lines = diff.diff.split("\n");
+    return {
+      path: diff.deleted_file ? diff.old_path : diff.new_path,
+      previousPath: diff.renamed_file ? diff.old_path : undefined,
+      status: diff.new_file
+        ? "added"
+        : diff.deleted_file
+          ? "removed"
+          : diff.renamed_file
+            ? "renamed"
+            : "modified",
+      additions: lines.filter((line) => line.startsWith("+") && !line.startsWith("+++")).length,
+      deletions: lines.filter((line) => line.startsWith("-") && !line.startsWith("---")).length,
+    };
+  }
+
+  private toCommit(commit: GitLabCommit): RepoCommit {
+    return {
+      sha: commit.id,
+      message: commit.message,
+      author: commit.author_name || "Unknown",
+      date: commit.authored_date || "",
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalRepositoryProvider } from "./local-provider";
+
+describe("LocalRepositoryProvider", () => {
+  let root: string;
+  let directory: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+      cwd: directory,
+      encoding: "utf8",
+    }).trim();
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "gitrepos-local-"));
+    directory = path.join(root, "acme", "app");
+    await fs.mkdir(directory, { recursive: true });
+    git("init", "-q", "-b", "main");
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("counts languages at the analyzed commit rather than HEAD", async () => {
+    await fs.writeFile(path.join(directory, "index.ts"), "export const answer = 42;\n");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Start in TypeScript");
+    const first = git("rev-parse", "HEAD");
+
+    // HEAD moves on to a rewrite in Python
+    await fs.rm(path.join(directory, "index.ts"));
+    await fs.writeFile(path.join(directory, "main.py"), "ANSWER = 42\n");
+    git("add", "-A");
+    git("commit", "-q", "-m", "Rewrite in Python");
+
+    const provider = new LocalRepositoryProvider([root]);
+    const { repoData, repoContent } = await provider.analyzeRepository(path.dirname(directory), "app", first);
+
+    expect(repoData.sha).toBe(first);
+    expect(repoData.language).toBe("TypeScript");
+    expect(repoContent.languages).toEqual({ TypeScript: 26 });
+  });
+});
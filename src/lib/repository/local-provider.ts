@@ -0,0 +1,521 @@
+import { execFile } from "child_process";
+import { realpath } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import type {
+  ChangedFile,
+  CommitComparison,
+  CommitDetails,
+  RepoData,
+  RepoTree,
+  ResolvedRef,
+  TreeNode,
+} from "../github/github-service";
+import { countLanguageBytes } from "../github/file-selector";
+import { GitHubServiceError } from "../github/github-errors";
+import { splitDiffByFile } from "./diff-utils";
+import { BaseRepositoryProvider, FlatTreeEntry, RepoCommit } from "./repository-provider";
+
+const execFileAsync = promisify(execFile);
+
+// Separators for git log output; neither appears in commit messages
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+const LOG_FORMAT = `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`;
+
+// Messages git prints when a repository, revision or path does not exist
+const NOT_FOUND_PATTERN =
+  /not a git repository|does not exist|not a valid object|bad revision|unknown revision|invalid object name|not a tree object|ambiguous argument/i;
+
+interface GitTreeEntry {
+  type: "blob" | "tree" | "commit";
+  size: number;
+  path: string;
+}
+
+/**
+ * Reads a repository from a local clone or bare git directory with the git CLI,
+ * for air-gapped analysis. The repository directory is owner/repo, where the
+ * owner is the parent directory; only directories inside the configured roots
+ * (LOCAL_REPOSITORY_ROOTS) can be read.
+ */
+export class LocalRepositoryProvider extends BaseRepositoryProvider {
+  private directoryCache = new Map<string, Promise<string>>(); // Checked repository directories, by owner/repo
+  private readonly GIT_TIMEOUT = 60 * 1000; // Milliseconds before a git command is killed
+  private readonly GIT_MAX_BUFFER = 64 * 1024 * 1024; // Maximum output of a git command
+
+  /**
+   * @param roots Directories that repositories may be read from
+   */
+  constructor(private readonly roots: string[]) {
+    super();
+  }
+
+  /**
+   * Validates if a directory is a git repository (and optionally contains a ref).
+   * Returns false if it is not; other failures throw a GitHubServiceError.
+   */
+  async validateRepo(owner: string, repo: string, ref?: string): Promise<boolean> {
+    try {
+      await this.git(owner, repo, ["rev-parse", "--git-dir"], `access ${repo}`);
+      if (ref) {
+        await this.resolveRef(owner, repo, ref);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error validating repository:", error);
+      if (error instanceof GitHubServiceError && error.kind === "not_found") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a branch, tag or commit SHA to a commit SHA, trying progressively
+   * longer candidates for refs that contain slashes (see GitHubService.resolveRef)
+   */
+  async resolveRef(owner: string, repo: string, ref?: string, urlPath: string = ""): Promise<ResolvedRef> {
+    const name = ref || (await this.getDefaultBranch(owner, repo)) || "HEAD";
+    const segments = urlPath.split("/").filter(Boolean);
+
+    for (let i = 0; i <= segments.length; i++) {
+      const candidate = [name, ...segments.slice(0, i)].join("/");
+      try {
+        const sha = await this.git(
+          owner,
+          repo,
+          ["rev-parse", "--verify", `${this.revision(candidate)}^{commit}`],
+          `resolve ${candidate}`
+        );
+
+        return {
+          ref: candidate,
+          sha: sha.trim(),
+          path: segments.slice(i).join("/"),
+        };
+      } catch (error) {
+        if (!(error instanceof GitHubServiceError) || error.kind !== "not_found") {
+          throw error;
+        }
+      }
+    }
+
+    console.error(`Error resolving ref ${name}: no matching branch, tag or commit`);
+    throw new GitHubServiceError(`Branch, tag or commit "${name}" not found`, "not_found", 404);
+  }
+
+  /**
+   * Turns a path into a directory scope; paths to files are replaced by the file's directory
+   */
+  async resolveScope(owner: string, repo: string, scopePath: string, ref?: string): Promise<string> {
+    const trimmedPath = scopePath.replace(/^\/+|\/+$/g, "");
+    if (!trimmedPath) {
+      return "";
+    }
+
+    try {
+      const type = await this.git(
+        owner,
+        repo,
+        ["cat-file", "-t", `${this.revision(ref || "HEAD")}:${trimmedPath}`],
+        `resolve ${trimmedPath}`
+      );
+
+      if (type.trim() === "tree") {
+        return trimmedPath;
+      }
+
+      return trimmedPath.includes("/") ? trimmedPath.slice(0, trimmedPath.lastIndexOf("/")) : "";
+    } catch (error) {
+      console.error(`Error resolving path ${trimmedPath}:`, error);
+      if (!(error instanceof GitHubServiceError) || error.kind !== "not_found") {
+        throw error;
+      }
+      throw new GitHubServiceError(`Path "${trimmedPath}" not found`, "not_found", 404);
+    }
+  }
+
+  /**
+   * Describes the repository from its git metadata; hosting data such as stars is reported as 0
+   * @param resolvedRef The ref being analyzed; defaults to the default branch
+   */
+  async getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData> {
+    const directory = await this.getDirectory(owner, repo);
+    const revision = this.revision(resolvedRef?.sha || "HEAD");
+    const [defaultBranch, languages, lastCommitDate, rootCommitDates, objectCounts] = await Promise.all([
+      this.getDefaultBranch(owner, repo),
+      this.getLanguages(owner, repo, resolvedRef?.sha),
+      this.git(owner, repo, ["log", "-1", "--format=%cI", revision], "read the last commit").catch(() => ""),
+      this.git(owner, repo, ["log", "--max-parents=0", "--format=%aI", revision], "read the first commit").catch(
+        () => ""
+      ),
+      this.git(owner, repo, ["count-objects", "-v"], "measure the repository").catch(() => ""),
+    ]);
+
+    // count-objects reports loose and packed object sizes in kilobytes
+    const size = objectCounts
+      .split("\n")
+      .filter((line) => /^size(-pack)?:/.test(line))
+      .reduce((total, line) => total + Number(line.split(":")[1]), 0);
+    const primaryLanguage = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0];
+    const name = repo.replace(/\.git$/, "");
+
+    return {
+      name,
+      fullName: directory,
+      description: "",
+      url: `file://${directory}`,
+      homepage: "",
+      language: primaryLanguage || "",
+      stargazersCount: 0,
+      forksCount: 0,
+      openIssuesCount: 0,
+      defaultBranch,
+      ref: resolvedRef?.ref || defaultBranch,
+      sha: resolvedRef?.sha || "",
+      path: resolvedRef?.path || "",
+      createdAt: rootCommitDates.trim().split("\n").pop() || "",
+      updatedAt: lastCommitDate.trim(),
+      pushedAt: lastCommitDate.trim(),
+      size,
+      topics: [],
+      visibility: "local",
+      owner: {
+        login: owner,
+        avatarUrl: "",
+        url: `file://${path.dirname(directory)}`,
+      },
+    };
+  }
+
+  /**
+   * Totals file sizes at a ref by language, inferred from file extensions
+   * @param ref Commit to count, normally the analyzed SHA; defaults to HEAD
+   */
+  async getLanguages(owner: string, repo: string, ref: string = "HEAD"): Promise<{ [key: string]: number }> {
+    const tree = await this.getFolderStructure(owner, repo, ref);
+    return countLanguageBytes(tree.entries);
+  }
+
+  /**
+   * Reads recent commits reachable from a ref with git log, optionally touching a path
+   */
+  async getRecentCommits(owner: string, repo: string, ref?: string, count: number = 10, scopePath?: string): Promise<RepoCommit[]> {
+    try {
+      const output = await this.git(
+        owner,
+        repo,
+        ["log", `-n${count}`, LOG_FORMAT, this.revision(ref || "HEAD"), "--", ...(scopePath ? [scopePath] : [])],
+        "read recent commits"
+      );
+      return this.parseLog(output);
+    } catch (error) {
+      // Empty repositories have no commits
+      if (error instanceof GitHubServiceError && error.kind === "not_found") {
+        return [];
+      }
+      console.error("Error reading commits:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the full folder structure with git ls-tree
+   * @param scopePath Optional subdirectory to list; node paths stay relative to the repository root
+   */
+  async getFolderStructure(owner: string, repo: string, ref: string = "HEAD", scopePath: string = ""): Promise<RepoTree> {
+    const prefix = scopePath ? `${scopePath}/` : "";
+    // -t lists each directory before its contents
+    const items = await this.listTree(owner, repo, ["-r", "-t"], ref, scopePath);
+
+    const entries: FlatTreeEntry[] = items.map((item) => ({
+      path: item.path,
+      type: item.type === "tree" ? "dir" : item.type === "commit" ? "submodule" : "file",
+      size: item.size,
+    }));
+
+    return this.buildFolderStructure(entries, prefix, false, `${owner}/${repo}`);
+  }
+
+  /**
+   * Lists a single directory without recursing into it
+   */
+  async getDirectoryListing(owner: string, repo: string, dirPath: string = "", ref?: string): Promise<TreeNode[]> {
+    const prefix = dirPath ? `${dirPath}/` : "";
+    const items = await this.listTree(owner, repo, [], ref || "HEAD", dirPath);
+
+    return items.map((item) => ({
+      name: item.path,
+      path: prefix + item.path,
+      type: item.type === "tree" ? "dir" : item.type === "commit" ? "submodule" : "file",
+      size: item.size,
+    }));
+  }
+
+  /**
+   * Reads a file's text from the object database
+   */
+  protected async fetchFileText(owner: string, repo: string, filePath: string, ref?: string): Promise<string | null> {
+    try {
+      return await this.git(
+        owner,
+        repo,
+        ["cat-file", "blob", `${this.revision(ref || "HEAD")}:${filePath}`],
+        `read ${filePath}`
+      );
+    } catch (error) {
+      if (!(error instanceof GitHubServiceError) || error.kind !== "not_found") {
+        throw error;
+      }
+      console.warn(`Could not read file ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Compares two commits, listing the commits and files changed between them
+   */
+  async compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison> {
+    const baseRevision = this.revision(base);
+    const headRevision = this.revision(head);
+
+    try {
+      const [mergeBase, log, files] = await Promise.all([
+        // Exits with 1 when the commits share no history
+        this.git(owner, repo, ["merge-base", baseRevision, headRevision], "find the merge base").catch(() => ""),
+        this.git(owner, repo, ["log", LOG_FORMAT, `${baseRevision}..${headRevision}`], "list commits"),
+        this.diffFiles(owner, repo, ["diff", "-M"], `${baseRevision}...${headRevision}`),
+      ]);
+
+      const [baseSha, headSha, mergeBaseSha] = await Promise.all(
+        [baseRevision, headRevision, mergeBase.trim()].map((revision) =>
+          revision
+            ? this.git(owner, repo, ["rev-parse", "--verify", revision], `resolve ${revision}`).then((sha) => sha.trim())
+            : ""
+        )
+      );
+
+      return {
+        baseSha: base,
+        headSha: head,
+        status:
+          baseSha === headSha
+            ? "identical"
+            : mergeBaseSha === baseSha
+              ? "ahead"
+              : mergeBaseSha === headSha
+                ? "behind"
+                : "diverged",
+        commits: this.parseLog(log),
+        files,
+        filesTruncated: false,
+      };
+    } catch (error) {
+      console.error(`Error comparing ${base}...${head}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a commit with the files it changed and their diffs against its first parent
+   */
+  async getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails> {
+    const revision = this.revision(sha);
+    // The root commit is compared with the empty tree
+    const diffTree = ["diff-tree", "--no-commit-id", "-r", "--root", "-M"];
+
+    try {
+      const [log, parents, files, diff] = await Promise.all([
+        this.git(owner, repo, ["log", "-1", LOG_FORMAT, revision, "--"], `read commit ${sha}`),
+        this.git(owner, repo, ["rev-list", "--parents", "-n1", revision, "--"], `read the parents of ${sha}`),
+        this.diffFiles(owner, repo, diffTree, revision),
+        this.git(owner, repo, [...diffTree, "-p", revision, "--"], `read the diff of ${sha}`),
+      ]);
+
+      const [commit] = this.parseLog(log);
+      const patches = splitDiffByFile(diff);
+      return {
+        ...commit,
+        parents: parents.trim().split(/\s+/).slice(1),
+        files: files.map((file) => ({ ...file, patch: patches.get(file.path) })),
+        filesTruncated: false,
+      };
+    } catch (error) {
+      console.error(`Error reading commit ${sha}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the files changed in a diff with their status and line counts
+   * @param command The diff command and its options, e.g. ["diff", "-M"]
+   * @param revisions The commit or range to diff
+   */
+  private async diffFiles(owner: string, repo: string, command: string[], revisions: string): Promise<ChangedFile[]> {
+    const [nameStatus, numstat] = await Promise.all([
+      this.git(owner, repo, [...command, "--name-status", "-z", revisions, "--"], "diff"),
+      this.git(owner, repo, [...command, "--numstat", "-z", revisions, "--"], "diff"),
+    ]);
+
+    // --numstat -z lists "added\tdeleted\tpath", or "added\tdeleted\t" then both paths of a rename
+    const lineCounts = new Map<string, { additions: number; deletions: number }>();
+    const numstatTokens = numstat.split("\0");
+    for (let i = 0; i < numstatTokens.length && numstatTokens[i]; ) {
+      const [added, deleted, filePath] = numstatTokens[i].split("\t");
+      const key = filePath || numstatTokens[i + 2];
+      i += filePath ? 1 : 3;
+      // Binary files are counted as "-"
+      lineCounts.set(key, { additions: Number(added) || 0, deletions: Number(deleted) || 0 });
+    }
+
+    // --name-status -z lists the status then the path, or both paths of a rename or copy
+    const files: ChangedFile[] = [];
+    const statusTokens = nameStatus.split("\0");
+    for (let i = 0; i < statusTokens.length && statusTokens[i]; ) {
+      const status = statusTokens[i][0];
+      const renamed = status === "R" || status === "C";
+      const filePath = renamed ? statusTokens[i + 2] : statusTokens[i + 1];
+      files.push({
+        path: filePath,
+        previousPath: status === "R" ? statusTokens[i + 1] : undefined,
+        status: status === "A" || status === "C" ? "added" : status === "D" ? "removed" : status === "R" ? "renamed" : "modified",
+        ...(lineCounts.get(filePath) || { additions: 0, deletions: 0 }),
+      });
+      i += renamed ? 3 : 2;
+    }
+
+    return files;
+  }
+
+  /**
+   * Resolves owner/repo to a directory inside one of the roots
+   */
+  private getDirectory(owner: string, repo: string): Promise<string> {
+    const key = `${owner}/${repo}`;
+    let pending = this.directoryCache.get(key);
+    if (!pending) {
+      pending = this.checkDirectory(path.resolve(owner, repo));
+      this.directoryCache.set(key, pending);
+      pending.catch(() => this.directoryCache.delete(key));
+    }
+    return pending;
+  }
+
+  private async checkDirectory(directory: string): Promise<string> {
+    // Resolve symlinks so a link inside a root cannot point outside it
+    const resolved = await realpath(directory).catch(() => null);
+    if (!resolved) {
+      throw new GitHubServiceError(`Directory "${directory}" not found`, "not_found", 404);
+    }
+
+    const roots = await Promise.all(this.roots.map((root) => realpath(root).catch(() => null)));
+    const allowed = roots.some((root) => root && (resolved === root || resolved.startsWith(root + path.sep)));
+    if (!allowed) {
+      throw new GitHubServiceError(
+        `Directory "${directory}" is outside LOCAL_REPOSITORY_ROOTS`,
+        "forbidden",
+        403
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Runs a git command in the repository and returns its output
+   * @param action What is being done, for error messages, e.g. "read package.json"
+   */
+  private async git(owner: string, repo: string, args: string[], action: string): Promise<string> {
+    const directory = await this.getDirectory(owner, repo);
+
+    try {
+      const { stdout } = await execFileAsync("git", ["-C", directory, ...args], {
+        encoding: "utf8",
+        maxBuffer: this.GIT_MAX_BUFFER,
+        timeout: this.GIT_TIMEOUT,
+      });
+      return stdout;
+    } catch (error) {
+      const { code, stderr = "", message } = error as { code?: number | string; stderr?: string; message: string };
+      if (code === "ENOENT") {
+        throw new GitHubServiceError(`Could not ${action}: git is not installed`, "unknown");
+      }
+      if (NOT_FOUND_PATTERN.test(stderr)) {
+        throw new GitHubServiceError(`Not found while trying to ${action}`, "not_found", 404);
+      }
+      throw new GitHubServiceError(`git failed while trying to ${action}: ${stderr.trim() || message}`, "unknown");
+    }
+  }
+
+  /**
+   * Lists a tree with git ls-tree -l -z; entry paths are relative to the listed directory.
+   * Missing directories and empty repositories list as empty.
+   */
+  private async listTree(
+    owner: string,
+    repo: string,
+    options: string[],
+    ref: string,
+    dirPath: string
+  ): Promise<GitTreeEntry[]> {
+    try {
+      const output = await this.git(
+        owner,
+        repo,
+        ["ls-tree", "-l", "-z", ...options, `${this.revision(ref)}:${dirPath}`],
+        `list ${dirPath || "the root directory"}`
+      );
+
+      // Each entry is "<mode> <type> <object> <size>\t<path>"; directories have no size
+      return output
+        .split("\0")
+        .filter(Boolean)
+        .map((line) => {
+          const [meta, entryPath] = line.split("\t");
+          const [, type, , size] = meta.split(/\s+/);
+          return { type: type as GitTreeEntry["type"], size: Number(size) || 0, path: entryPath };
+        });
+    } catch (error) {
+      console.error(`Error listing directory ${dirPath || "/"}:`, error);
+      if (!(error instanceof GitHubServiceError) || error.kind !== "not_found") {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  private async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    // Fails when HEAD is detached
+    const branch = await this.git(owner, repo, ["symbolic-ref", "--short", "-q", "HEAD"], "read HEAD").catch(
+      () => ""
+    );
+    return branch.trim();
+  }
+
+  /**
+   * Rejects revisions that git would read as options
+   */
+  private revision(ref: string): string {
+    if (ref.startsWith("-")) {
+      throw new GitHubServiceError(`Branch, tag or commit "${ref}" not found`, "not_found", 404);
+    }
+    return ref;
+  }
+
+  private parseLog(output: string): RepoCommit[] {
+    return output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.replace(/^\n/, ""))
+      .filter(Boolean)
+      .map((record) => {
+        const [sha, author, date, message] = record.split(FIELD_SEPARATOR);
+        return {
+          sha,
+          message: (message || "").trim(),
+          author: author || "Unknown",
+          date: date || "",
+        };
+      });
+  }
+}
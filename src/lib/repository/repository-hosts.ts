@@ -0,0 +1,154 @@
+import path from "path";
+import { GitHubService } from "../github/github-service";
+import { getGitHubHosts } from "../github/github-hosts";
+import { BitbucketProvider } from "./bitbucket-provider";
+import { GitLabProvider } from "./gitlab-provider";
+import { LocalRepositoryProvider } from "./local-provider";
+import { RepositoryProvider } from "./repository-provider";
+import type { RepositoryHostType } from "../utils";
+
+export interface RepositoryHost {
+  type: RepositoryHostType;
+  host: string; // e.g. "gitlab.com" or "gitlab.example.com"
+  webUrl: string;
+  apiUrl: string;
+  token?: string; // Server-wide token for this host
+  username?: string; // Bitbucket username the token (an app password) belongs to
+  roots?: string[]; // Directories local repositories may be read from
+}
+
+interface GitLabHostConfig {
+  host: string;
+  apiUrl?: string;
+  token?: string;
+}
+
+export const GITLAB_COM = "gitlab.com";
+export const BITBUCKET_ORG = "bitbucket.org";
+export const LOCAL_HOST = "local"; // Host of file:// repository URLs
+
+/**
+ * Lists every configured host: the GitHub hosts (see getGitHubHosts), gitlab.com,
+ * the self-hosted GitLab instances in GITLAB_HOSTS (a JSON array of
+ * {host, apiUrl?, token?}), Bitbucket Cloud and, if LOCAL_REPOSITORY_ROOTS lists
+ * any directories (separated like PATH), local repositories inside them
+ */
+export function getRepositoryHosts(env: NodeJS.ProcessEnv = process.env): RepositoryHost[] {
+  const hosts: RepositoryHost[] = getGitHubHosts(env).map((host) => ({
+    type: "github",
+    host: host.host,
+    webUrl: host.webUrl,
+    apiUrl: host.apiUrl,
+    token: host.token,
+  }));
+
+  hosts.push({
+    type: "gitlab",
+    host: GITLAB_COM,
+    webUrl: `https://${GITLAB_COM}`,
+    apiUrl: `https://${GITLAB_COM}/api/v4`,
+    token: env.GITLAB_TOKEN,
+  });
+
+  if (env.GITLAB_HOSTS) {
+    try {
+      const configs = JSON.parse(env.GITLAB_HOSTS) as GitLabHostConfig[];
+      if (!Array.isArray(configs)) {
+        throw new Error("Expected a JSON array");
+      }
+
+      for (const config of configs) {
+        if (!config || typeof config.host !== "string" || !config.host) {
+          console.warn("Ignoring GitLab host without a host name");
+          continue;
+        }
+        const host = config.host.toLowerCase().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+        hosts.push({
+          type: "gitlab",
+          host,
+          webUrl: `https://${host}`,
+          apiUrl: (config.apiUrl || `https://${host}/api/v4`).replace(/\/+$/, ""),
+          token: config.token,
+        });
+      }
+    } catch (error) {
+      console.error("Invalid GITLAB_HOSTS configuration:", (error as Error).message);
+    }
+  }
+
+  // App passwords authenticate together with the username; access tokens on their own
+  hosts.push({
+    type: "bitbucket",
+    host: BITBUCKET_ORG,
+    webUrl: `https://${BITBUCKET_ORG}`,
+    apiUrl: "https://api.bitbucket.org/2.0",
+    token: env.BITBUCKET_APP_PASSWORD || env.BITBUCKET_TOKEN,
+    username: env.BITBUCKET_APP_PASSWORD ? env.BITBUCKET_USERNAME : undefined,
+  });
+
+  // Local repositories are opt-in, since they expose the server's filesystem
+  const roots = (env.LOCAL_REPOSITORY_ROOTS || "").split(path.delimiter).filter(Boolean);
+  if (roots.length > 0) {
+    hosts.push({
+      type: "local",
+      host: LOCAL_HOST,
+      webUrl: "file://",
+      apiUrl: "",
+      roots: roots.map((root) => path.resolve(root)),
+    });
+  }
+
+  return hosts;
+}
+
+/**
+ * Returns the configuration of a host, or null if it is not configured
+ */
+export function getRepositoryHost(host: string, env: NodeJS.ProcessEnv = process.env): RepositoryHost | null {
+  return getRepositoryHosts(env).find((candidate) => candidate.host === host.toLowerCase()) || null;
+}
+
+/**
+ * Creates the provider for a host
+ * @param userToken The connected user's token for this host (GitHub hosts only); defaults to the host's server-wide token
+ */
+export function createRepositoryProvider(host: RepositoryHost, userToken?: string): RepositoryProvider {
+  switch (host.type) {
+    case "gitlab":
+      return new GitLabProvider(host.token, host.apiUrl);
+    case "bitbucket":
+      return new BitbucketProvider(host.token, host.username, host.apiUrl);
+    case "local":
+      return new LocalRepositoryProvider(host.roots || []);
+    default:
+      return new GitHubService(userToken || host.token, host.apiUrl);
+  }
+}
+
+/**
+ * Links to lines of a file at a commit on the host's web interface,
+ * or returns null for local repositories, which have none
+ */
+export function getBlobUrl(
+  host: RepositoryHost,
+  owner: string,
+  repo: string,
+  ref: string,
+  filePath: string,
+  startLine: number,
+  endLine: number
+): string | null {
+  const encodedPath = filePath.split("/").map(encodeURIComponent).join("/");
+  const base = `${host.webUrl}/${owner}/${repo}`;
+
+  switch (host.type) {
+    case "github":
+      return `${base}/blob/${ref}/${encodedPath}#L${startLine}${endLine > startLine ? `-L${endLine}` : ""}`;
+    case "gitlab":
+      return `${base}/-/blob/${ref}/${encodedPath}#L${startLine}${endLine > startLine ? `-${endLine}` : ""}`;
+    case "bitbucket":
+      return `${base}/src/${ref}/${encodedPath}#lines-${startLine}${endLine > startLine ? `:${endLine}` : ""}`;
+    default:
+      return null;
+  }
+}
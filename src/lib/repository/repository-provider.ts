@@ -0,0 +1,591 @@
+import type {
+  AnalysisBaseline,
+  AnalysisProgressCallback,
+  CommitComparison,
+  CommitDetails,
+  Dependency,
+  RepoAnalysisData,
+  RepoContent,
+  RepoData,
+  RepoFile,
+  RepoTree,
+  RepositoryOverview,
+  ResolvedDependencyGraph,
+  ResolvedRef,
+  TreeNode,
+  WorkspaceInfo,
+} from "../github/github-service";
+import { rankImportantFiles } from "../github/file-selector";
+import { isManifestFile, parseManifest, toDependencyMap } from "../github/manifest-parsers";
+import { isLockfile, mergeDependencyGraph, parseLockfile } from "../github/lockfile-parsers";
+import { flattenTree } from "../github/tree-utils";
+import { detectWorkspace, isWorkspaceFile } from "../github/workspace-detector";
+import { GitHubServiceError } from "../github/github-errors";
+
+export type RepoCommit = RepoContent["commits"][number];
+
+/**
+ * An entry of a recursive tree listing, with its path relative to the listed directory
+ */
+export interface FlatTreeEntry {
+  path: string;
+  type: TreeNode["type"];
+  size: number;
+}
+
+/**
+ * Access to a repository on a hosting service (GitHub, GitLab, Bitbucket, ...).
+ * Failed requests throw a GitHubServiceError; missing files and READMEs are not failures.
+ */
+export interface RepositoryProvider {
+  validateRepo(owner: string, repo: string, ref?: string): Promise<boolean>;
+  resolveRef(owner: string, repo: string, ref?: string, path?: string): Promise<ResolvedRef>;
+  resolveScope(owner: string, repo: string, path: string, ref?: string): Promise<string>;
+  getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData>;
+  getReadme(owner: string, repo: string, ref?: string, dir?: string): Promise<string>;
+  getFolderStructure(owner: string, repo: string, ref?: string, path?: string): Promise<RepoTree>;
+  getDirectoryListing(owner: string, repo: string, path?: string, ref?: string): Promise<TreeNode[]>;
+  getFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null>;
+  getLanguages(owner: string, repo: string, ref?: string): Promise<{ [key: string]: number }>;
+  getRecentCommits(owner: string, repo: string, ref?: string, count?: number, path?: string): Promise<RepoCommit[]>;
+  getDependencies(
+    owner: string,
+    repo: string,
+    tree: TreeNode[],
+    ref?: string,
+    reuse?: Map<string, Dependency[]>
+  ): Promise<Dependency[]>;
+  compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison>;
+  getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails>;
+  analyzeRepository(
+    owner: string,
+    repo: string,
+    ref?: string,
+    path?: string,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal,
+    baseline?: AnalysisBaseline
+  ): Promise<RepoAnalysisData>;
+}
+
+/**
+ * Analysis shared by all providers: manifests, lockfiles, workspaces and source
+ * files are read through getFileText, so providers only implement the API calls
+ */
+export abstract class BaseRepositoryProvider implements RepositoryProvider {
+  private fileCache = new Map<string, Promise<string | null>>(); // Files are often read by several steps
+  protected readonly MAX_TREE_DEPTH = 10; // Maximum directory depth to include
+  protected readonly MAX_TREE_ENTRIES = 5000; // Maximum number of tree entries to include
+  private readonly MAX_FILES = 20; // Maximum number of source files to fetch
+  private readonly MAX_FILE_SIZE = 60 * 1024; // Skip individual files larger than this
+  private readonly FILE_BYTE_BUDGET = 200 * 1024; // Total bytes of file content to fetch
+  private readonly MAX_MANIFESTS = 60; // Maximum number of dependency manifests to parse
+  private readonly MAX_MANIFEST_DEPTH = 4; // Maximum directory depth to look for manifests
+  private readonly MAX_LOCKFILES = 10; // Maximum number of lockfiles to parse
+  private readonly MAX_LOCKFILE_SIZE = 10 * 1024 * 1024; // Skip lockfiles larger than this
+  private readonly OVERVIEW_README_LENGTH = 2000; // Characters of the root README kept for scoped analyses
+
+  abstract validateRepo(owner: string, repo: string, ref?: string): Promise<boolean>;
+  abstract resolveRef(owner: string, repo: string, ref?: string, path?: string): Promise<ResolvedRef>;
+  abstract resolveScope(owner: string, repo: string, path: string, ref?: string): Promise<string>;
+  abstract getRepoData(owner: string, repo: string, resolvedRef?: ResolvedRef): Promise<RepoData>;
+  abstract getFolderStructure(owner: string, repo: string, ref?: string, path?: string): Promise<RepoTree>;
+  abstract getDirectoryListing(owner: string, repo: string, path?: string, ref?: string): Promise<TreeNode[]>;
+  abstract getLanguages(owner: string, repo: string, ref?: string): Promise<{ [key: string]: number }>;
+  abstract getRecentCommits(
+    owner: string,
+    repo: string,
+    ref?: string,
+    count?: number,
+    path?: string
+  ): Promise<RepoCommit[]>;
+  abstract compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison>;
+  abstract getCommit(owner: string, repo: string, sha: string): Promise<CommitDetails>;
+
+  /**
+   * Fetches a file's raw text, or null if it does not exist
+   */
+  protected abstract fetchFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null>;
+
+  /**
+   * Fetches README content, optionally from a subdirectory, by looking for a
+   * README file in the directory listing. Providers with a README API override this.
+   */
+  async getReadme(owner: string, repo: string, ref?: string, dir?: string): Promise<string> {
+    const listing = await this.getDirectoryListing(owner, repo, dir || "", ref);
+    const readme = listing
+      .filter((node) => node.type === "file" && /^readme(\.|$)/i.test(node.name))
+      // Prefer README.md over README.txt, README.rst, ...
+      .sort((a, b) => Number(!/\.md$/i.test(a.name)) - Number(!/\.md$/i.test(b.name)))[0];
+
+    if (!readme) {
+      console.warn(`README not found in ${dir || "the root directory"}`);
+      return "";
+    }
+
+    return (await this.getFileText(owner, repo, readme.path, ref)) || "";
+  }
+
+  /**
+   * Nests a recursive tree listing into a folder structure, in listing order.
+   * Parents must be listed before their children.
+   * @param prefix Path of the listed directory, with a trailing slash, prepended to node paths
+   * @param truncated Whether the API already truncated the listing
+   */
+  protected buildFolderStructure(
+    items: FlatTreeEntry[],
+    prefix: string,
+    truncated: boolean,
+    label: string
+  ): RepoTree {
+    const root: TreeNode[] = [];
+    const directories = new Map<string, TreeNode>();
+    let totalEntries = 0;
+
+    for (const item of items) {
+      if (!item.path) continue;
+
+      const segments = item.path.split("/");
+      if (segments.length > this.MAX_TREE_DEPTH) {
+        truncated = true;
+        continue;
+      }
+
+      if (totalEntries >= this.MAX_TREE_ENTRIES) {
+        truncated = true;
+        break;
+      }
+
+      const node: TreeNode = {
+        name: segments[segments.length - 1],
+        path: prefix + item.path,
+        type: item.type,
+        size: item.size,
+      };
+
+      if (node.type === "dir") {
+        node.children = [];
+        directories.set(node.path, node);
+      }
+
+      const parentPath = segments.slice(0, -1).join("/");
+      if (!parentPath) {
+        root.push(node);
+      } else {
+        // Parent may be missing when the API truncated the listing
+        const parent = directories.get(prefix + parentPath);
+        if (!parent) continue;
+        parent.children!.push(node);
+      }
+
+      totalEntries++;
+    }
+
+    if (truncated) {
+      console.warn(`Folder structure for ${label} truncated at ${totalEntries} entries`);
+    }
+
+    return { entries: root, truncated, totalEntries };
+  }
+
+  /**
+   * Fetches and parses every dependency manifest found in the repository tree
+   * @param reuse Previously parsed dependencies of unchanged manifests, keyed by manifest path
+   */
+  async getDependencies(
+    owner: string,
+    repo: string,
+    tree: TreeNode[],
+    ref?: string,
+    reuse?: Map<string, Dependency[]>
+  ): Promise<Dependency[]> {
+    const manifestPaths = flattenTree(tree)
+      .filter(
+        (node) =>
+          node.type === "file" &&
+          isManifestFile(node.name) &&
+          node.path.split("/").length <= this.MAX_MANIFEST_DEPTH &&
+          !/(^|\/)(node_modules|vendor|third_party|examples?|fixtures|testdata)\//.test(node.path)
+      )
+      .map((node) => node.path)
+      .slice(0, this.MAX_MANIFESTS);
+
+    const contents = await Promise.all(
+      manifestPaths.map((path) => (reuse?.has(path) ? null : this.getFileText(owner, repo, path, ref)))
+    );
+
+    const dependencies: Dependency[] = [];
+    manifestPaths.forEach((path, index) => {
+      const reused = reuse?.get(path);
+      const content = contents[index];
+      if (reused) {
+        dependencies.push(...reused);
+      } else if (content !== null) {
+        dependencies.push(...parseManifest(path, content));
+      }
+    });
+
+    const reusedCount = manifestPaths.filter((path) => reuse?.has(path)).length;
+    console.log(
+      `Parsed ${dependencies.length} dependencies from ${manifestPaths.length} manifests (${reusedCount} unchanged)`
+    );
+    return dependencies;
+  }
+
+  /**
+   * Builds the resolved dependency graph from the lockfiles in the repository tree
+   * @param declared Dependencies parsed from manifests, used to identify direct dependencies
+   */
+  async getDependencyGraph(
+    owner: string,
+    repo: string,
+    tree: TreeNode[],
+    declared: Dependency[],
+    ref?: string
+  ): Promise<ResolvedDependencyGraph> {
+    const lockfiles = flattenTree(tree)
+      .filter(
+        (node) =>
+          node.type === "file" &&
+          isLockfile(node.name) &&
+          node.size <= this.MAX_LOCKFILE_SIZE &&
+          node.path.split("/").length <= this.MAX_MANIFEST_DEPTH &&
+          !/(^|\/)(node_modules|vendor)\//.test(node.path)
+      )
+      .map((node) => node.path)
+      .slice(0, this.MAX_LOCKFILES);
+
+    const contents = await Promise.all(
+      lockfiles.map((path) => this.getFileText(owner, repo, path, ref))
+    );
+
+    const parsedLockfiles: string[] = [];
+    const packageLists = lockfiles.map((path, index) => {
+      const content = contents[index];
+      if (content === null) return [];
+
+      // Manifests in the same directory declare the lockfile's direct dependencies
+      const directory = path.includes("/") ? path.slice(0, path.lastIndexOf("/") + 1) : "";
+      const siblings = declared.filter(
+        (dep) =>
+          dep.manifestPath.startsWith(directory) &&
+          !dep.manifestPath.slice(directory.length).includes("/")
+      );
+
+      parsedLockfiles.push(path);
+      return parseLockfile(path, content, siblings);
+    });
+
+    const graph = mergeDependencyGraph(parsedLockfiles, packageLists);
+    console.log(`Resolved ${graph.packages.length} packages from ${parsedLockfiles.length} lockfiles`);
+    return graph;
+  }
+
+  /**
+   * Builds a lightweight view of the repository around a scoped subdirectory:
+   * the top-level listing, the listings of each ancestor directory and an
+   * excerpt of the root README
+   */
+  async getRepositoryOverview(owner: string, repo: string, scopePath: string, ref?: string): Promise<RepositoryOverview> {
+    const segments = scopePath.split("/");
+    const ancestors = segments.map((_, index) => segments.slice(0, index).join("/"));
+
+    const [listings, rootReadme] = await Promise.all([
+      Promise.all(ancestors.map((dir) => this.getDirectoryListing(owner, repo, dir, ref))),
+      this.getReadme(owner, repo, ref),
+    ]);
+
+    // Nest each ancestor's listing under its entry in the parent listing
+    const tree = listings[0];
+    let level = tree;
+    for (let i = 1; i < listings.length; i++) {
+      const node = level.find((item) => item.path === ancestors[i]);
+      if (!node) break;
+      node.children = listings[i];
+      level = listings[i];
+    }
+
+    return {
+      tree,
+      readmeExcerpt: rootReadme.substring(0, this.OVERVIEW_README_LENGTH),
+    };
+  }
+
+  /**
+   * Fetches the text content of a single file, or null if it cannot be read
+   */
+  async getFileText(owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+    const key = `${owner}/${repo}@${ref || "HEAD"}:${path}`;
+    let pending = this.fileCache.get(key);
+    if (!pending) {
+      pending = this.fetchFileText(owner, repo, path, ref);
+      this.fileCache.set(key, pending);
+      // Failed requests may succeed when retried later
+      pending.catch(() => this.fileCache.delete(key));
+    }
+    return pending;
+  }
+
+  /**
+   * Fetches the most important source files within the byte budget
+   * @param reuse Previously fetched unchanged files, keyed by path
+   */
+  async getImportantFiles(
+    owner: string,
+    repo: string,
+    tree: TreeNode[],
+    readme: string,
+    primaryLanguage: string,
+    ref?: string,
+    reuse?: Map<string, RepoFile>
+  ): Promise<RepoFile[]> {
+    const candidates = rankImportantFiles(tree, readme, primaryLanguage, this.MAX_FILE_SIZE);
+
+    // Pick the top-ranked files that fit in the byte budget
+    const selected: typeof candidates = [];
+    let budget = this.FILE_BYTE_BUDGET;
+    for (const candidate of candidates) {
+      if (selected.length >= this.MAX_FILES) break;
+      if (candidate.size > budget) continue;
+      selected.push(candidate);
+      budget -= candidate.size;
+    }
+
+    const contents = await Promise.all(
+      selected.map(
+        (candidate) =>
+          reuse?.get(candidate.path)?.content ?? this.getFileText(owner, repo, candidate.path, ref)
+      )
+    );
+
+    const files: RepoFile[] = [];
+    selected.forEach((candidate, index) => {
+      const content = contents[index];
+      // Some APIs list files without sizes, so empty and oversized files are only caught once fetched
+      if (content && content.length <= this.MAX_FILE_SIZE) {
+        files.push({
+          path: candidate.path,
+          size: candidate.size || content.length,
+          content,
+          reasons: candidate.reasons,
+        });
+      }
+    });
+
+    const reusedCount = selected.filter((candidate) => reuse?.has(candidate.path)).length;
+    console.log(
+      `Fetched ${files.length - reusedCount} of ${candidates.length} candidate files (${reusedCount} unchanged)`
+    );
+    return files;
+  }
+
+  /**
+   * Detects a monorepo workspace in the tree and lists its packages
+   */
+  async getWorkspace(
+    owner: string,
+    repo: string,
+    tree: TreeNode[],
+    basePath: string,
+    dependencies: Dependency[],
+    ref?: string
+  ): Promise<WorkspaceInfo | undefined> {
+    try {
+      const workspace = await detectWorkspace(tree, basePath, dependencies, (path) =>
+        this.getFileText(owner, repo, path, ref)
+      );
+      return workspace ?? undefined;
+    } catch (error) {
+      if (error instanceof GitHubServiceError) {
+        throw error;
+      }
+      console.warn("Error detecting workspace:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Analyzes a repository and returns all relevant data
+   * @param ref Branch, tag or commit SHA to analyze; defaults to the default branch
+   * @param path URL path following the ref. Used to resolve refs that contain
+   * slashes; whatever remains scopes the analysis to that subdirectory.
+   * @param onProgress Called as each stage starts and finishes
+   * @param signal Aborts the analysis between stages
+   * @param baseline Previous analysis whose unchanged README, manifests, lockfiles
+   * and source files are reused instead of fetched again
+   */
+  async analyzeRepository(
+    owner: string,
+    repo: string,
+    ref?: string,
+    path?: string,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal,
+    baseline?: AnalysisBaseline
+  ): Promise<RepoAnalysisData> {
+    const report: AnalysisProgressCallback = (event) => onProgress?.(event);
+
+    try {
+      // Check if repo exists and is accessible
+      report({ stage: "validation", status: "running" });
+      const isValid = await this.validateRepo(owner, repo);
+      if (!isValid) {
+        throw new GitHubServiceError("Repository not found or not accessible", "not_found", 404);
+      }
+
+      // Pin every request to one commit so the snapshot is consistent
+      const resolvedRef = await this.resolveRef(owner, repo, ref, path);
+      const sha = resolvedRef.sha;
+      const scopePath = await this.resolveScope(owner, repo, resolvedRef.path, sha);
+      resolvedRef.path = scopePath;
+      report({ stage: "validation", status: "done" });
+      signal?.throwIfAborted();
+      console.log(`Analyzing ${owner}/${repo}${scopePath ? `/${scopePath}` : ""} at ${resolvedRef.ref} (${sha})`);
+
+      // Work out which parts of the baseline are still current
+      const previous = baseline?.data.repoContent;
+      const changedPaths = Array.from(baseline?.changedPaths || []);
+      const changedNames = changedPaths.map((changed) => changed.split("/").pop() || "");
+      const readmeChanged = changedPaths.some(
+        (changed, index) =>
+          /^readme/i.test(changedNames[index]) &&
+          changed === (scopePath ? `${scopePath}/${changedNames[index]}` : changedNames[index])
+      );
+      const manifestsChanged = changedNames.some((name) => isManifestFile(name) || isLockfile(name));
+      const workspaceChanged = manifestsChanged || changedNames.some(isWorkspaceFile);
+
+      // Fetch metadata and the tree in parallel
+      report({ stage: "metadata", status: "running" });
+      report({ stage: "tree", status: "running" });
+      const [
+        [repoData, readme, languages, commits],
+        [folderStructure, repositoryOverview],
+      ] = await Promise.all([
+        Promise.all([
+          this.getRepoData(owner, repo, resolvedRef),
+          previous && !readmeChanged
+            ? Promise.resolve(previous.readme)
+            : this.getReadme(owner, repo, sha, scopePath || undefined),
+          // Hosting APIs only report the default branch's languages; local repositories count them at the SHA
+          this.getLanguages(owner, repo, sha),
+          this.getRecentCommits(owner, repo, sha, 10, scopePath),
+        ]).then((result) => {
+          report({
+            stage: "metadata",
+            status: "done",
+            counts: { languages: Object.keys(result[2]).length, commits: result[3].length },
+          });
+          return result;
+        }),
+        Promise.all([
+          this.getFolderStructure(owner, repo, sha, scopePath),
+          scopePath
+            ? this.getRepositoryOverview(owner, repo, scopePath, sha)
+            : Promise.resolve(undefined),
+        ]).then((result) => {
+          report({
+            stage: "tree",
+            status: "done",
+            counts: { entries: result[0].totalEntries, truncated: result[0].truncated ? 1 : 0 },
+          });
+          return result;
+        }),
+      ]);
+      signal?.throwIfAborted();
+
+      // Monorepo lockfiles usually live at the root, outside the scoped tree
+      const lockfileTree = repositoryOverview
+        ? [...folderStructure.entries, ...repositoryOverview.tree.filter((node) => node.type === "file")]
+        : folderStructure.entries;
+
+      // Fetch manifests and key source files once the tree and README are known
+      report({ stage: "manifests", status: "running" });
+      report({ stage: "files", status: "running" });
+      const [[dependencyDetails, dependencyGraph, workspace], files] = await Promise.all([
+        this.getDependencies(
+          owner,
+          repo,
+          folderStructure.entries,
+          sha,
+          baseline && this.getUnchangedDependencies(baseline)
+        ).then(async (dependencyDetails) => {
+          const [dependencyGraph, workspace] = await Promise.all([
+            previous && !manifestsChanged
+              ? Promise.resolve(previous.dependencyGraph)
+              : this.getDependencyGraph(owner, repo, lockfileTree, dependencyDetails, sha),
+            previous && !workspaceChanged
+              ? Promise.resolve(previous.workspace)
+              : this.getWorkspace(owner, repo, folderStructure.entries, scopePath, dependencyDetails, sha),
+          ]);
+          report({
+            stage: "manifests",
+            status: "done",
+            counts: {
+              manifests: new Set(dependencyDetails.map((dep) => dep.manifestPath)).size,
+              dependencies: dependencyDetails.length,
+              lockfiles: dependencyGraph.lockfiles.length,
+              resolvedPackages: dependencyGraph.packages.length,
+              workspacePackages: workspace?.packages.length || 0,
+            },
+          });
+          return [dependencyDetails, dependencyGraph, workspace] as const;
+        }),
+        this.getImportantFiles(
+          owner,
+          repo,
+          folderStructure.entries,
+          readme,
+          repoData.language,
+          sha,
+          baseline &&
+            new Map(
+              baseline.data.repoContent.files
+                .filter((file) => !baseline.changedPaths.has(file.path))
+                .map((file) => [file.path, file])
+            )
+        ).then((files) => {
+          report({
+            stage: "files",
+            status: "done",
+            counts: { files: files.length, bytes: files.reduce((total, file) => total + file.size, 0) },
+          });
+          return files;
+        }),
+      ]);
+      signal?.throwIfAborted();
+
+      return {
+        repoData,
+        repoContent: {
+          readme,
+          dependencies: toDependencyMap(dependencyDetails),
+          dependencyDetails,
+          dependencyGraph,
+          folderStructure: folderStructure.entries,
+          folderStructureTruncated: folderStructure.truncated,
+          files,
+          languages,
+          commits,
+          repositoryOverview,
+          workspace,
+        },
+      };
+    } catch (error) {
+      console.error("Error analyzing repository:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Groups a baseline's dependencies by manifest, leaving out manifests that changed
+   */
+  private getUnchangedDependencies(baseline: AnalysisBaseline): Map<string, Dependency[]> {
+    const unchanged = new Map<string, Dependency[]>();
+    baseline.data.repoContent.dependencyDetails
+      .filter((dep) => !baseline.changedPaths.has(dep.manifestPath))
+      .forEach((dep) => {
+        unchanged.set(dep.manifestPath, [...(unchanged.get(dep.manifestPath) || []), dep]);
+      });
+    return unchanged;
+  }
+}
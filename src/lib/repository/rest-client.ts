@@ -0,0 +1,78 @@
+import { toGitHubServiceError } from "../github/github-errors";
+
+/**
+ * Minimal JSON/text client for repository APIs without an SDK (GitLab, Bitbucket).
+ * Retries server errors and network failures; other failures throw a GitHubServiceError.
+ */
+export class RestClient {
+  private readonly MAX_RETRIES = 3; // Retries for server errors and network failures
+  private readonly RETRY_DELAY = 1000; // Milliseconds before the first retry, doubled for each retry
+
+  /**
+   * @param baseUrl REST API URL that request paths are relative to
+   * @param headers Sent with every request, e.g. Authorization
+   * @param service Name of the API, for error messages
+   */
+  constructor(
+    private readonly baseUrl: string,
+    private readonly headers: Record<string, string>,
+    private readonly service: string
+  ) {}
+
+  /**
+   * Sends a GET request and returns the response if it succeeded
+   * @param path Path relative to the base URL, or an absolute URL (e.g. a next page link)
+   * @param action What is being done, for error messages, e.g. "fetch the README"
+   */
+  async get(path: string, action: string): Promise<Response> {
+    const url = /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, { headers: this.headers, cache: "no-store" });
+      } catch (error) {
+        if (attempt < this.MAX_RETRIES) {
+          await this.wait(attempt);
+          continue;
+        }
+        // No response, so this is classified as a network failure
+        throw toGitHubServiceError({ message: (error as Error).message }, action, this.service);
+      }
+
+      if (response.ok) {
+        return response;
+      }
+
+      if (response.status >= 500 && attempt < this.MAX_RETRIES) {
+        console.warn(`${this.service} answered ${response.status} for ${url}; retrying`);
+        await this.wait(attempt);
+        continue;
+      }
+
+      throw toGitHubServiceError(
+        {
+          status: response.status,
+          message: await response.text().catch(() => response.statusText),
+          response: { headers: Object.fromEntries(response.headers.entries()) },
+        },
+        action,
+        this.service
+      );
+    }
+  }
+
+  async getJson<T>(path: string, action: string): Promise<T> {
+    const response = await this.get(path, action);
+    return (await response.json()) as T;
+  }
+
+  async getText(path: string, action: string): Promise<string> {
+    const response = await this.get(path, action);
+    return response.text();
+  }
+
+  private wait(attempt: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, this.RETRY_DELAY * 2 ** attempt));
+  }
+}
@@ -0,0 +1,101 @@
+const K1 = 1.2; // Term frequency saturation
+const B = 0.75; // Document length normalization
+const PREFIX_MATCH_WEIGHT = 0.5; // Weight of terms matched by prefix, e.g. "auth" and "authentication"
+const MIN_PREFIX_LENGTH = 4; // Shortest term that is matched by prefix
+
+// Question words and filler that say nothing about where the answer is
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how",
+  "i", "in", "is", "it", "its", "me", "my", "of", "on", "or", "our", "so", "that", "the",
+  "this", "to", "we", "what", "when", "where", "which", "who", "why", "with", "work", "works",
+  "you", "your", "repo", "repository", "code", "codebase", "project", "explain", "show",
+]);
+
+/**
+ * Splits text into lowercase search terms, breaking identifiers such as
+ * getUserToken, user_token and HTTPServer into their words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !/^\d+$/.test(term) && !STOP_WORDS.has(term));
+}
+
+/**
+ * Okapi BM25 ranking over a fixed set of documents
+ */
+export class Bm25Index {
+  private termFrequencies: Array<Map<string, number>>;
+  private documentFrequencies = new Map<string, number>();
+  private lengths: number[];
+  private averageLength: number;
+
+  constructor(documents: string[]) {
+    this.termFrequencies = documents.map((document) => {
+      const frequencies = new Map<string, number>();
+      tokenize(document).forEach((term) => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+      frequencies.forEach((_, term) =>
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1)
+      );
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map((frequencies) =>
+      Array.from(frequencies.values()).reduce((total, count) => total + count, 0)
+    );
+    this.averageLength = this.lengths.reduce((total, length) => total + length, 0) / (documents.length || 1);
+  }
+
+  /**
+   * Ranks documents against a query, best first; documents without any query term are left out
+   * @returns Document indexes with their scores
+   */
+  search(query: string, limit: number): Array<{ index: number; score: number }> {
+    const queryTerms = this.expandQuery(tokenize(query));
+    const documentCount = this.termFrequencies.length;
+
+    return this.termFrequencies
+      .map((frequencies, index) => {
+        let score = 0;
+        queryTerms.forEach((weight, term) => {
+          const frequency = frequencies.get(term);
+          if (!frequency) return;
+          const documentFrequency = this.documentFrequencies.get(term) || 0;
+          const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          const normalization = K1 * (1 - B + (B * this.lengths[index]) / (this.averageLength || 1));
+          score += weight * idf * ((frequency * (K1 + 1)) / (frequency + normalization));
+        });
+        return { index, score };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Adds indexed terms that extend a query term, or that it extends, at a lower weight
+   */
+  private expandQuery(terms: string[]): Map<string, number> {
+    const weights = new Map<string, number>();
+    terms.forEach((term) => weights.set(term, 1));
+
+    terms
+      .filter((term) => term.length >= MIN_PREFIX_LENGTH)
+      .forEach((term) => {
+        this.documentFrequencies.forEach((_, indexed) => {
+          if (
+            indexed !== term &&
+            indexed.length >= MIN_PREFIX_LENGTH &&
+            (indexed.startsWith(term) || term.startsWith(indexed)) &&
+            !weights.has(indexed)
+          ) {
+            weights.set(indexed, PREFIX_MATCH_WEIGHT);
+          }
+        });
+      });
+
+    return weights;
+  }
+}
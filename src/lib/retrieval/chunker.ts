@@ -0,0 +1,129 @@
+export interface CodeChunk {
+  id: number;
+  path: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  symbol?: string; // Declaration or heading the chunk starts at
+  text: string;
+}
+
+const MAX_CHUNK_LINES = 80; // Longer sections are split into windows
+const WINDOW_OVERLAP = 10; // Lines repeated between consecutive windows
+const MIN_SECTION_LINES = 4; // Shorter sections are merged into the previous chunk
+
+// Markdown-like files are split at headings, everything else at top-level declarations
+const MARKDOWN_PATTERN = /\.(md|mdx|markdown)$|(^|\/)readme$/i;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*$/;
+
+// Unindented declarations in the common languages (TS/JS, Python, Go, Rust, Java/Kotlin, Ruby, PHP, ...)
+const DECLARATION_PATTERN =
+  /^(?:export\s+)?(?:default\s+)?(?:pub(?:\(\w+\))?\s+)?(?:(?:public|private|protected|internal|abstract|final|static|async|open|data|sealed)\s+)*(?:function\*?|class|interface|type|enum|const|let|var|def|func|fn|struct|impl|trait|module|object|record)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)/;
+
+// Comments and decorators directly above a declaration belong to it
+const LEADING_LINE_PATTERN = /^\s*(\/\/|\/\*|\*|#(?!include)|@|"""|''')/;
+
+/**
+ * Whether a file is prose documentation (README, Markdown) rather than code
+ */
+export function isDocumentation(path: string): boolean {
+  return MARKDOWN_PATTERN.test(path);
+}
+
+interface Section {
+  start: number; // 0-based line index
+  symbol?: string;
+}
+
+/**
+ * Splits a file into chunks at top-level declarations (or Markdown headings),
+ * so each chunk covers one function, class or section where possible
+ */
+export function chunkFile(path: string, content: string, firstId: number = 0): CodeChunk[] {
+  const lines = content.split("\n");
+  const sections = isDocumentation(path) ? findHeadings(lines) : findDeclarations(lines);
+  if (sections.length === 0 || sections[0].start > 0) {
+    sections.unshift({ start: 0 });
+  }
+  // A short preamble (imports, front matter) joins the first section rather than standing alone
+  if (sections.length > 1 && !sections[0].symbol && sections[1].start < MIN_SECTION_LINES) {
+    sections.shift();
+    sections[0] = { ...sections[0], start: 0 };
+  }
+
+  const chunks: CodeChunk[] = [];
+  sections.forEach((section, index) => {
+    const end = index + 1 < sections.length ? sections[index + 1].start : lines.length;
+    const previous = chunks[chunks.length - 1];
+
+    // Fold short sections (imports, one-line constants) into the previous chunk
+    if (
+      previous &&
+      end - section.start < MIN_SECTION_LINES &&
+      end - (previous.startLine - 1) <= MAX_CHUNK_LINES
+    ) {
+      previous.endLine = end;
+      previous.text = lines.slice(previous.startLine - 1, end).join("\n");
+      return;
+    }
+
+    // Split long sections into overlapping windows that keep the symbol name
+    for (let start = section.start; start < end; start += MAX_CHUNK_LINES - WINDOW_OVERLAP) {
+      const windowEnd = Math.min(start + MAX_CHUNK_LINES, end);
+      chunks.push({
+        id: 0,
+        path,
+        startLine: start + 1,
+        endLine: windowEnd,
+        symbol: section.symbol,
+        text: lines.slice(start, windowEnd).join("\n"),
+      });
+      if (windowEnd === end) break;
+    }
+  });
+
+  return chunks
+    .filter((chunk) => chunk.text.trim().length > 0)
+    .map((chunk, index) => {
+      // Drop trailing blank lines so the line range ends at the last line of code
+      const text = chunk.text.replace(/\s+$/, "");
+      const endLine = chunk.startLine + text.split("\n").length - 1;
+      return { ...chunk, id: firstId + index, endLine, text };
+    });
+}
+
+function findHeadings(lines: string[]): Section[] {
+  const sections: Section[] = [];
+  let inCodeBlock = false;
+
+  lines.forEach((line, index) => {
+    if (line.startsWith("```")) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    const match = !inCodeBlock && line.match(HEADING_PATTERN);
+    if (match) {
+      sections.push({ start: index, symbol: match[1] });
+    }
+  });
+
+  return sections;
+}
+
+function findDeclarations(lines: string[]): Section[] {
+  const sections: Section[] = [];
+
+  lines.forEach((line, index) => {
+    const match = line.match(DECLARATION_PATTERN);
+    if (!match) return;
+
+    // Start at the doc comment or decorators above the declaration
+    let start = index;
+    const floor = sections.length > 0 ? sections[sections.length - 1].start + 1 : 0;
+    while (start > floor && LEADING_LINE_PATTERN.test(lines[start - 1])) {
+      start--;
+    }
+    sections.push({ start, symbol: match[1] });
+  });
+
+  return sections;
+}
@@ -0,0 +1,73 @@
+import { ensureOk } from "../llm/stream-utils";
+
+export interface EmbeddingConfig {
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// Ollama's OpenAI-compatible API, the usual way to run an embedding model locally
+const DEFAULT_EMBEDDING_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Reads the embedding model configuration from the environment, or null if
+ * EMBEDDING_MODEL is not set (retrieval then uses BM25 only).
+ * EMBEDDING_BASE_URL points at any OpenAI-compatible /embeddings endpoint.
+ */
+export function getEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig | null {
+  if (!env.EMBEDDING_MODEL) {
+    return null;
+  }
+
+  return {
+    model: env.EMBEDDING_MODEL,
+    baseUrl: env.EMBEDDING_BASE_URL || DEFAULT_EMBEDDING_BASE_URL,
+    apiKey: env.EMBEDDING_API_KEY,
+  };
+}
+
+/**
+ * Client for the OpenAI embeddings API and compatible servers (Ollama, llama.cpp server, vLLM, ...)
+ */
+export class EmbeddingClient {
+  private readonly BATCH_SIZE = 64; // Texts embedded per request
+
+  constructor(private readonly config: EmbeddingConfig) {}
+
+  /**
+   * Embeds texts, returning one vector per text in the same order
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.BATCH_SIZE) {
+      const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // Local servers usually run without authentication
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          input: texts.slice(start, start + this.BATCH_SIZE),
+        }),
+      });
+
+      await ensureOk(response, "Embeddings");
+      const { data } = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+      data
+        .sort((a, b) => a.index - b.index)
+        .forEach((item) => vectors.push(item.embedding));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Creates a client for the configured embedding model, or null if none is configured
+ */
+export function createEmbeddingClient(config: EmbeddingConfig | null = getEmbeddingConfig()): EmbeddingClient | null {
+  return config ? new EmbeddingClient(config) : null;
+}
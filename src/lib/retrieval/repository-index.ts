@@ -0,0 +1,132 @@
+import { Bm25Index } from "./bm25-index";
+import { chunkFile, CodeChunk, isDocumentation } from "./chunker";
+import { createEmbeddingClient, EmbeddingClient } from "./embedding-client";
+
+export interface RetrievedChunk extends CodeChunk {
+  score: number;
+}
+
+const RRF_K = 60; // Reciprocal rank fusion constant; damps the difference between top ranks
+const CANDIDATES_PER_RANKING = 30; // Results taken from each ranking before fusing them
+const DOCUMENTATION_WEIGHT = 0.8; // Documentation ranks below code that matches about as well
+
+/**
+ * Searchable index of a repository's fetched files, split into chunks.
+ * Ranks chunks with BM25 and, when an embedding model is configured, fuses
+ * that ranking with embedding similarity.
+ */
+export class RepositoryIndex {
+  private chunks: CodeChunk[];
+  private bm25: Bm25Index;
+  private chunkVectors: Promise<number[][] | null> | null = null; // Embedded on the first search
+
+  /**
+   * @param files Files to index, e.g. the source files fetched during analysis
+   * @param embeddingClient Embedding model to rank with; BM25 only if null
+   */
+  constructor(
+    files: Array<{ path: string; content: string }>,
+    private readonly embeddingClient: EmbeddingClient | null = createEmbeddingClient()
+  ) {
+    this.chunks = [];
+    files.forEach((file) => this.chunks.push(...chunkFile(file.path, file.content, this.chunks.length)));
+    // Paths and symbols are repeated so that matches on them outweigh incidental mentions
+    this.bm25 = new Bm25Index(
+      this.chunks.map((chunk) => `${chunk.path} ${chunk.path} ${chunk.symbol || ""} ${chunk.symbol || ""}\n${chunk.text}`)
+    );
+    console.log(`Indexed ${files.length} files as ${this.chunks.length} chunks`);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  /**
+   * Finds the chunks most relevant to a question, best first
+   */
+  async search(query: string, limit: number): Promise<RetrievedChunk[]> {
+    const rankings = [this.bm25.search(query, CANDIDATES_PER_RANKING).map((result) => result.index)];
+
+    const semantic = await this.searchByEmbedding(query);
+    if (semantic) {
+      rankings.push(semantic);
+    }
+
+    // Reciprocal rank fusion: chunks ranked highly by either ranking come first
+    const scores = new Map<number, number>();
+    rankings.forEach((ranking) =>
+      ranking.forEach((index, rank) => scores.set(index, (scores.get(index) || 0) + 1 / (RRF_K + rank + 1)))
+    );
+
+    // Questions about how something works are answered by the code, not by what the README says about it
+    scores.forEach((score, index) => {
+      if (isDocumentation(this.chunks[index].path)) {
+        scores.set(index, score * DOCUMENTATION_WEIGHT);
+      }
+    });
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([index, score]) => ({ ...this.chunks[index], score }));
+  }
+
+  /**
+   * Ranks chunks by cosine similarity to the query, or returns null without a working embedding model
+   */
+  private async searchByEmbedding(query: string): Promise<number[] | null> {
+    if (!this.embeddingClient || this.chunks.length === 0) {
+      return null;
+    }
+
+    if (!this.chunkVectors) {
+      this.chunkVectors = this.embeddingClient
+        .embed(this.chunks.map((chunk) => `${chunk.path}\n${chunk.text}`))
+        .catch((error) => {
+          console.warn("Embedding the repository failed, using BM25 only:", error);
+          return null;
+        });
+    }
+
+    const vectors = await this.chunkVectors;
+    if (!vectors) {
+      return null;
+    }
+
+    try {
+      const [queryVector] = await this.embeddingClient.embed([query]);
+      return vectors
+        .map((vector, index) => ({ index, similarity: cosineSimilarity(queryVector, vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, CANDIDATES_PER_RANKING)
+        .map((result) => result.index);
+    } catch (error) {
+      console.warn("Embedding the question failed, using BM25 only:", error);
+      return null;
+    }
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Renders retrieved chunks with their file paths and line ranges for a prompt
+ */
+export function formatRetrievedChunks(chunks: CodeChunk[]): string {
+  return chunks
+    .map(
+      (chunk) =>
+        `From \`${chunk.path}\` (lines ${chunk.startLine}-${chunk.endLine}${chunk.symbol ? `, ${chunk.symbol}` : ""}):\n\`\`\`\n${chunk.text}\n\`\`\``
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileStorage } from "./file-storage";
+import { StoredSession } from "./types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function createSession(id: string): StoredSession {
+  return {
+    id,
+    createdAt: 0,
+    updatedAt: 0,
+    context: { repositoryName: "acme/app", repositoryUrl: "", repositoryDescription: "", analysisComplete: true },
+  };
+}
+
+describe("FileStorage", () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "gitrepos-storage-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("deletes sessions whose files were last written before the cutoff", async () => {
+    const storage = new FileStorage(baseDir);
+    const expired = randomUUID();
+    const chatting = randomUUID();
+    for (const id of [expired, chatting]) {
+      await storage.saveSession(createSession(id));
+      await storage.saveChatHistory(id, []);
+    }
+
+    // Backdate both sessions, then keep one in use through its chat history
+    const past = new Date(Date.now() - 10 * DAY);
+    for (const fileName of await fs.readdir(path.join(baseDir, "sessions"))) {
+      await fs.utimes(path.join(baseDir, "sessions", fileName), past, past);
+    }
+    await storage.saveChatHistory(chatting, [{ role: "user", content: "Still here" }]);
+
+    expect(await storage.deleteExpiredSessions(Date.now() - 7 * DAY)).toEqual([expired]);
+    expect(await storage.loadSession(expired)).toBeNull();
+    expect(await storage.loadSession(chatting)).not.toBeNull();
+    expect(await fs.readdir(path.join(baseDir, "sessions"))).toHaveLength(2);
+  });
+
+  it("stores records in a schema version envelope and rejects files without one", async () => {
+    const storage = new FileStorage(baseDir);
+    const id = randomUUID();
+    const filePath = path.join(baseDir, "sessions", `${id}.json`);
+    await storage.saveSession(createSession(id));
+
+    expect(JSON.parse(await fs.readFile(filePath, "utf8"))).toEqual({ schemaVersion: 1, data: createSession(id) });
+    expect(await storage.loadSession(id)).toEqual(createSession(id));
+
+    await fs.writeFile(filePath, JSON.stringify(createSession(id)), "utf8");
+    await expect(storage.loadSession(id)).rejects.toThrow("Stored session has no schema version");
+  });
+});
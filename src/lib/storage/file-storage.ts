@@ -0,0 +1,122 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { ChatMessage } from "../llm/types";
+import { migrateRecord, RecordKind, toVersionedRecord } from "./migrations";
+import { StorageBackend, StoredSession } from "./types";
+
+// Session IDs are UUIDs; anything else could escape the storage directory
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Stores each session as JSON files on disk:
+ * sessions/<id>.json for the analysis and sessions/<id>.chat.json for the conversation
+ */
+export class FileStorage implements StorageBackend {
+  readonly name = "file";
+  private readonly sessionsDir: string;
+
+  constructor(baseDir: string) {
+    this.sessionsDir = path.join(baseDir, "sessions");
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    await this.writeRecord(this.getPath(session.id, "session"), session);
+  }
+
+  async loadSession(sessionId: string): Promise<StoredSession | null> {
+    return this.readRecord<StoredSession>(sessionId, "session");
+  }
+
+  async saveChatHistory(sessionId: string, messages: ChatMessage[]): Promise<void> {
+    await this.writeRecord(this.getPath(sessionId, "chatHistory"), messages);
+  }
+
+  async loadChatHistory(sessionId: string): Promise<ChatMessage[]> {
+    return (await this.readRecord<ChatMessage[]>(sessionId, "chatHistory")) || [];
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await Promise.all(
+      (["session", "chatHistory"] as RecordKind[]).map((kind) =>
+        fs.rm(this.getPath(sessionId, kind), { force: true })
+      )
+    );
+  }
+
+  async deleteExpiredSessions(cutoff: number): Promise<string[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.sessionsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    // A session was last used when either of its files was last written
+    const lastWritten = new Map<string, number>();
+    const stats = await Promise.all(
+      fileNames.map(async (fileName) => {
+        const sessionId = fileName.split(".")[0];
+        if (!SESSION_ID_PATTERN.test(sessionId)) return null;
+        // Files deleted concurrently are skipped
+        const stat = await fs.stat(path.join(this.sessionsDir, fileName)).catch(() => null);
+        return stat ? { sessionId, time: stat.mtimeMs } : null;
+      })
+    );
+    for (const entry of stats) {
+      if (entry) {
+        lastWritten.set(entry.sessionId, Math.max(lastWritten.get(entry.sessionId) || 0, entry.time));
+      }
+    }
+
+    const expired = Array.from(lastWritten.entries())
+      .filter(([, time]) => time < cutoff)
+      .map(([sessionId]) => sessionId);
+    await Promise.all(expired.map((sessionId) => this.deleteSession(sessionId)));
+    return expired;
+  }
+
+  private getPath(sessionId: string, kind: RecordKind): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.sessionsDir, kind === "session" ? `${sessionId}.json` : `${sessionId}.chat.json`);
+  }
+
+  /**
+   * Reads a record and migrates it to the current schema, writing the upgraded version back
+   */
+  private async readRecord<T>(sessionId: string, kind: RecordKind): Promise<T | null> {
+    const filePath = this.getPath(sessionId, kind);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    const { data, migrated } = migrateRecord<T>(kind, JSON.parse(raw));
+    if (migrated) {
+      console.log(`Migrated stored ${kind} for session ${sessionId}`);
+      await this.writeRecord(filePath, data);
+    }
+    return data;
+  }
+
+  /**
+   * Writes to a temporary file first so a crash never leaves a half-written record
+   */
+  private async writeRecord(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(toVersionedRecord(data)), "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,39 @@
+import path from "path";
+import { FileStorage } from "./file-storage";
+import { MemoryStorage } from "./memory-storage";
+import { StorageBackend } from "./types";
+
+export * from "./types";
+export { FileStorage } from "./file-storage";
+export { MemoryStorage } from "./memory-storage";
+export { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+/**
+ * Creates the storage backend selected by STORAGE_BACKEND ("file" or "memory")
+ */
+export function createStorage(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const backend = (env.STORAGE_BACKEND || "file").toLowerCase();
+
+  switch (backend) {
+    case "memory":
+      return new MemoryStorage();
+    case "file":
+      return new FileStorage(path.resolve(env.STORAGE_DIR || ".data"));
+    default:
+      throw new Error(`Unsupported storage backend: ${backend}. Use "file" or "memory".`);
+  }
+}
+
+/**
+ * Returns the shared storage backend, created on first use
+ */
+export function getStorage(): StorageBackend {
+  // Share the backend between route bundles, which may each load their own copy of this module
+  const globalStore = global as Record<string, unknown>;
+  if (!globalStore.__STORAGE__) {
+    const storage = createStorage();
+    console.log(`Using ${storage.name} storage backend`);
+    globalStore.__STORAGE__ = storage;
+  }
+  return globalStore.__STORAGE__ as StorageBackend;
+}
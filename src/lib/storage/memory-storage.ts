@@ -0,0 +1,47 @@
+import { ChatMessage } from "../llm/types";
+import { StorageBackend, StoredSession } from "./types";
+
+/**
+ * Keeps sessions in process memory. Nothing survives a restart, which makes
+ * it suitable for tests and throwaway deployments.
+ */
+export class MemoryStorage implements StorageBackend {
+  readonly name = "memory";
+  private sessions = new Map<string, StoredSession>();
+  private chatHistories = new Map<string, ChatMessage[]>();
+  private lastWritten = new Map<string, number>();
+
+  async saveSession(session: StoredSession): Promise<void> {
+    // Store a copy so later changes to the live context are not persisted implicitly
+    this.sessions.set(session.id, structuredClone(session));
+    this.lastWritten.set(session.id, Date.now());
+  }
+
+  async loadSession(sessionId: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async saveChatHistory(sessionId: string, messages: ChatMessage[]): Promise<void> {
+    this.chatHistories.set(sessionId, structuredClone(messages));
+    this.lastWritten.set(sessionId, Date.now());
+  }
+
+  async loadChatHistory(sessionId: string): Promise<ChatMessage[]> {
+    return structuredClone(this.chatHistories.get(sessionId) || []);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.chatHistories.delete(sessionId);
+    this.lastWritten.delete(sessionId);
+  }
+
+  async deleteExpiredSessions(cutoff: number): Promise<string[]> {
+    const expired = Array.from(this.lastWritten.entries())
+      .filter(([, time]) => time < cutoff)
+      .map(([sessionId]) => sessionId);
+    await Promise.all(expired.map((sessionId) => this.deleteSession(sessionId)));
+    return expired;
+  }
+}
@@ -0,0 +1,56 @@
+import { VersionedRecord } from "./types";
+
+export type RecordKind = "session" | "chatHistory";
+
+// Bump when the shape of a stored record changes, and add a migration below
+export const CURRENT_SCHEMA_VERSION = 1;
+
+type Migration = (data: unknown) => unknown;
+
+/**
+ * Upgrades records written by older versions, keyed by the version they upgrade from.
+ * Each migration takes a record at version N and returns it at version N + 1.
+ * Version 1 is the first stored format, so there is nothing to migrate yet.
+ */
+const MIGRATIONS: Record<RecordKind, Record<number, Migration>> = {
+  session: {},
+  chatHistory: {},
+};
+
+/**
+ * Reads a stored record, migrating it to the current schema version
+ * @returns The migrated data and whether it changed, so callers can write it back
+ */
+export function migrateRecord<T>(kind: RecordKind, raw: unknown): { data: T; migrated: boolean } {
+  const isVersioned =
+    typeof raw === "object" && raw !== null && "schemaVersion" in raw && "data" in raw;
+  if (!isVersioned) {
+    throw new Error(`Stored ${kind} has no schema version`);
+  }
+  let { schemaVersion: version, data } = raw as VersionedRecord<unknown>;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored ${kind} has schema version ${version}, newer than the supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  const startVersion = version;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[kind][version];
+    if (!migration) {
+      throw new Error(`No migration for stored ${kind} from schema version ${version}`);
+    }
+    data = migration(data);
+    version++;
+  }
+
+  return { data: data as T, migrated: version !== startVersion };
+}
+
+/**
+ * Wraps data in the current schema version envelope
+ */
+export function toVersionedRecord<T>(data: T): VersionedRecord<T> {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, data };
+}
@@ -0,0 +1,37 @@
+import type { MCPContext } from "../gemini/mcp-server";
+import type { ChatMessage } from "../llm/types";
+
+/**
+ * A persisted analysis session: the repository data, AI analysis, setup
+ * instructions and diagrams. Chat history is stored separately because it
+ * changes far more often than the analysis.
+ */
+export interface StoredSession {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  context: Omit<MCPContext, "chatHistory">;
+}
+
+/**
+ * Envelope written around every stored record so old records can be migrated
+ */
+export interface VersionedRecord<T> {
+  schemaVersion: number;
+  data: T;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+
+  saveSession(session: StoredSession): Promise<void>;
+  loadSession(sessionId: string): Promise<StoredSession | null>;
+  saveChatHistory(sessionId: string, messages: ChatMessage[]): Promise<void>;
+  loadChatHistory(sessionId: string): Promise<ChatMessage[]>;
+  deleteSession(sessionId: string): Promise<void>;
+  /**
+   * Deletes the sessions whose analysis and chat history were last written before the cutoff
+   * @returns The IDs of the deleted sessions
+   */
+  deleteExpiredSessions(cutoff: number): Promise<string[]>;
+}
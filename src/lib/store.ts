@@ -1,6 +1,7 @@
 import { create } from 'zustand';
-import { ChatMessage } from './gemini/gemini-service';
+import { ChatMessage } from './llm/types';
 import { RepoAnalysisData } from './github/github-service';
+import { AnalysisChangeDigest } from './github/change-digest';
 
 interface AnalysisState {
   // Repository URL and validation
@@ -28,6 +29,18 @@ interface AnalysisState {
   messages: ChatMessage[];
   addMessage: (message: ChatMessage) => void;
   
+  // Chat session issued by the analysis, sent with every chat request
+  sessionId: string | null;
+  setSessionId: (sessionId: string | null) => void;
+  
+  // When the analysis was served from the server cache, null for fresh analyses
+  cachedAt: number | null;
+  setCachedAt: (cachedAt: number | null) => void;
+  
+  // What changed since the previous analysis, when it was updated incrementally
+  changeDigest: AnalysisChangeDigest | null;
+  setChangeDigest: (digest: AnalysisChangeDigest | null) => void;
+  
   // Analysis completion state
   isAnalysisComplete: boolean;
   setIsAnalysisComplete: (state: boolean) => void;
@@ -68,6 +81,16 @@ export const useAnalysisStore = create<AnalysisState>((set) => ({
     messages: [...state.messages, message] 
   })),
   
+  // Chat session
+  sessionId: null,
+  setSessionId: (sessionId) => set({ sessionId }),
+  
+  // Analysis cache
+  cachedAt: null,
+  setCachedAt: (cachedAt) => set({ cachedAt }),
+  changeDigest: null,
+  setChangeDigest: (digest) => set({ changeDigest: digest }),
+  
   // Analysis completion state
   isAnalysisComplete: false,
   setIsAnalysisComplete: (state) => set({ isAnalysisComplete: state }),
@@ -87,6 +110,9 @@ export const useAnalysisStore = create<AnalysisState>((set) => ({
     detailedSummary: '',
     workflowDiagram: '',
     messages: [],
+    sessionId: null,
+    cachedAt: null,
+    changeDigest: null,
     isAnalysisComplete: false,
     error: null,
   }),
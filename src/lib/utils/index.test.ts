@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { extractRepoInfo, isValidRepositoryUrl } from "./index";
+
+describe("extractRepoInfo", () => {
+  it.each([
+    ["https://github.com/acme/widgets", { host: "github.com", owner: "acme", repo: "widgets" }],
+    [
+      "https://github.com/acme/widgets/tree/feature%2Flogin",
+      { host: "github.com", owner: "acme", repo: "widgets", ref: "feature/login", path: undefined },
+    ],
+    [
+      "https://gitlab.com/acme/tools/widgets/-/blob/main/src/index.ts",
+      { host: "gitlab.com", owner: "acme/tools", repo: "widgets", ref: "main", path: "src/index.ts" },
+    ],
+    ["file:///srv/git/my%20repo", { host: "local", owner: "/srv/git", repo: "my repo" }],
+    ["https://bitbucket.org/acme/billing/commits/abc123", { host: "bitbucket.org", owner: "acme", repo: "billing", ref: "abc123" }],
+  ])("parses %s", (url, expected) => {
+    expect(extractRepoInfo(url)).toEqual(expected);
+  });
+
+  it.each([
+    "https://github.com/acme/widgets/tree/%E0%A4%A",
+    "https://github.com/acme/widgets/blob/main/src/%ZZ.ts",
+    "https://gitlab.com/acme/widgets/-/commit/%",
+    "file:///srv/git/%E0%A4%A",
+  ])("rejects the malformed escape in %s", (url) => {
+    expect(extractRepoInfo(url)).toBeNull();
+    expect(isValidRepositoryUrl(url)).toBe(false);
+  });
+});
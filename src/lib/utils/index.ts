@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { ChatMessage } from "@/lib/llm/types";
 
 /**
  * Combines class names with Tailwind CSS classes
@@ -8,34 +9,155 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+export type RepositoryHostType = "github" | "gitlab" | "bitbucket" | "local";
+
+// Display names of the hosting services, for messages
+export const REPOSITORY_HOST_NAMES: Record<RepositoryHostType, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  bitbucket: "Bitbucket",
+  local: "Git",
+};
+
+// Matches https://<host>/<path>; the path is interpreted per hosting service by extractRepoInfo.
+// The host is one of the configured hosts (see getRepositoryHost).
+const REPOSITORY_URL_PATTERN = /^https:\/\/([a-zA-Z0-9.-]+(?::\d+)?)\/([^?#]+?)\/?$/;
+// Matches file:///path/to/repository for local clones and bare repositories
+const LOCAL_URL_PATTERN = /^file:\/\/(\/[^?#]*?)\/?$/;
+const OWNER_PATTERN = /^[a-zA-Z0-9-_]+$/;
+const REPO_PATTERN = /^[a-zA-Z0-9-_.]+$/;
+
+/**
+ * Guesses the hosting service of a URL from its host, for clients that do not
+ * know the configured hosts. Self-hosted GitLab is recognized by its /-/ paths.
+ */
+export function detectRepositoryHostType(host: string, path: string = ""): RepositoryHostType {
+  if (host === "local") {
+    return "local";
+  }
+  if (host === "gitlab.com" || /(^|\/)-(\/|$)/.test(path)) {
+    return "gitlab";
+  }
+  return host === "bitbucket.org" ? "bitbucket" : "github";
+}
+
 /**
- * Validates a GitHub repository URL
+ * Validates a GitHub, GitLab or Bitbucket repository URL
  * @param url The URL to validate
+ * @param hosts Hosts to accept; any host is accepted if omitted, for clients that do not know the configured hosts
  * @returns A boolean indicating if the URL is valid
  */
-export function isValidGitHubUrl(url: string): boolean {
-  // Basic GitHub URL validation
-  const githubUrlPattern = /^https:\/\/github\.com\/[a-zA-Z0-9-]+\/[a-zA-Z0-9-_.]+\/?$/;
-  return githubUrlPattern.test(url);
+export function isValidRepositoryUrl(url: string, hosts?: string[]): boolean {
+  const repoInfo = extractRepoInfo(url);
+  return repoInfo !== null && (!hosts || hosts.includes(repoInfo.host));
+}
+
+/**
+ * Extracts host, owner, repo name and optional ref from a repository URL:
+ * - GitHub: /owner/repo with /tree/<ref>, /blob/<ref>/<path> or /commit/<sha>
+ * - GitLab: /group/subgroup/project with /-/tree/<ref>, /-/blob/<ref>/<path> or /-/commit/<sha>;
+ *   the owner is the full group path
+ * - Bitbucket: /workspace/repo with /src/<ref>/<path> or /commits/<sha>
+ * - Local: file:///path/to/repo, with host "local" and the parent directory as the owner
+ *
+ * The first segment after the keyword is returned as the ref and the remainder
+ * as the path; refs containing slashes are resolved later against the API
+ * (see GitHubService.resolveRef).
+ * @param url The repository URL
+ * @param type The host's hosting service, if known; guessed from the URL otherwise
+ * @returns An object containing host, owner, repo name, ref and path
+ */
+export function extractRepoInfo(
+  url: string,
+  type?: RepositoryHostType
+): { host: string; owner: string; repo: string; ref?: string; path?: string } | null {
+  const localMatch = url.match(LOCAL_URL_PATTERN);
+  if (localMatch) {
+    const localPath = decodeSegment(localMatch[1]);
+    if (localPath === null) return null;
+    const separator = localPath.lastIndexOf("/");
+    const repo = localPath.slice(separator + 1);
+    if (!repo || localPath.split("/").includes("..")) return null;
+    return { host: "local", owner: localPath.slice(0, separator) || "/", repo };
+  }
+
+  const match = url.match(REPOSITORY_URL_PATTERN);
+  if (!match) return null;
+
+  const host = match[1].toLowerCase();
+  const segments = match[2].split("/");
+  let owners: string[];
+  let repo: string;
+  let suffix: string[];
+  let commitKind: string;
+  let refKinds: string[];
+
+  switch (type || detectRepositoryHostType(host, match[2])) {
+    case "gitlab": {
+      const separator = segments.indexOf("-");
+      const project = separator < 0 ? segments : segments.slice(0, separator);
+      owners = project.slice(0, -1);
+      repo = project[project.length - 1];
+      suffix = separator < 0 ? [] : segments.slice(separator + 1);
+      if (separator >= 0 && suffix.length === 0) return null;
+      commitKind = "commit";
+      refKinds = ["tree", "blob"];
+      break;
+    }
+    case "bitbucket":
+      owners = segments.slice(0, 1);
+      repo = segments[1];
+      suffix = segments.slice(2);
+      commitKind = "commits";
+      refKinds = ["src"];
+      break;
+    default:
+      owners = segments.slice(0, 1);
+      repo = segments[1];
+      suffix = segments.slice(2);
+      commitKind = "commit";
+      refKinds = ["tree", "blob"];
+  }
+
+  repo = repo?.replace(/\.git$/, "");
+  if (owners.length === 0 || !owners.every((owner) => OWNER_PATTERN.test(owner)) || !repo || !REPO_PATTERN.test(repo)) {
+    return null;
+  }
+
+  const owner = owners.join("/");
+  if (suffix.length === 0) {
+    return { host, owner, repo };
+  }
+
+  const [kind, ...rest] = suffix;
+  const decoded = rest.filter(Boolean).map(decodeSegment);
+  const refSegments = decoded.filter((segment): segment is string => segment !== null);
+  if (refSegments.length === 0 || refSegments.length < decoded.length) return null;
+
+  if (kind === commitKind) {
+    return { host, owner, repo, ref: refSegments[0] };
+  }
+
+  if (!refKinds.includes(kind)) return null;
+
+  return {
+    host,
+    owner,
+    repo,
+    ref: refSegments[0],
+    path: refSegments.slice(1).join("/") || undefined,
+  };
 }
 
 /**
- * Extracts owner and repo name from a GitHub URL
- * @param url The GitHub URL
- * @returns An object containing owner and repo name
+ * Decodes a percent-encoded URL segment or path, or returns null for a malformed escape such as %E0%A4%A
  */
-export function extractRepoInfo(url: string): { owner: string; repo: string } | null {
-  if (!isValidGitHubUrl(url)) return null;
-  
-  // Remove trailing slash if present
-  const cleanUrl = url.endsWith('/') ? url.slice(0, -1) : url;
-  
-  // Extract owner and repo from URL
-  const parts = cleanUrl.split('/');
-  const owner = parts[parts.length - 2];
-  const repo = parts[parts.length - 1];
-  
-  return { owner, repo };
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -45,3 +167,21 @@ export function extractRepoInfo(url: string): { owner: string; repo: string } |
 export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Checks that a request body field is a non-empty array of chat messages
+ * @param messages The value to check
+ */
+export function isValidChatMessages(messages: unknown): messages is ChatMessage[] {
+  return (
+    Array.isArray(messages) &&
+    messages.length > 0 &&
+    messages.every(
+      (msg) =>
+        msg &&
+        typeof msg === "object" &&
+        (msg.role === "user" || msg.role === "assistant") &&
+        typeof msg.content === "string"
+    )
+  );
+}